@@ -0,0 +1,26 @@
+'use strict';
+
+/** @type {import('sequelize-cli').Migration} */
+module.exports = {
+  async up(queryInterface, Sequelize) {
+    await queryInterface.addColumn('plugins', 'timeout_seconds', {
+      type: Sequelize.INTEGER,
+      allowNull: false,
+      defaultValue: 600,
+    });
+    await queryInterface.addColumn('slots', 'timeout_seconds', {
+      type: Sequelize.INTEGER,
+      allowNull: true,
+    });
+    await queryInterface.addColumn('slots', 'error_slot_id', {
+      type: Sequelize.INTEGER,
+      allowNull: true,
+    });
+  },
+
+  async down(queryInterface) {
+    await queryInterface.removeColumn('slots', 'error_slot_id');
+    await queryInterface.removeColumn('slots', 'timeout_seconds');
+    await queryInterface.removeColumn('plugins', 'timeout_seconds');
+  },
+};
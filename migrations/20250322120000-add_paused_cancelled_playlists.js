@@ -0,0 +1,27 @@
+'use strict';
+
+/** @type {import('sequelize-cli').Migration} */
+module.exports = {
+  async up(queryInterface, Sequelize) {
+    await queryInterface.changeColumn('playlists', 'status', {
+      type: Sequelize.ENUM(
+        'CREATED',
+        'RUNNING',
+        'FAILED',
+        'COMPLETE',
+        'CANCELLED',
+        'PAUSED',
+      ),
+      defaultValue: 'CREATED',
+      allowNull: false,
+    });
+  },
+
+  async down(queryInterface, Sequelize) {
+    await queryInterface.changeColumn('playlists', 'status', {
+      type: Sequelize.ENUM('CREATED', 'RUNNING', 'FAILED', 'COMPLETE'),
+      defaultValue: 'CREATED',
+      allowNull: false,
+    });
+  },
+};
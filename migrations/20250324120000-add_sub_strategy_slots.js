@@ -0,0 +1,40 @@
+'use strict';
+
+/** @type {import('sequelize-cli').Migration} */
+module.exports = {
+  async up(queryInterface, Sequelize) {
+    await queryInterface.addColumn('slots', 'type', {
+      type: Sequelize.ENUM('PLUGIN', 'STRATEGY'),
+      allowNull: false,
+      defaultValue: 'PLUGIN',
+    });
+    await queryInterface.changeColumn('slots', 'plugins_id', {
+      type: Sequelize.INTEGER,
+      allowNull: true,
+      references: { model: 'plugins', key: 'id' },
+      onDelete: 'CASCADE',
+    });
+    await queryInterface.addColumn('playlists', 'parent_playlist_id', {
+      type: Sequelize.INTEGER,
+      allowNull: true,
+      references: { model: 'playlists', key: 'id' },
+      onDelete: 'SET NULL',
+    });
+    await queryInterface.addColumn('playlists', 'parent_slot', {
+      type: Sequelize.STRING,
+      allowNull: true,
+    });
+  },
+
+  async down(queryInterface, Sequelize) {
+    await queryInterface.removeColumn('playlists', 'parent_slot');
+    await queryInterface.removeColumn('playlists', 'parent_playlist_id');
+    await queryInterface.changeColumn('slots', 'plugins_id', {
+      type: Sequelize.INTEGER,
+      allowNull: false,
+      references: { model: 'plugins', key: 'id' },
+      onDelete: 'CASCADE',
+    });
+    await queryInterface.removeColumn('slots', 'type');
+  },
+};
@@ -0,0 +1,77 @@
+'use strict';
+
+/** @type {import('sequelize-cli').Migration} */
+module.exports = {
+  async up(queryInterface, Sequelize) {
+    await queryInterface.createTable('approvals', {
+      id: { type: Sequelize.INTEGER, autoIncrement: true, primaryKey: true },
+      playlists_id: {
+        type: Sequelize.INTEGER,
+        allowNull: false,
+        references: { model: 'playlists', key: 'id' },
+        onDelete: 'CASCADE',
+      },
+      slot_id: { type: Sequelize.INTEGER, allowNull: false },
+      slot_name: { type: Sequelize.STRING(100), allowNull: false },
+      status: {
+        type: Sequelize.ENUM('PENDING', 'APPROVED', 'REJECTED', 'EXPIRED'),
+        defaultValue: 'PENDING',
+        allowNull: false,
+      },
+      decided_by: { type: Sequelize.STRING, allowNull: true },
+      comment: { type: Sequelize.TEXT, allowNull: true },
+      decided_at: { type: Sequelize.DATE, allowNull: true },
+      expires_at: { type: Sequelize.DATE, allowNull: true },
+      created_at: {
+        type: Sequelize.DATE,
+        allowNull: false,
+        defaultValue: Sequelize.NOW,
+      },
+      updated_at: {
+        type: Sequelize.DATE,
+        allowNull: false,
+        defaultValue: Sequelize.NOW,
+      },
+    });
+    await queryInterface.addIndex('approvals', ['status']);
+    await queryInterface.changeColumn('slots', 'type', {
+      type: Sequelize.ENUM('PLUGIN', 'STRATEGY', 'APPROVAL'),
+      allowNull: false,
+      defaultValue: 'PLUGIN',
+    });
+    await queryInterface.changeColumn('playlists', 'status', {
+      type: Sequelize.ENUM(
+        'CREATED',
+        'RUNNING',
+        'FAILED',
+        'COMPLETE',
+        'CANCELLED',
+        'PAUSED',
+        'AWAITING_APPROVAL',
+      ),
+      defaultValue: 'CREATED',
+      allowNull: false,
+    });
+  },
+
+  async down(queryInterface, Sequelize) {
+    await queryInterface.changeColumn('playlists', 'status', {
+      type: Sequelize.ENUM(
+        'CREATED',
+        'RUNNING',
+        'FAILED',
+        'COMPLETE',
+        'CANCELLED',
+        'PAUSED',
+      ),
+      defaultValue: 'CREATED',
+      allowNull: false,
+    });
+    await queryInterface.changeColumn('slots', 'type', {
+      type: Sequelize.ENUM('PLUGIN', 'STRATEGY'),
+      allowNull: false,
+      defaultValue: 'PLUGIN',
+    });
+    await queryInterface.dropTable('approvals');
+  },
+};
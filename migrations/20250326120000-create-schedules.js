@@ -0,0 +1,44 @@
+'use strict';
+
+/** @type {import('sequelize-cli').Migration} */
+module.exports = {
+  async up(queryInterface, Sequelize) {
+    await queryInterface.createTable('schedules', {
+      id: { type: Sequelize.INTEGER, autoIncrement: true, primaryKey: true },
+      strategies_id: {
+        type: Sequelize.INTEGER,
+        allowNull: false,
+        references: { model: 'strategies', key: 'id' },
+        onDelete: 'CASCADE',
+      },
+      cron_expression: { type: Sequelize.STRING(100), allowNull: false },
+      timezone: {
+        type: Sequelize.STRING(64),
+        allowNull: false,
+        defaultValue: 'UTC',
+      },
+      metadata: { type: Sequelize.JSON, allowNull: false, defaultValue: {} },
+      enabled: {
+        type: Sequelize.BOOLEAN,
+        allowNull: false,
+        defaultValue: true,
+      },
+      last_run_at: { type: Sequelize.DATE, allowNull: true },
+      next_run_at: { type: Sequelize.DATE, allowNull: true },
+      created_at: {
+        type: Sequelize.DATE,
+        allowNull: false,
+        defaultValue: Sequelize.NOW,
+      },
+      updated_at: {
+        type: Sequelize.DATE,
+        allowNull: false,
+        defaultValue: Sequelize.NOW,
+      },
+    });
+  },
+
+  async down(queryInterface) {
+    await queryInterface.dropTable('schedules');
+  },
+};
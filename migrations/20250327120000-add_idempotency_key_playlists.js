@@ -0,0 +1,17 @@
+'use strict';
+
+/** @type {import('sequelize-cli').Migration} */
+module.exports = {
+  async up(queryInterface, Sequelize) {
+    await queryInterface.addColumn('playlists', 'idempotency_key', {
+      type: Sequelize.STRING(255),
+      allowNull: true,
+    });
+    await queryInterface.addIndex('playlists', ['idempotency_key']);
+  },
+
+  async down(queryInterface) {
+    await queryInterface.removeIndex('playlists', ['idempotency_key']);
+    await queryInterface.removeColumn('playlists', 'idempotency_key');
+  },
+};
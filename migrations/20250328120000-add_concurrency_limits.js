@@ -0,0 +1,47 @@
+'use strict';
+
+/** @type {import('sequelize-cli').Migration} */
+module.exports = {
+  async up(queryInterface, Sequelize) {
+    await queryInterface.addColumn('strategies', 'max_concurrency', {
+      type: Sequelize.INTEGER,
+      allowNull: true,
+    });
+    await queryInterface.addColumn('plugins', 'max_concurrency', {
+      type: Sequelize.INTEGER,
+      allowNull: true,
+    });
+    await queryInterface.changeColumn('playlists', 'status', {
+      type: Sequelize.ENUM(
+        'QUEUED',
+        'CREATED',
+        'RUNNING',
+        'FAILED',
+        'COMPLETE',
+        'CANCELLED',
+        'PAUSED',
+        'AWAITING_APPROVAL',
+      ),
+      defaultValue: 'CREATED',
+      allowNull: false,
+    });
+  },
+
+  async down(queryInterface, Sequelize) {
+    await queryInterface.changeColumn('playlists', 'status', {
+      type: Sequelize.ENUM(
+        'CREATED',
+        'RUNNING',
+        'FAILED',
+        'COMPLETE',
+        'CANCELLED',
+        'PAUSED',
+        'AWAITING_APPROVAL',
+      ),
+      defaultValue: 'CREATED',
+      allowNull: false,
+    });
+    await queryInterface.removeColumn('plugins', 'max_concurrency');
+    await queryInterface.removeColumn('strategies', 'max_concurrency');
+  },
+};
@@ -0,0 +1,43 @@
+'use strict';
+
+/** @type {import('sequelize-cli').Migration} */
+module.exports = {
+  async up(queryInterface, Sequelize) {
+    await queryInterface.createTable('dispatches', {
+      id: { type: Sequelize.INTEGER, autoIncrement: true, primaryKey: true },
+      playlists_id: {
+        type: Sequelize.INTEGER,
+        allowNull: false,
+        references: { model: 'playlists', key: 'id' },
+        onDelete: 'CASCADE',
+      },
+      slot_id: { type: Sequelize.INTEGER, allowNull: false },
+      status: {
+        type: Sequelize.ENUM('PENDING', 'LEASED'),
+        defaultValue: 'PENDING',
+        allowNull: false,
+      },
+      available_at: { type: Sequelize.DATE, allowNull: false },
+      lease_owner: { type: Sequelize.STRING(64), allowNull: true },
+      leased_until: { type: Sequelize.DATE, allowNull: true },
+      attempts: { type: Sequelize.INTEGER, allowNull: false, defaultValue: 0 },
+      created_at: {
+        type: Sequelize.DATE,
+        allowNull: false,
+        defaultValue: Sequelize.NOW,
+      },
+      updated_at: {
+        type: Sequelize.DATE,
+        allowNull: false,
+        defaultValue: Sequelize.NOW,
+      },
+    });
+    await queryInterface.addIndex('dispatches', ['status', 'available_at'], {
+      name: 'dispatches_status_available_at',
+    });
+  },
+
+  async down(queryInterface) {
+    await queryInterface.dropTable('dispatches');
+  },
+};
@@ -0,0 +1,20 @@
+'use strict';
+
+/** @type {import('sequelize-cli').Migration} */
+module.exports = {
+  async up(queryInterface, Sequelize) {
+    await queryInterface.addColumn('plugins', 'input_schema', {
+      type: Sequelize.JSON,
+      allowNull: true,
+    });
+    await queryInterface.addColumn('plugins', 'output_schema', {
+      type: Sequelize.JSON,
+      allowNull: true,
+    });
+  },
+
+  async down(queryInterface) {
+    await queryInterface.removeColumn('plugins', 'output_schema');
+    await queryInterface.removeColumn('plugins', 'input_schema');
+  },
+};
@@ -0,0 +1,44 @@
+'use strict';
+
+/** @type {import('sequelize-cli').Migration} */
+module.exports = {
+  async up(queryInterface, Sequelize) {
+    await queryInterface.createTable('retention_policies', {
+      id: { type: Sequelize.INTEGER, autoIncrement: true, primaryKey: true },
+      strategies_id: {
+        type: Sequelize.INTEGER,
+        allowNull: true,
+        references: { model: 'strategies', key: 'id' },
+        onDelete: 'CASCADE',
+      },
+      status: {
+        type: Sequelize.ENUM(
+          'QUEUED',
+          'CREATED',
+          'RUNNING',
+          'FAILED',
+          'COMPLETE',
+          'CANCELLED',
+          'PAUSED',
+          'AWAITING_APPROVAL',
+        ),
+        allowNull: true,
+      },
+      retention_days: { type: Sequelize.INTEGER, allowNull: false },
+      created_at: {
+        type: Sequelize.DATE,
+        allowNull: false,
+        defaultValue: Sequelize.NOW,
+      },
+      updated_at: {
+        type: Sequelize.DATE,
+        allowNull: false,
+        defaultValue: Sequelize.NOW,
+      },
+    });
+  },
+
+  async down(queryInterface) {
+    await queryInterface.dropTable('retention_policies');
+  },
+};
@@ -0,0 +1,45 @@
+'use strict';
+
+/** @type {import('sequelize-cli').Migration} */
+module.exports = {
+  async up(queryInterface, Sequelize) {
+    await queryInterface.createTable('deliveries', {
+      id: { type: Sequelize.INTEGER, autoIncrement: true, primaryKey: true },
+      playlists_id: {
+        type: Sequelize.INTEGER,
+        allowNull: false,
+        references: { model: 'playlists', key: 'id' },
+        onDelete: 'CASCADE',
+      },
+      origin: { type: Sequelize.STRING, allowNull: false },
+      status: {
+        type: Sequelize.ENUM('PENDING', 'LEASED', 'DELIVERED', 'DEAD'),
+        defaultValue: 'PENDING',
+        allowNull: false,
+      },
+      available_at: { type: Sequelize.DATE, allowNull: false },
+      lease_owner: { type: Sequelize.STRING(64), allowNull: true },
+      leased_until: { type: Sequelize.DATE, allowNull: true },
+      attempts: { type: Sequelize.INTEGER, allowNull: false, defaultValue: 0 },
+      last_error: { type: Sequelize.TEXT, allowNull: true },
+      delivered_at: { type: Sequelize.DATE, allowNull: true },
+      created_at: {
+        type: Sequelize.DATE,
+        allowNull: false,
+        defaultValue: Sequelize.NOW,
+      },
+      updated_at: {
+        type: Sequelize.DATE,
+        allowNull: false,
+        defaultValue: Sequelize.NOW,
+      },
+    });
+    await queryInterface.addIndex('deliveries', ['status', 'available_at'], {
+      name: 'deliveries_status_available_at',
+    });
+  },
+
+  async down(queryInterface) {
+    await queryInterface.dropTable('deliveries');
+  },
+};
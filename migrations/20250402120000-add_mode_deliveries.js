@@ -0,0 +1,16 @@
+'use strict';
+
+/** @type {import('sequelize-cli').Migration} */
+module.exports = {
+  async up(queryInterface, Sequelize) {
+    await queryInterface.addColumn('deliveries', 'mode', {
+      type: Sequelize.ENUM('GRPC', 'WEBHOOK'),
+      allowNull: false,
+      defaultValue: 'GRPC',
+    });
+  },
+
+  async down(queryInterface) {
+    await queryInterface.removeColumn('deliveries', 'mode');
+  },
+};
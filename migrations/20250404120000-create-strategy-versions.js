@@ -0,0 +1,46 @@
+'use strict';
+
+/** @type {import('sequelize-cli').Migration} */
+module.exports = {
+  async up(queryInterface, Sequelize) {
+    await queryInterface.createTable('strategy_versions', {
+      id: { type: Sequelize.INTEGER, autoIncrement: true, primaryKey: true },
+      strategies_id: {
+        type: Sequelize.INTEGER,
+        allowNull: false,
+        references: { model: 'strategies', key: 'id' },
+        onDelete: 'CASCADE',
+      },
+      version: { type: Sequelize.INTEGER, allowNull: false },
+      root_slot: { type: Sequelize.INTEGER, allowNull: false },
+      slots: { type: Sequelize.JSON, allowNull: false },
+      published_by: { type: Sequelize.STRING, allowNull: true },
+      created_at: {
+        type: Sequelize.DATE,
+        allowNull: false,
+        defaultValue: Sequelize.NOW,
+      },
+      updated_at: {
+        type: Sequelize.DATE,
+        allowNull: false,
+        defaultValue: Sequelize.NOW,
+      },
+    });
+    await queryInterface.addIndex(
+      'strategy_versions',
+      ['strategies_id', 'version'],
+      { name: 'strategy_versions_strategies_id_version', unique: true },
+    );
+    await queryInterface.addColumn('playlists', 'strategy_versions_id', {
+      type: Sequelize.INTEGER,
+      allowNull: true,
+      references: { model: 'strategy_versions', key: 'id' },
+      onDelete: 'SET NULL',
+    });
+  },
+
+  async down(queryInterface) {
+    await queryInterface.removeColumn('playlists', 'strategy_versions_id');
+    await queryInterface.dropTable('strategy_versions');
+  },
+};
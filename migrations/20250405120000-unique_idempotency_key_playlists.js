@@ -0,0 +1,21 @@
+'use strict';
+
+/** @type {import('sequelize-cli').Migration} */
+module.exports = {
+  async up(queryInterface) {
+    await queryInterface.removeIndex('playlists', ['idempotency_key']);
+    await queryInterface.addIndex(
+      'playlists',
+      ['strategies_id', 'idempotency_key'],
+      { name: 'playlists_strategies_id_idempotency_key', unique: true },
+    );
+  },
+
+  async down(queryInterface) {
+    await queryInterface.removeIndex(
+      'playlists',
+      'playlists_strategies_id_idempotency_key',
+    );
+    await queryInterface.addIndex('playlists', ['idempotency_key']);
+  },
+};
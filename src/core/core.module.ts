@@ -2,10 +2,11 @@ import { Module } from '@nestjs/common';
 import { NotificationsController } from './notifications/notifications.controller';
 import { NotificationsService } from './notifications/notifications.service';
 import { CloudWatchService } from './cloudwatch/cloudwatch.service';
+import { StorageService } from './storage/storage.service';
 
 @Module({
-  providers: [NotificationsService, CloudWatchService],
+  providers: [NotificationsService, CloudWatchService, StorageService],
   controllers: [NotificationsController],
-  exports: [NotificationsService],
+  exports: [NotificationsService, StorageService],
 })
 export class CoreModule {}
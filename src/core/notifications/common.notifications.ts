@@ -23,6 +23,40 @@ abstract class CommonNotifications implements INotificationsService {
   public refreshPlaylists() {
     this.broadcast({ action: 'REFRESH_PLAYLISTS' });
   }
+
+  /**
+   * Broadcasts a message about a playlist slot that went past its deadline.
+   *
+   * @param slug - The slug of the stalled playlist.
+   * @param slot - The name of the slot that timed out.
+   * @param resolution - How the watchdog resolved the stall.
+   */
+  public playlistStalled(slug: string, slot: string, resolution: string) {
+    this.broadcast({ action: 'PLAYLIST_STALLED', slug, slot, resolution });
+  }
+
+  /**
+   * Broadcasts the progress reported by a running playlist slot.
+   *
+   * @param slug - The slug of the playlist.
+   * @param slot - The name of the slot reporting progress.
+   * @param percent - How much of the work is done, from 0 to 100.
+   * @param message - A description of the current step.
+   */
+  public playlistProgress(
+    slug: string,
+    slot: string,
+    percent: number,
+    message: string,
+  ) {
+    this.broadcast({
+      action: 'PLAYLIST_PROGRESS',
+      slug,
+      slot,
+      percent,
+      message,
+    });
+  }
 }
 
 export { CommonNotifications };
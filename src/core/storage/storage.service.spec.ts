@@ -0,0 +1,60 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { promises as fs } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { StorageService } from './storage.service';
+
+describe('StorageService', () => {
+  let service: StorageService;
+  let basePath: string;
+
+  beforeEach(async () => {
+    basePath = await fs.mkdtemp(join(tmpdir(), 'blobs-'));
+    process.env.BLOB_STORAGE_PATH = basePath;
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [StorageService],
+    }).compile();
+
+    service = module.get<StorageService>(StorageService);
+  });
+
+  afterEach(async () => {
+    delete process.env.BLOB_STORAGE_PATH;
+    await fs.rm(basePath, { recursive: true, force: true });
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  it('should store, retrieve and delete blobs in the filesystem', async () => {
+    await service.put('outputs/playlist/1.json', '{"score":98}');
+
+    expect(
+      await fs.readFile(join(basePath, 'outputs/playlist/1.json'), 'utf-8'),
+    ).toBe('{"score":98}');
+    expect((await service.get('outputs/playlist/1.json')).toString()).toBe(
+      '{"score":98}',
+    );
+
+    await service.delete('outputs/playlist/1.json');
+
+    await expect(service.get('outputs/playlist/1.json')).rejects.toThrow();
+  });
+
+  it('should ignore deleting a blob that does not exist', async () => {
+    await expect(
+      service.delete('outputs/missing.json'),
+    ).resolves.toBeUndefined();
+  });
+
+  it('should refuse keys outside of the base path', async () => {
+    await expect(service.put('../escape.json', '{}')).rejects.toThrow(
+      'Invalid blob key ../escape.json.',
+    );
+    await expect(service.get('outputs/../../escape.json')).rejects.toThrow(
+      'Invalid blob key outputs/../../escape.json.',
+    );
+  });
+});
@@ -0,0 +1,144 @@
+import {
+  DeleteObjectCommand,
+  GetObjectCommand,
+  PutObjectCommand,
+  S3Client,
+} from '@aws-sdk/client-s3';
+import { Injectable } from '@nestjs/common';
+import { promises as fs } from 'fs';
+import { dirname, join, resolve } from 'path';
+import { Readable } from 'stream';
+import { Logger } from 'src/decorators/logger.decorator';
+import { JSONLogger } from 'src/utils/logger';
+import { streamToBuffer } from 'src/utils/s3';
+
+/**
+ * Service for storing blobs in S3-compatible storage or, for development, in the local filesystem.
+ *
+ * @remarks
+ * Blobs go to S3 when `BLOB_STORAGE` is `s3`, in the bucket set in `BLOB_BUCKET_NAME`
+ * (or `ASSETS_BUCKET_NAME`). `S3_ENDPOINT` points the client to any S3-compatible
+ * storage. Otherwise, blobs are written under `BLOB_STORAGE_PATH`, which defaults to `./blobs`.
+ */
+@Injectable()
+export class StorageService {
+  /**
+   * Logger instance for logging messages.
+   */
+  @Logger(StorageService.name)
+  private readonly logger!: JSONLogger;
+
+  /**
+   * Whether blobs are stored in S3 instead of the filesystem.
+   */
+  private readonly useS3 = process.env.BLOB_STORAGE === 's3';
+
+  /**
+   * S3 client for interacting with the blob storage.
+   */
+  private readonly s3Client = new S3Client({
+    region: process.env.AWS_REGION,
+    endpoint: process.env.S3_ENDPOINT,
+    forcePathStyle: !!process.env.S3_ENDPOINT,
+  });
+
+  /**
+   * Name of the S3 bucket where blobs will be stored.
+   */
+  private readonly bucketName =
+    process.env.BLOB_BUCKET_NAME || process.env.ASSETS_BUCKET_NAME;
+
+  /**
+   * Directory where blobs will be stored when using the filesystem.
+   */
+  private readonly basePath = resolve(
+    process.env.BLOB_STORAGE_PATH || './blobs',
+  );
+
+  /**
+   * Stores a blob.
+   *
+   * @param key - The key of the blob, with `/` separating its segments.
+   * @param body - The contents of the blob.
+   * @param contentType - The media type of the blob.
+   */
+  async put(
+    key: string,
+    body: string | Buffer,
+    contentType = 'application/octet-stream',
+  ): Promise<void> {
+    if (this.useS3) {
+      await this.s3Client.send(
+        new PutObjectCommand({
+          Bucket: this.bucketName,
+          Key: key,
+          Body: body,
+          ContentType: contentType,
+        }),
+      );
+    } else {
+      const path = this.getPath(key);
+      await fs.mkdir(dirname(path), { recursive: true });
+      await fs.writeFile(path, body);
+    }
+
+    this.logger.log(`Stored blob ${key}.`);
+  }
+
+  /**
+   * Retrieves a blob.
+   *
+   * @param key - The key of the blob.
+   * @returns {Promise<Buffer>} The contents of the blob.
+   * @throws {Error} If the blob does not exist.
+   */
+  async get(key: string): Promise<Buffer> {
+    if (!this.useS3) {
+      return fs.readFile(this.getPath(key));
+    }
+
+    const { Body } = await this.s3Client.send(
+      new GetObjectCommand({ Bucket: this.bucketName, Key: key }),
+    );
+
+    if (!Body) {
+      throw new Error(`Blob ${key} not found.`);
+    }
+
+    return streamToBuffer(Body as Readable);
+  }
+
+  /**
+   * Deletes a blob. Deleting a blob that does not exist is not an error.
+   *
+   * @param key - The key of the blob.
+   */
+  async delete(key: string): Promise<void> {
+    if (this.useS3) {
+      await this.s3Client.send(
+        new DeleteObjectCommand({ Bucket: this.bucketName, Key: key }),
+      );
+    } else {
+      await fs.rm(this.getPath(key), { force: true });
+    }
+
+    this.logger.log(`Deleted blob ${key}.`);
+  }
+
+  /**
+   * Resolves the path of a blob in the filesystem, keeping it inside the base path.
+   *
+   * @param key - The key of the blob.
+   * @returns The absolute path of the blob.
+   * @throws {Error} If the key points outside of the base path.
+   */
+  private getPath(key: string): string {
+    const path = resolve(join(this.basePath, key));
+
+    if (!path.startsWith(`${this.basePath}/`)) {
+      throw new Error(`Invalid blob key ${key}.`);
+    }
+
+    return path;
+  }
+}
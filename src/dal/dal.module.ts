@@ -1,19 +1,36 @@
 import { Module } from '@nestjs/common';
 import { MongooseModule } from '@nestjs/mongoose';
 import { SequelizeModule } from '@nestjs/sequelize';
+import { Approval } from 'src/models/approval.model';
+import { Delivery } from 'src/models/delivery.model';
+import { Dispatch } from 'src/models/dispatch.model';
 import {
   PlaylistContext,
   PlaylistContextSchema,
 } from 'src/models/playlist.context';
 import { Playlist } from 'src/models/playlist.model';
 import { Plugin } from 'src/models/plugin.model';
+import { RetentionPolicy } from 'src/models/retention-policy.model';
+import { Schedule } from 'src/models/schedule.model';
 import { Slot } from 'src/models/slot.model';
+import { StrategyVersion } from 'src/models/strategy-version.model';
 import { Strategy } from 'src/models/strategy.model';
 import { BackupService } from './backup/backup.service';
 
 @Module({
   imports: [
-    SequelizeModule.forFeature([Playlist, Plugin, Slot, Strategy]),
+    SequelizeModule.forFeature([
+      Approval,
+      Delivery,
+      Dispatch,
+      Playlist,
+      Plugin,
+      RetentionPolicy,
+      Schedule,
+      Slot,
+      Strategy,
+      StrategyVersion,
+    ]),
     MongooseModule.forFeature([
       { name: PlaylistContext.name, schema: PlaylistContextSchema },
     ]),
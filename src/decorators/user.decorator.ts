@@ -0,0 +1,20 @@
+import { createParamDecorator, ExecutionContext } from '@nestjs/common';
+
+/**
+ * A parameter decorator that extracts the JWT subject of the authenticated user.
+ *
+ * The payload is set on the request by `AuthorizationStrategy.validate`. Public routes
+ * without a token get `undefined`.
+ *
+ * @returns A decorator function that resolves to the subject of the user.
+ */
+const User = createParamDecorator(
+  (_data: unknown, context: ExecutionContext): string | undefined => {
+    const request = context
+      .switchToHttp()
+      .getRequest<{ user?: { sub?: string } }>();
+    return request.user?.sub;
+  },
+);
+
+export { User };
@@ -49,6 +49,18 @@ async function bootstrap(): Promise<void> {
       package: 'wiphala',
       protoPath: join(__dirname, './proto/wiphala.proto'),
       url: `0.0.0.0:${grpcPort}`,
+      /**
+       * Load the proto like `ClientFactory` does. Keeping the field case makes
+       * snake_case fields such as `idempotency_key` reach the handlers as named
+       * in the proto, instead of camelCased, and the defaults fill unset fields.
+       */
+      loader: {
+        keepCase: true,
+        longs: String,
+        enums: String,
+        defaults: true,
+        oneofs: true,
+      },
     },
   });
   await app.startAllMicroservices();
@@ -0,0 +1,80 @@
+import {
+  CreationOptional,
+  InferAttributes,
+  InferCreationAttributes,
+} from 'sequelize';
+import {
+  BelongsTo,
+  Column,
+  DataType,
+  ForeignKey,
+  Index,
+  Model,
+  Table,
+} from 'sequelize-typescript';
+import { Playlist } from './playlist.model';
+
+export enum ApprovalStatus {
+  PENDING = 'PENDING',
+  APPROVED = 'APPROVED',
+  REJECTED = 'REJECTED',
+  EXPIRED = 'EXPIRED',
+}
+
+@Table({ tableName: 'approvals', timestamps: true, underscored: true })
+export class Approval extends Model<
+  InferAttributes<Approval>,
+  InferCreationAttributes<Approval>
+> {
+  @Column({
+    type: DataType.INTEGER,
+    primaryKey: true,
+    autoIncrement: true,
+  })
+  id: CreationOptional<number>;
+
+  @ForeignKey(() => Playlist)
+  @Column({ allowNull: false })
+  playlists_id: number;
+
+  @BelongsTo(() => Playlist)
+  playlist?: Playlist;
+
+  @Column({ allowNull: false })
+  slot_id: number;
+
+  @Column({ allowNull: false, type: DataType.STRING(100) })
+  slot_name: string;
+
+  @Index
+  @Column({
+    type: DataType.ENUM(...Object.values(ApprovalStatus)),
+    allowNull: false,
+    defaultValue: ApprovalStatus.PENDING,
+  })
+  status: ApprovalStatus;
+
+  /**
+   * The JWT subject of the user who made the decision. Empty for expired approvals.
+   */
+  @Column({ type: DataType.STRING, allowNull: true })
+  decided_by?: string | null;
+
+  @Column({ type: DataType.TEXT, allowNull: true })
+  comment?: string | null;
+
+  @Column({ type: DataType.DATE, allowNull: true })
+  decided_at?: Date | null;
+
+  /**
+   * When the approval is rejected automatically. Empty if it never expires.
+   */
+  @Column({ type: DataType.DATE, allowNull: true })
+  expires_at?: Date | null;
+
+  @Column({ type: DataType.DATE })
+  created_at: CreationOptional<Date>;
+
+  @Column({ type: DataType.DATE })
+  updated_at: CreationOptional<Date>;
+}
@@ -0,0 +1,104 @@
+import {
+  CreationOptional,
+  InferAttributes,
+  InferCreationAttributes,
+} from 'sequelize';
+import {
+  BelongsTo,
+  Column,
+  DataType,
+  ForeignKey,
+  Index,
+  Model,
+  Table,
+} from 'sequelize-typescript';
+import { Playlist } from './playlist.model';
+
+export enum DeliveryStatus {
+  PENDING = 'PENDING',
+  LEASED = 'LEASED',
+  DELIVERED = 'DELIVERED',
+  DEAD = 'DEAD',
+}
+
+/**
+ * How a delivery reaches its origin: a `ClientService.Deliver` gRPC call, or a
+ * signed JSON POST to an HTTP endpoint.
+ */
+export enum DeliveryMode {
+  GRPC = 'GRPC',
+  WEBHOOK = 'WEBHOOK',
+}
+
+/**
+ * A delivery of a finished playlist to its origin. Deliveries that run out of
+ * attempts are kept as DEAD until they are re-driven.
+ */
+@Table({ tableName: 'deliveries', timestamps: true, underscored: true })
+export class Delivery extends Model<
+  InferAttributes<Delivery>,
+  InferCreationAttributes<Delivery>
+> {
+  @Column({
+    type: DataType.INTEGER,
+    primaryKey: true,
+    autoIncrement: true,
+  })
+  id: CreationOptional<number>;
+
+  @ForeignKey(() => Playlist)
+  @Column({ type: DataType.INTEGER, allowNull: false })
+  playlists_id: number;
+
+  @BelongsTo(() => Playlist)
+  playlist?: Playlist;
+
+  @Column({ type: DataType.STRING, allowNull: false })
+  origin: string;
+
+  @Column({
+    type: DataType.ENUM(...Object.values(DeliveryMode)),
+    allowNull: false,
+    defaultValue: DeliveryMode.GRPC,
+  })
+  mode: CreationOptional<DeliveryMode>;
+
+  @Index('deliveries_status_available_at')
+  @Column({
+    type: DataType.ENUM(...Object.values(DeliveryStatus)),
+    allowNull: false,
+    defaultValue: DeliveryStatus.PENDING,
+  })
+  status: CreationOptional<DeliveryStatus>;
+
+  /**
+   * When the delivery may be attempted. Retries are delayed by pushing it forward.
+   */
+  @Index('deliveries_status_available_at')
+  @Column({ type: DataType.DATE, allowNull: false })
+  available_at: Date;
+
+  /**
+   * The instance holding the lease, and when the lease runs out.
+   */
+  @Column({ type: DataType.STRING(64), allowNull: true })
+  lease_owner?: string | null;
+
+  @Column({ type: DataType.DATE, allowNull: true })
+  leased_until?: Date | null;
+
+  @Column({ type: DataType.INTEGER, allowNull: false, defaultValue: 0 })
+  attempts: CreationOptional<number>;
+
+  @Column({ type: DataType.TEXT, allowNull: true })
+  last_error?: string | null;
+
+  @Column({ type: DataType.DATE, allowNull: true })
+  delivered_at?: Date | null;
+
+  @Column({ type: DataType.DATE })
+  created_at: CreationOptional<Date>;
+
+  @Column({ type: DataType.DATE })
+  updated_at: CreationOptional<Date>;
+}
@@ -0,0 +1,79 @@
+import {
+  CreationOptional,
+  InferAttributes,
+  InferCreationAttributes,
+} from 'sequelize';
+import {
+  BelongsTo,
+  Column,
+  DataType,
+  ForeignKey,
+  Index,
+  Model,
+  Table,
+} from 'sequelize-typescript';
+import { Playlist } from './playlist.model';
+
+export enum DispatchStatus {
+  PENDING = 'PENDING',
+  LEASED = 'LEASED',
+}
+
+/**
+ * A slot waiting to be dispatched. Dispatches are removed once they have been processed.
+ */
+@Table({ tableName: 'dispatches', timestamps: true, underscored: true })
+export class Dispatch extends Model<
+  InferAttributes<Dispatch>,
+  InferCreationAttributes<Dispatch>
+> {
+  @Column({
+    type: DataType.INTEGER,
+    primaryKey: true,
+    autoIncrement: true,
+  })
+  id: CreationOptional<number>;
+
+  @ForeignKey(() => Playlist)
+  @Column({ type: DataType.INTEGER, allowNull: false })
+  playlists_id: number;
+
+  @BelongsTo(() => Playlist)
+  playlist?: Playlist;
+
+  @Column({ type: DataType.INTEGER, allowNull: false })
+  slot_id: number;
+
+  @Index('dispatches_status_available_at')
+  @Column({
+    type: DataType.ENUM(...Object.values(DispatchStatus)),
+    allowNull: false,
+    defaultValue: DispatchStatus.PENDING,
+  })
+  status: CreationOptional<DispatchStatus>;
+
+  /**
+   * When the dispatch may be picked up. Retries are delayed by pushing it forward.
+   */
+  @Index('dispatches_status_available_at')
+  @Column({ type: DataType.DATE, allowNull: false })
+  available_at: Date;
+
+  /**
+   * The dispatcher instance holding the lease, and when the lease runs out.
+   */
+  @Column({ type: DataType.STRING(64), allowNull: true })
+  lease_owner?: string | null;
+
+  @Column({ type: DataType.DATE, allowNull: true })
+  leased_until?: Date | null;
+
+  @Column({ type: DataType.INTEGER, allowNull: false, defaultValue: 0 })
+  attempts: CreationOptional<number>;
+
+  @Column({ type: DataType.DATE })
+  created_at: CreationOptional<Date>;
+
+  @Column({ type: DataType.DATE })
+  updated_at: CreationOptional<Date>;
+}
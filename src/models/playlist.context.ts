@@ -1,5 +1,6 @@
 import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
 import { Document } from 'mongoose';
+import { DeliveryMode } from './delivery.model';
 import { Slot } from './slot.model';
 
 export type PlaylistContextDocument = PlaylistContext & Document;
@@ -15,8 +16,29 @@ export class PlaylistContext {
   @Prop({ required: false, type: Object })
   sequence: Slot[];
 
-  @Prop({ required: true, type: String })
+  /**
+   * Where to deliver the playlist once complete. Empty for child playlists.
+   */
+  @Prop({ required: false, type: String })
   origin: string;
+
+  /**
+   * How to deliver the playlist to its origin. Defaults to gRPC.
+   */
+  @Prop({ required: false, type: String, enum: Object.values(DeliveryMode) })
+  delivery_mode?: DeliveryMode;
+
+  /**
+   * The canned outputs of a simulation, keyed by slot name.
+   */
+  @Prop({ required: false, type: Object })
+  simulated_outputs?: Record<string, any>;
+
+  /**
+   * The slots of a simulation in the order they ran, including the retried ones.
+   */
+  @Prop({ required: false, type: [Object] })
+  path?: { slot: string; at: Date }[];
 }
 
 export const PlaylistContextSchema =
@@ -8,18 +8,24 @@ import {
   Column,
   DataType,
   ForeignKey,
+  HasMany,
   Index,
   Model,
   Table,
 } from 'sequelize-typescript';
 import { Slot } from './slot.model';
+import { StrategyVersion } from './strategy-version.model';
 import { Strategy } from './strategy.model';
 
 export enum PlaylistStatus {
+  QUEUED = 'QUEUED',
   CREATED = 'CREATED',
   RUNNING = 'RUNNING',
   FAILED = 'FAILED',
   COMPLETE = 'COMPLETE',
+  CANCELLED = 'CANCELLED',
+  PAUSED = 'PAUSED',
+  AWAITING_APPROVAL = 'AWAITING_APPROVAL',
 }
 
 export type Context = {
@@ -40,6 +46,7 @@ export class Playlist extends Model<
   })
   id: CreationOptional<number>;
 
+  @Index({ name: 'playlists_strategies_id_idempotency_key', unique: true })
   @ForeignKey(() => Strategy)
   @Column({ type: DataType.INTEGER, allowNull: false })
   strategies_id: number;
@@ -53,17 +60,60 @@ export class Playlist extends Model<
   })
   status: PlaylistStatus;
 
-  @ForeignKey(() => Slot)
+  /**
+   * The version of the strategy this playlist runs.
+   */
+  @ForeignKey(() => StrategyVersion)
   @Column({ type: DataType.INTEGER, allowNull: true })
-  current_slot_id?: number;
+  strategy_versions_id?: number | null;
 
-  @BelongsTo(() => Slot)
-  current_slot?: Slot;
+  @BelongsTo(() => StrategyVersion)
+  version?: StrategyVersion;
+
+  /**
+   * The ID of the last slot dispatched, as found in the strategy version. When
+   * branches run in parallel, the status of each slot is kept in the context.
+   */
+  @Column({ type: DataType.INTEGER, allowNull: true })
+  current_slot_id?: number | null;
 
   @Index({ unique: true })
   @Column({ type: DataType.STRING(255), allowNull: false, unique: true })
   slug: string;
 
+  /**
+   * The playlist that spawned this one from one of its STRATEGY slots.
+   */
+  @ForeignKey(() => Playlist)
+  @Column({ type: DataType.INTEGER, allowNull: true })
+  parent_playlist_id?: number | null;
+
+  @BelongsTo(() => Playlist, 'parent_playlist_id')
+  parent?: Playlist;
+
+  /**
+   * The name of the parent slot this playlist reports its outputs to.
+   */
+  @Column({ type: DataType.STRING, allowNull: true })
+  parent_slot?: string | null;
+
+  @HasMany(() => Playlist, 'parent_playlist_id')
+  children?: Playlist[];
+
+  /**
+   * The key the caller sent with the trigger, used to avoid duplicate playlists on retries.
+   * It is unique per strategy, and cleared once it falls out of the idempotency window.
+   */
+  @Index({ name: 'playlists_strategies_id_idempotency_key', unique: true })
+  @Column({ type: DataType.STRING(255), allowNull: true })
+  idempotency_key?: string | null;
+
+  /**
+   * Whether this is a dry run, in which plugins are stubbed with canned outputs.
+   */
+  @Column({ type: DataType.BOOLEAN, allowNull: false, defaultValue: false })
+  simulation: CreationOptional<boolean>;
+
   @Column({ type: DataType.DATE })
   created_at: CreationOptional<Date>;
 
@@ -21,6 +21,29 @@ export class Plugin extends Model<Plugin> {
   @Column({ allowNull: false })
   grpc_port: number;
 
+  /**
+   * How long a slot running this plugin may take before the watchdog steps in,
+   * unless the slot overrides it.
+   */
+  @Column({ allowNull: false, defaultValue: 600 })
+  timeout_seconds: number;
+
+  /**
+   * How many playlists using this plugin may run at once. Empty for no limit.
+   */
+  @Column({ type: DataType.INTEGER, allowNull: true })
+  max_concurrency?: number | null;
+
+  /**
+   * The JSON Schemas of the input the plugin expects and the output it produces.
+   * Empty to accept anything.
+   */
+  @Column({ type: DataType.JSON, allowNull: true })
+  input_schema?: object | null;
+
+  @Column({ type: DataType.JSON, allowNull: true })
+  output_schema?: object | null;
+
   @Index({ unique: true })
   @Column({ allowNull: false, unique: true })
   plugin_key: string;
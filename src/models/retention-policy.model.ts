@@ -0,0 +1,57 @@
+import {
+  CreationOptional,
+  InferAttributes,
+  InferCreationAttributes,
+} from 'sequelize';
+import {
+  BelongsTo,
+  Column,
+  DataType,
+  ForeignKey,
+  Model,
+  Table,
+} from 'sequelize-typescript';
+import { PlaylistStatus } from './playlist.model';
+import { Strategy } from './strategy.model';
+
+/**
+ * How long finished playlists are kept before they are archived.
+ *
+ * A policy without a strategy applies to every strategy, and one without a status
+ * applies to every finished status. When several policies match a playlist, the
+ * most specific one wins.
+ */
+@Table({ tableName: 'retention_policies', timestamps: true, underscored: true })
+export class RetentionPolicy extends Model<
+  InferAttributes<RetentionPolicy>,
+  InferCreationAttributes<RetentionPolicy>
+> {
+  @Column({
+    type: DataType.INTEGER,
+    primaryKey: true,
+    autoIncrement: true,
+  })
+  id: CreationOptional<number>;
+
+  @ForeignKey(() => Strategy)
+  @Column({ type: DataType.INTEGER, allowNull: true })
+  strategies_id?: number | null;
+
+  @BelongsTo(() => Strategy)
+  strategy?: Strategy;
+
+  @Column({
+    type: DataType.ENUM(...Object.values(PlaylistStatus)),
+    allowNull: true,
+  })
+  status?: PlaylistStatus | null;
+
+  @Column({ type: DataType.INTEGER, allowNull: false })
+  retention_days: number;
+
+  @Column({ type: DataType.DATE })
+  created_at: CreationOptional<Date>;
+
+  @Column({ type: DataType.DATE })
+  updated_at: CreationOptional<Date>;
+}
@@ -0,0 +1,61 @@
+import {
+  CreationOptional,
+  InferAttributes,
+  InferCreationAttributes,
+} from 'sequelize';
+import {
+  BelongsTo,
+  Column,
+  DataType,
+  ForeignKey,
+  Model,
+  Table,
+} from 'sequelize-typescript';
+import { Strategy } from './strategy.model';
+
+@Table({ tableName: 'schedules', timestamps: true, underscored: true })
+export class Schedule extends Model<
+  InferAttributes<Schedule>,
+  InferCreationAttributes<Schedule>
+> {
+  @Column({
+    type: DataType.INTEGER,
+    primaryKey: true,
+    autoIncrement: true,
+  })
+  id: CreationOptional<number>;
+
+  @ForeignKey(() => Strategy)
+  @Column({ type: DataType.INTEGER, allowNull: false })
+  strategies_id: number;
+
+  @BelongsTo(() => Strategy)
+  strategy?: Strategy;
+
+  @Column({ type: DataType.STRING(100), allowNull: false })
+  cron_expression: string;
+
+  @Column({ type: DataType.STRING(64), allowNull: false, defaultValue: 'UTC' })
+  timezone: CreationOptional<string>;
+
+  /**
+   * The metadata every playlist triggered by this schedule starts with.
+   */
+  @Column({ type: DataType.JSON, allowNull: false, defaultValue: {} })
+  metadata: CreationOptional<Record<string, any>>;
+
+  @Column({ type: DataType.BOOLEAN, allowNull: false, defaultValue: true })
+  enabled: CreationOptional<boolean>;
+
+  @Column({ type: DataType.DATE, allowNull: true })
+  last_run_at?: Date | null;
+
+  @Column({ type: DataType.DATE, allowNull: true })
+  next_run_at?: Date | null;
+
+  @Column({ type: DataType.DATE })
+  created_at: CreationOptional<Date>;
+
+  @Column({ type: DataType.DATE })
+  updated_at: CreationOptional<Date>;
+}
@@ -9,6 +9,86 @@ import {
 import { Plugin } from './plugin.model';
 import { Strategy } from './strategy.model';
 
+export enum ConditionOperator {
+  EQ = 'eq',
+  NEQ = 'neq',
+  GT = 'gt',
+  GTE = 'gte',
+  LT = 'lt',
+  LTE = 'lte',
+  IN = 'in',
+  NIN = 'nin',
+  CONTAINS = 'contains',
+  EXISTS = 'exists',
+}
+
+export enum SlotType {
+  PLUGIN = 'PLUGIN',
+  STRATEGY = 'STRATEGY',
+  APPROVAL = 'APPROVAL',
+}
+
+export enum SlotStatus {
+  PENDING = 'PENDING',
+  QUEUED = 'QUEUED',
+  RUNNING = 'RUNNING',
+  HELD = 'HELD',
+  COMPLETE = 'COMPLETE',
+  FAILED = 'FAILED',
+}
+
+/**
+ * A rule that routes the playlist to a given slot when it holds.
+ *
+ * The `path` is resolved against an object holding the slot `output` and the
+ * playlist `metadata` (e.g. `output.score` or `metadata.threshold`).
+ */
+export type SlotCondition = {
+  path: string;
+  operator: ConditionOperator;
+  value?: any;
+  next_slot_id: number | null;
+};
+
+/**
+ * A single invocation of the plugin bound to a slot.
+ */
+export type SlotAttempt = {
+  attempt: number;
+  started_at: Date;
+  finished_at?: Date;
+  success: boolean;
+  error?: string;
+};
+
+/**
+ * The last progress a plugin reported for a slot.
+ */
+export type SlotProgress = {
+  percent: number;
+  message: string;
+  at: Date;
+};
+
+/**
+ * Where the output of a slot was offloaded to in blob storage, when it was too large
+ * to be kept in the context.
+ */
+export type SlotOutputBlob = {
+  key: string;
+  size: number;
+};
+
+/**
+ * The error that made a slot fail.
+ */
+export type SlotError = {
+  code: string;
+  message: string;
+  retryable: boolean;
+  at: Date;
+};
+
 @Table({ tableName: 'slots', timestamps: true, underscored: true })
 export class Slot extends Model<Slot> {
   @Column({ primaryKey: true, autoIncrement: true })
@@ -21,9 +101,23 @@ export class Slot extends Model<Slot> {
   @BelongsTo(() => Strategy)
   strategy: Strategy;
 
+  /**
+   * PLUGIN slots invoke their plugin. STRATEGY slots run the strategy set in
+   * `metadata.strategy` as a child playlist, at the version in `metadata.version`
+   * (or the latest one), passing the metadata keys listed in `metadata.context`
+   * (or the whole metadata if not set). APPROVAL slots
+   * wait for a user decision, which expires after `metadata.expires_in_seconds` if set.
+   */
+  @Column({
+    type: DataType.ENUM(...Object.values(SlotType)),
+    allowNull: false,
+    defaultValue: SlotType.PLUGIN,
+  })
+  type: SlotType;
+
   @ForeignKey(() => Plugin)
-  @Column({ allowNull: false })
-  plugins_id: number;
+  @Column({ type: DataType.INTEGER, allowNull: true })
+  plugins_id?: number | null;
 
   @BelongsTo(() => Plugin)
   plugin: Plugin;
@@ -31,25 +125,99 @@ export class Slot extends Model<Slot> {
   @Column({ type: DataType.STRING })
   name: string;
 
+  /**
+   * Settings of the slot. PLUGIN slots may map their plugin input in `metadata.input`,
+   * using `$.metadata.<path>` and `$.slots.<name>.output.<path>` references.
+   */
   @Column({ type: DataType.JSON })
-  metadata: object;
+  metadata: Record<string, any>;
 
   @Column({ type: DataType.JSON })
-  conditions: object;
+  conditions: SlotCondition[];
 
   @Column({ type: DataType.INTEGER, allowNull: true })
-  default_next_slot_id?: number;
+  default_next_slot_id?: number | null;
+
+  /**
+   * The slots to run concurrently once this slot completes. When set, it takes
+   * precedence over the conditions and the default next slot.
+   */
+  @Column({ type: DataType.JSON, allowNull: true })
+  fan_out_slot_ids?: number[] | null;
 
+  /**
+   * The number of incoming branches that must reach this slot before it runs.
+   */
   @Column({ defaultValue: 0 })
   min_outputs: number;
 
   @Column({ defaultValue: 0 })
   max_retries: number;
 
+  /**
+   * Overrides the timeout of the plugin for this slot.
+   */
+  @Column({ type: DataType.INTEGER, allowNull: true })
+  timeout_seconds?: number | null;
+
+  /**
+   * The slot to route the playlist to when this slot fails for good.
+   */
+  @Column({ type: DataType.INTEGER, allowNull: true })
+  error_slot_id?: number | null;
+
   /**
    * This is for playlist-only usage. It won't be stored in the slots table
    * but it will be stored in every playlist context.
    */
   @Column({ type: DataType.VIRTUAL })
   output: any;
+
+  /**
+   * The blob holding the output, when it was offloaded. The output itself is then
+   * null. Kept apart from the output, so plugins can't point it elsewhere. Playlist-only.
+   */
+  @Column({ type: DataType.VIRTUAL })
+  output_blob?: SlotOutputBlob | null;
+
+  /**
+   * The invocations performed for this slot. Like the output, this is only
+   * stored in the playlist context.
+   */
+  @Column({ type: DataType.VIRTUAL })
+  attempts?: SlotAttempt[];
+
+  /**
+   * The moment by which the plugin is expected to segue. Playlist-only.
+   */
+  @Column({ type: DataType.VIRTUAL })
+  deadline?: Date | null;
+
+  /**
+   * The last progress reported through a heartbeat. Playlist-only.
+   */
+  @Column({ type: DataType.VIRTUAL })
+  progress?: SlotProgress;
+
+  /**
+   * The last error reported for this slot. Playlist-only.
+   */
+  @Column({ type: DataType.VIRTUAL })
+  error?: SlotError;
+
+  /**
+   * The execution status of this slot. Playlist-only.
+   *
+   * Slots waiting in the dispatch queue are QUEUED until the dispatcher runs them.
+   * While the playlist is paused, slots about to be dispatched are left PENDING
+   * and slots that report their output are HELD until the playlist resumes.
+   */
+  @Column({ type: DataType.VIRTUAL })
+  status?: SlotStatus | null;
+
+  /**
+   * The names of the slots whose branches reached this join slot. Playlist-only.
+   */
+  @Column({ type: DataType.VIRTUAL })
+  arrivals?: string[];
 }
@@ -0,0 +1,71 @@
+import {
+  CreationOptional,
+  InferAttributes,
+  InferCreationAttributes,
+} from 'sequelize';
+import {
+  BelongsTo,
+  Column,
+  DataType,
+  ForeignKey,
+  Index,
+  Model,
+  Table,
+} from 'sequelize-typescript';
+import { Slot } from './slot.model';
+import { Strategy } from './strategy.model';
+
+/**
+ * An immutable snapshot of the slot graph of a strategy.
+ *
+ * Playlists run the version they were started with, so editing the slots of a
+ * strategy only affects the playlists started after the next version is published.
+ */
+@Table({ tableName: 'strategy_versions', timestamps: true, underscored: true })
+export class StrategyVersion extends Model<
+  InferAttributes<StrategyVersion>,
+  InferCreationAttributes<StrategyVersion>
+> {
+  @Column({
+    type: DataType.INTEGER,
+    primaryKey: true,
+    autoIncrement: true,
+  })
+  id: CreationOptional<number>;
+
+  @Index({ name: 'strategy_versions_strategies_id_version', unique: true })
+  @ForeignKey(() => Strategy)
+  @Column({ type: DataType.INTEGER, allowNull: false })
+  strategies_id: number;
+
+  @BelongsTo(() => Strategy)
+  strategy?: Strategy;
+
+  /**
+   * The number of the version, starting at 1 for each strategy.
+   */
+  @Index({ name: 'strategy_versions_strategies_id_version', unique: true })
+  @Column({ type: DataType.INTEGER, allowNull: false })
+  version: number;
+
+  @Column({ type: DataType.INTEGER, allowNull: false })
+  root_slot: number;
+
+  /**
+   * The slots as they were when the version was published, without their plugins.
+   */
+  @Column({ type: DataType.JSON, allowNull: false })
+  slots: Slot[];
+
+  /**
+   * The JWT subject of the user who published the version, if any.
+   */
+  @Column({ type: DataType.STRING, allowNull: true })
+  published_by?: string | null;
+
+  @Column({ type: DataType.DATE })
+  created_at: CreationOptional<Date>;
+
+  @Column({ type: DataType.DATE })
+  updated_at: CreationOptional<Date>;
+}
@@ -8,6 +8,7 @@ import {
 } from 'sequelize-typescript';
 import { Playlist } from './playlist.model';
 import { Slot } from './slot.model';
+import { StrategyVersion } from './strategy-version.model';
 
 @Table({
   tableName: 'strategies',
@@ -38,6 +39,15 @@ export class Strategy extends Model<Strategy> {
   @Column({ type: DataType.INTEGER, allowNull: false })
   root_slot: number;
 
+  /**
+   * How many playlists of this strategy may run at once. Empty for no limit.
+   */
+  @Column({ type: DataType.INTEGER, allowNull: true })
+  max_concurrency?: number | null;
+
   @HasMany(() => Playlist)
   playlists!: Playlist[];
+
+  @HasMany(() => StrategyVersion)
+  versions!: StrategyVersion[];
 }
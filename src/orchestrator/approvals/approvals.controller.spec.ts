@@ -0,0 +1,36 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ApprovalsController } from './approvals.controller';
+import { ApprovalsService } from './approvals.service';
+
+describe('ApprovalsController', () => {
+  let controller: ApprovalsController;
+
+  const approvalsService = {
+    getPendingApprovals: jest.fn(),
+    approve: jest.fn(),
+    reject: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [ApprovalsController],
+      providers: [{ provide: ApprovalsService, useValue: approvalsService }],
+    }).compile();
+
+    controller = module.get<ApprovalsController>(ApprovalsController);
+  });
+
+  it('should be defined', () => {
+    expect(controller).toBeDefined();
+  });
+
+  it('should decide approvals as the authenticated user', async () => {
+    await controller.approve(5, 'alice', 'ok');
+    await controller.reject(6, 'bob');
+
+    expect(approvalsService.approve).toHaveBeenCalledWith(5, 'alice', 'ok');
+    expect(approvalsService.reject).toHaveBeenCalledWith(6, 'bob', undefined);
+  });
+});
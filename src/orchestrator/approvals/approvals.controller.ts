@@ -0,0 +1,71 @@
+import {
+  Body,
+  Controller,
+  Get,
+  Param,
+  ParseIntPipe,
+  Post,
+} from '@nestjs/common';
+import { Logger } from 'src/decorators/logger.decorator';
+import { User } from 'src/decorators/user.decorator';
+import { Approval } from 'src/models/approval.model';
+import { JSONLogger } from 'src/utils/logger';
+import { ApprovalsService } from './approvals.service';
+
+/**
+ * Controller for handling the decisions on APPROVAL slots.
+ */
+@Controller('approvals')
+export class ApprovalsController {
+  constructor(private readonly approvalsService: ApprovalsService) {}
+
+  /**
+   * Logger instance for logging messages.
+   */
+  @Logger(ApprovalsController.name)
+  private readonly logger!: JSONLogger;
+
+  /**
+   * Retrieves the pending approvals.
+   *
+   * @returns {Promise<{ rows: Approval[]; count: number }>} The pending approvals and their count.
+   */
+  @Get()
+  getPendingApprovals(): Promise<{ rows: Approval[]; count: number }> {
+    return this.approvalsService.getPendingApprovals();
+  }
+
+  /**
+   * Approves a pending approval on behalf of the authenticated user.
+   *
+   * @param {number} id - The ID of the approval.
+   * @param {string} user - The JWT subject of the authenticated user.
+   * @param {string} comment - An optional comment on the decision.
+   * @returns {Promise<Approval>} The decided approval.
+   */
+  @Post(':id/approve')
+  approve(
+    @Param('id', ParseIntPipe) id: number,
+    @User() user: string,
+    @Body('comment') comment?: string,
+  ): Promise<Approval> {
+    return this.approvalsService.approve(id, user, comment);
+  }
+
+  /**
+   * Rejects a pending approval on behalf of the authenticated user.
+   *
+   * @param {number} id - The ID of the approval.
+   * @param {string} user - The JWT subject of the authenticated user.
+   * @param {string} comment - An optional comment on the decision.
+   * @returns {Promise<Approval>} The decided approval.
+   */
+  @Post(':id/reject')
+  reject(
+    @Param('id', ParseIntPipe) id: number,
+    @User() user: string,
+    @Body('comment') comment?: string,
+  ): Promise<Approval> {
+    return this.approvalsService.reject(id, user, comment);
+  }
+}
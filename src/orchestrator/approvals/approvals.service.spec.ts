@@ -0,0 +1,154 @@
+import { getModelToken } from '@nestjs/sequelize';
+import { Test, TestingModule } from '@nestjs/testing';
+import { Approval, ApprovalStatus } from 'src/models/approval.model';
+import { Playlist, PlaylistStatus } from 'src/models/playlist.model';
+import { PlaylistsService } from '../playlists/playlists.service';
+import { ApprovalsService } from './approvals.service';
+
+describe('ApprovalsService', () => {
+  let service: ApprovalsService;
+
+  const playlistsService = {
+    segue: jest.fn(),
+    getContext: jest.fn(),
+    fail: jest.fn(),
+  };
+  const approvalModel = {
+    findByPk: jest.fn(),
+    findAll: jest.fn(),
+    update: jest.fn(),
+    count: jest.fn(),
+  };
+  const playlistModel = { update: jest.fn() };
+
+  const approval = (status = PlaylistStatus.AWAITING_APPROVAL) => ({
+    id: 5,
+    slot_id: 2,
+    slot_name: 'review',
+    decided_by: 'alice',
+    comment: 'ok',
+    reload: jest.fn(),
+    playlist: { id: 1, slug: 'playlist', status, reload: jest.fn() },
+  });
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ApprovalsService,
+        { provide: PlaylistsService, useValue: playlistsService },
+        { provide: getModelToken(Approval), useValue: approvalModel },
+        { provide: getModelToken(Playlist), useValue: playlistModel },
+      ],
+    }).compile();
+
+    service = module.get<ApprovalsService>(ApprovalsService);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  it('should segue the slot with the decision once approved', async () => {
+    const pending = approval();
+    approvalModel.findByPk.mockResolvedValue(pending);
+    approvalModel.update.mockResolvedValue([1]);
+    approvalModel.count.mockResolvedValue(0);
+
+    await service.approve(5, 'alice', 'ok');
+
+    expect(approvalModel.update).toHaveBeenCalledWith(
+      expect.objectContaining({
+        status: ApprovalStatus.APPROVED,
+        decided_by: 'alice',
+        comment: 'ok',
+      }),
+      { where: { id: 5, status: ApprovalStatus.PENDING } },
+    );
+    expect(playlistModel.update).toHaveBeenCalledWith(
+      { status: PlaylistStatus.RUNNING },
+      { where: { id: 1, status: PlaylistStatus.AWAITING_APPROVAL } },
+    );
+    expect(playlistsService.segue).toHaveBeenCalledWith({
+      slug: 'playlist',
+      operation: 'review',
+      output: JSON.stringify({
+        approved: true,
+        decided_by: 'alice',
+        comment: 'ok',
+      }),
+    });
+  });
+
+  it('should keep awaiting while other approvals are pending', async () => {
+    approvalModel.findByPk.mockResolvedValue(approval());
+    approvalModel.update.mockResolvedValue([1]);
+    approvalModel.count.mockResolvedValue(1);
+
+    await service.approve(5, 'alice');
+
+    expect(playlistModel.update).not.toHaveBeenCalled();
+  });
+
+  it('should fail the slot without retries once rejected', async () => {
+    const context = { id: 1, sequence: [] };
+    const pending = approval();
+    approvalModel.findByPk.mockResolvedValue(pending);
+    approvalModel.update.mockResolvedValue([1]);
+    approvalModel.count.mockResolvedValue(0);
+    playlistsService.getContext.mockResolvedValue(context);
+
+    await service.reject(5, 'bob');
+
+    expect(playlistsService.fail).toHaveBeenCalledWith(
+      pending.playlist,
+      context,
+      2,
+      {
+        code: 'REJECTED',
+        message: 'Approval 5 was rejected by bob.',
+        retryable: false,
+      },
+    );
+    expect(playlistsService.segue).not.toHaveBeenCalled();
+  });
+
+  it('should decide an approval only once', async () => {
+    approvalModel.findByPk.mockResolvedValue(approval());
+    approvalModel.update.mockResolvedValue([0]);
+
+    await expect(service.approve(5, 'alice')).rejects.toThrow(
+      'Approval 5 has already been decided.',
+    );
+    expect(playlistsService.segue).not.toHaveBeenCalled();
+  });
+
+  it('should refuse approvals of playlists no longer awaiting them', async () => {
+    approvalModel.findByPk.mockResolvedValue(
+      approval(PlaylistStatus.CANCELLED),
+    );
+
+    await expect(service.approve(5, 'alice')).rejects.toThrow(
+      'Playlist with slug playlist is not awaiting approval.',
+    );
+    expect(approvalModel.update).not.toHaveBeenCalled();
+  });
+
+  it('should expire the approvals past their expiry', async () => {
+    approvalModel.findAll.mockResolvedValue([{ id: 5 }]);
+    approvalModel.findByPk.mockResolvedValue(approval());
+    approvalModel.update.mockResolvedValue([1]);
+    approvalModel.count.mockResolvedValue(0);
+    playlistsService.getContext.mockResolvedValue({ id: 1, sequence: [] });
+
+    await service.expire();
+
+    expect(playlistsService.fail).toHaveBeenCalledWith(
+      expect.anything(),
+      expect.anything(),
+      2,
+      expect.objectContaining({ code: 'EXPIRED', retryable: false }),
+    );
+  });
+});
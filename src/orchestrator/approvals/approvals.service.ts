@@ -0,0 +1,210 @@
+import { Injectable } from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { InjectModel } from '@nestjs/sequelize';
+import { Op } from 'sequelize';
+import { Logger } from 'src/decorators/logger.decorator';
+import { Approval, ApprovalStatus } from 'src/models/approval.model';
+import { Playlist, PlaylistStatus } from 'src/models/playlist.model';
+import { JSONLogger } from 'src/utils/logger';
+import { PlaylistsService } from '../playlists/playlists.service';
+
+/**
+ * Service responsible for the decisions on APPROVAL slots.
+ */
+@Injectable()
+export class ApprovalsService {
+  /**
+   * Logger instance for logging messages.
+   */
+  @Logger(ApprovalsService.name)
+  private readonly logger!: JSONLogger;
+
+  /**
+   * Whether the expired approvals are already being processed.
+   */
+  private expiring = false;
+
+  constructor(
+    private readonly playlistsService: PlaylistsService,
+    @InjectModel(Approval) private readonly approval: typeof Approval,
+    @InjectModel(Playlist) private readonly playlist: typeof Playlist,
+  ) {}
+
+  /**
+   * Retrieves the pending approvals of the playlists awaiting them.
+   *
+   * @returns {Promise<{ rows: Approval[]; count: number }>} The pending approvals, oldest first.
+   */
+  async getPendingApprovals(): Promise<{ rows: Approval[]; count: number }> {
+    return this.approval.findAndCountAll({
+      where: { status: ApprovalStatus.PENDING },
+      include: [
+        {
+          model: Playlist,
+          attributes: ['id', 'slug', 'status'],
+          where: { status: PlaylistStatus.AWAITING_APPROVAL },
+        },
+      ],
+      order: [['created_at', 'ASC']],
+    });
+  }
+
+  /**
+   * Approves a pending approval. The APPROVAL slot segues with the decision as its output.
+   *
+   * @param id - The ID of the approval.
+   * @param user - The JWT subject of the user approving.
+   * @param comment - An optional comment on the decision.
+   * @returns {Promise<Approval>} The decided approval.
+   */
+  approve(id: number, user?: string, comment?: string): Promise<Approval> {
+    return this.decide(id, ApprovalStatus.APPROVED, user, comment);
+  }
+
+  /**
+   * Rejects a pending approval. The APPROVAL slot fails without retries, so the playlist
+   * is routed to the slot's error slot or crashed.
+   *
+   * @param id - The ID of the approval.
+   * @param user - The JWT subject of the user rejecting.
+   * @param comment - An optional comment on the decision.
+   * @returns {Promise<Approval>} The decided approval.
+   */
+  reject(id: number, user?: string, comment?: string): Promise<Approval> {
+    return this.decide(id, ApprovalStatus.REJECTED, user, comment);
+  }
+
+  /**
+   * Rejects the pending approvals that went past their expiry.
+   */
+  @Cron(CronExpression.EVERY_MINUTE)
+  async expire(): Promise<void> {
+    if (this.expiring) {
+      return;
+    }
+
+    this.expiring = true;
+
+    try {
+      const expired = await this.approval.findAll({
+        where: {
+          status: ApprovalStatus.PENDING,
+          expires_at: { [Op.lt]: new Date() },
+        },
+      });
+
+      for (const { id } of expired) {
+        try {
+          await this.decide(id, ApprovalStatus.EXPIRED);
+        } catch (error) {
+          this.logger.error(`Approval ${id} could not be expired:`, error);
+        }
+      }
+    } catch (error) {
+      this.logger.error('Approval expiry failed:', error);
+    } finally {
+      this.expiring = false;
+    }
+  }
+
+  /**
+   * Records the decision on a pending approval and resumes its playlist.
+   *
+   * @param id - The ID of the approval.
+   * @param status - The decision.
+   * @param user - The JWT subject of the user deciding. Empty for expired approvals.
+   * @param comment - An optional comment on the decision.
+   * @returns {Promise<Approval>} The decided approval.
+   * @throws {Error} If the approval does not exist, was already decided or its playlist is no longer awaiting it.
+   */
+  private async decide(
+    id: number,
+    status: ApprovalStatus,
+    user?: string,
+    comment?: string,
+  ): Promise<Approval> {
+    const approval = await this.approval.findByPk(id, { include: [Playlist] });
+
+    if (!approval || !approval.playlist) {
+      throw new Error(`Approval ${id} not found.`);
+    }
+
+    const { playlist } = approval;
+
+    if (playlist.status !== PlaylistStatus.AWAITING_APPROVAL) {
+      throw new Error(
+        `Playlist with slug ${playlist.slug} is not awaiting approval.`,
+      );
+    }
+
+    /**
+     * Claim the approval, so it is only decided once.
+     */
+    const [affected] = await this.approval.update(
+      {
+        status,
+        decided_by: user ?? null,
+        comment: comment ?? null,
+        decided_at: new Date(),
+      },
+      { where: { id, status: ApprovalStatus.PENDING } },
+    );
+
+    if (!affected) {
+      throw new Error(`Approval ${id} has already been decided.`);
+    }
+
+    await approval.reload();
+
+    this.logger.log(
+      `Approval ${id} of playlist ${playlist.slug} was ${status.toLowerCase()}${user ? ` by ${user}` : ''}.`,
+    );
+
+    /**
+     * The playlist runs again once it has no pending approvals left.
+     */
+    const pending = await this.approval.count({
+      where: { playlists_id: playlist.id, status: ApprovalStatus.PENDING },
+    });
+
+    if (!pending) {
+      await this.playlist.update(
+        { status: PlaylistStatus.RUNNING },
+        {
+          where: { id: playlist.id, status: PlaylistStatus.AWAITING_APPROVAL },
+        },
+      );
+      await playlist.reload();
+    }
+
+    if (status === ApprovalStatus.APPROVED) {
+      await this.playlistsService.segue({
+        slug: playlist.slug,
+        operation: approval.slot_name,
+        output: JSON.stringify({
+          approved: true,
+          decided_by: approval.decided_by,
+          comment: approval.comment,
+        }),
+      });
+    } else {
+      const context = await this.playlistsService.getContext(playlist.id);
+      if (!context) {
+        throw new Error(
+          `Context for playlist with slug ${playlist.slug} not found.`,
+        );
+      }
+
+      await this.playlistsService.fail(playlist, context, approval.slot_id, {
+        code: status === ApprovalStatus.EXPIRED ? 'EXPIRED' : 'REJECTED',
+        message:
+          status === ApprovalStatus.EXPIRED
+            ? `Approval ${id} expired without a decision.`
+            : `Approval ${id} was rejected${user ? ` by ${user}` : ''}.`,
+        retryable: false,
+      });
+    }
+
+    return approval;
+  }
+}
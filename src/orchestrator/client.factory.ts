@@ -9,12 +9,18 @@ export interface ClientService {
     data: { payload: string },
     callback: (err: any, res: { success: boolean; result: string }) => void,
   ): void;
+  close(): void;
+}
+
+export interface WorkerResponse {
+  success: boolean;
+  result: string;
 }
 
 export interface WorkerService {
   performTask(
     data: { payload: string },
-    callback: (err: any, res: { success: boolean; result: string }) => void,
+    callback: (err: any, res: WorkerResponse) => void,
   ): void;
 }
 
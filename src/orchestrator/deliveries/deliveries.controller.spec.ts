@@ -0,0 +1,39 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { DeliveryStatus } from 'src/models/delivery.model';
+import { DeliveriesController } from './deliveries.controller';
+import { DeliveriesService } from './deliveries.service';
+
+describe('DeliveriesController', () => {
+  let controller: DeliveriesController;
+
+  const deliveriesService = {
+    getDeliveries: jest.fn(),
+    redrive: jest.fn(),
+    redriveAll: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [DeliveriesController],
+      providers: [{ provide: DeliveriesService, useValue: deliveriesService }],
+    }).compile();
+
+    controller = module.get<DeliveriesController>(DeliveriesController);
+  });
+
+  it('should be defined', () => {
+    expect(controller).toBeDefined();
+  });
+
+  it('should list a page of deliveries by status', async () => {
+    await controller.getDeliveries(2, 50, DeliveryStatus.DEAD);
+
+    expect(deliveriesService.getDeliveries).toHaveBeenCalledWith(
+      2,
+      50,
+      DeliveryStatus.DEAD,
+    );
+  });
+});
@@ -0,0 +1,66 @@
+import {
+  Controller,
+  DefaultValuePipe,
+  Get,
+  Param,
+  ParseIntPipe,
+  Post,
+  Query,
+} from '@nestjs/common';
+import { Logger } from 'src/decorators/logger.decorator';
+import { Delivery, DeliveryStatus } from 'src/models/delivery.model';
+import { JSONLogger } from 'src/utils/logger';
+import { DeliveriesService } from './deliveries.service';
+
+/**
+ * Controller for browsing the deliveries and re-driving the dead ones.
+ */
+@Controller('deliveries')
+export class DeliveriesController {
+  constructor(private readonly deliveriesService: DeliveriesService) {}
+
+  /**
+   * Logger instance for logging messages.
+   */
+  @Logger(DeliveriesController.name)
+  private readonly logger!: JSONLogger;
+
+  /**
+   * Retrieves a page of the deliveries, optionally filtered by status.
+   *
+   * @param {number} page - The page number to retrieve. Defaults to the first one.
+   * @param {number} pageSize - The number of deliveries per page. Defaults to 50.
+   * @param {DeliveryStatus} status - The status to filter by, e.g. DEAD for the dead-letter list.
+   * @returns {Promise<{ rows: Delivery[]; count: number }>} The deliveries of the page and the total count.
+   */
+  @Get()
+  getDeliveries(
+    @Query('page', new DefaultValuePipe(1), ParseIntPipe) page: number,
+    @Query('pageSize', new DefaultValuePipe(50), ParseIntPipe)
+    pageSize: number,
+    @Query('status') status?: DeliveryStatus,
+  ): Promise<{ rows: Delivery[]; count: number }> {
+    return this.deliveriesService.getDeliveries(page, pageSize, status);
+  }
+
+  /**
+   * Re-drives every dead delivery.
+   *
+   * @returns The number of re-driven deliveries.
+   */
+  @Post('redrive')
+  redriveAll(): Promise<{ count: number }> {
+    return this.deliveriesService.redriveAll();
+  }
+
+  /**
+   * Re-drives a dead delivery.
+   *
+   * @param {number} id - The ID of the delivery.
+   * @returns {Promise<Delivery>} The re-driven delivery.
+   */
+  @Post(':id/redrive')
+  redrive(@Param('id', ParseIntPipe) id: number): Promise<Delivery> {
+    return this.deliveriesService.redrive(id);
+  }
+}
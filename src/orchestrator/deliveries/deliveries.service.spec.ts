@@ -0,0 +1,168 @@
+import { NotFoundException } from '@nestjs/common';
+import { getModelToken } from '@nestjs/sequelize';
+import { Test, TestingModule } from '@nestjs/testing';
+import {
+  Delivery,
+  DeliveryMode,
+  DeliveryStatus,
+} from 'src/models/delivery.model';
+import { Playlist } from 'src/models/playlist.model';
+import { ClientFactory } from '../client.factory';
+import { PlaylistsService } from '../playlists/playlists.service';
+import { DeliveriesService } from './deliveries.service';
+
+describe('DeliveriesService', () => {
+  let service: DeliveriesService;
+
+  const playlistsService = { getContext: jest.fn(), hydrateContext: jest.fn() };
+  const clientFactory = { createClient: jest.fn() };
+  const deliveryModel = {
+    findAll: jest.fn(),
+    findAndCountAll: jest.fn(),
+    findByPk: jest.fn(),
+    update: jest.fn(),
+  };
+  const playlistModel = { findByPk: jest.fn() };
+
+  const client = { deliver: jest.fn(), close: jest.fn() };
+
+  const delivery = (attempts = 0) => {
+    const row = {
+      id: 9,
+      playlists_id: 1,
+      mode: DeliveryMode.GRPC,
+      origin: 'client:50051',
+      attempts,
+      reload: jest.fn(() => {
+        row.attempts += 1;
+        return Promise.resolve();
+      }),
+      destroy: jest.fn(),
+    };
+    return row;
+  };
+
+  /**
+   * Leases the given delivery and attempts it, returning the fields it was settled with.
+   */
+  const attempt = async (
+    due: ReturnType<typeof delivery>,
+  ): Promise<[Partial<Delivery>, object]> => {
+    deliveryModel.findAll.mockResolvedValue([due]);
+    deliveryModel.update.mockResolvedValue([1]);
+
+    await service.poll();
+
+    return deliveryModel.update.mock.calls[1] as [Partial<Delivery>, object];
+  };
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        DeliveriesService,
+        { provide: PlaylistsService, useValue: playlistsService },
+        { provide: ClientFactory, useValue: clientFactory },
+        { provide: getModelToken(Delivery), useValue: deliveryModel },
+        { provide: getModelToken(Playlist), useValue: playlistModel },
+      ],
+    }).compile();
+
+    service = module.get<DeliveriesService>(DeliveriesService);
+
+    playlistModel.findByPk.mockResolvedValue({ id: 1, slug: 'playlist' });
+    playlistsService.getContext.mockResolvedValue({
+      toJSON: () => ({ id: 1, sequence: [] }),
+    });
+    playlistsService.hydrateContext.mockImplementation((context: object) =>
+      Promise.resolve(context),
+    );
+    clientFactory.createClient.mockReturnValue(client);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  it('should deliver to the client service and settle the held lease', async () => {
+    client.deliver.mockImplementation(
+      (_request: object, callback: (err: null, response: object) => void) =>
+        callback(null, {}),
+    );
+
+    const [fields, options] = await attempt(delivery());
+
+    expect(client.deliver).toHaveBeenCalledWith(
+      {
+        payload: JSON.stringify({
+          id: 1,
+          slug: 'playlist',
+          context: { id: 1, sequence: [] },
+        }),
+      },
+      expect.any(Function),
+    );
+    expect(client.close).toHaveBeenCalled();
+    expect(fields).toEqual(
+      expect.objectContaining({ status: DeliveryStatus.DELIVERED }),
+    );
+    expect(options).toEqual({
+      where: {
+        id: 9,
+        status: DeliveryStatus.LEASED,
+        lease_owner: expect.any(String),
+        attempts: 1,
+      },
+    });
+  });
+
+  it('should release failed deliveries to be retried', async () => {
+    client.deliver.mockImplementation(
+      (_request: object, callback: (err: Error) => void) =>
+        callback(new Error('unavailable')),
+    );
+
+    const [fields] = await attempt(delivery());
+
+    expect(client.close).toHaveBeenCalled();
+    expect(fields).toEqual(
+      expect.objectContaining({
+        status: DeliveryStatus.PENDING,
+        available_at: expect.any(Date),
+        last_error: 'gRPC delivery failed: unavailable',
+      }),
+    );
+  });
+
+  it('should dead-letter deliveries once they run out of attempts', async () => {
+    client.deliver.mockImplementation(
+      (_request: object, callback: (err: Error) => void) =>
+        callback(new Error('unavailable')),
+    );
+
+    const [fields] = await attempt(delivery(4));
+
+    expect(fields).toEqual(
+      expect.objectContaining({ status: DeliveryStatus.DEAD }),
+    );
+  });
+
+  it('should refuse to re-drive deliveries that are not dead', async () => {
+    deliveryModel.update.mockResolvedValue([0]);
+
+    await expect(service.redrive(9)).rejects.toThrow(NotFoundException);
+  });
+
+  it('should page through the deliveries', async () => {
+    await service.getDeliveries(3, 20, DeliveryStatus.DEAD);
+
+    expect(deliveryModel.findAndCountAll).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: { status: DeliveryStatus.DEAD },
+        offset: 40,
+        limit: 20,
+      }),
+    );
+  });
+});
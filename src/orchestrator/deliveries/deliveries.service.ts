@@ -0,0 +1,434 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { Interval } from '@nestjs/schedule';
+import { InjectModel } from '@nestjs/sequelize';
+import { Op } from 'sequelize';
+import { Logger } from 'src/decorators/logger.decorator';
+import {
+  Delivery,
+  DeliveryMode,
+  DeliveryStatus,
+} from 'src/models/delivery.model';
+import { PlaylistContext } from 'src/models/playlist.context';
+import { Playlist } from 'src/models/playlist.model';
+import { getBackoffDelay } from 'src/utils/backoff';
+import { JSONLogger } from 'src/utils/logger';
+import { nanoid } from 'src/utils/nanoid';
+import { getHostAndPort } from 'src/utils/network';
+import {
+  checkWebhookTarget,
+  postWebhook,
+  signWebhook,
+  webhookHeaders,
+  webhookSecret,
+} from 'src/utils/webhooks';
+import { ClientFactory, ClientService } from '../client.factory';
+import { PlaylistsService } from '../playlists/playlists.service';
+
+/**
+ * How often the delivery queue is polled, how long a lease lasts, how many
+ * deliveries are leased at once and how many times a delivery is attempted before
+ * it is dead-lettered.
+ *
+ * These values are retrieved from the environment variables `DELIVERY_INTERVAL_MS`,
+ * `DELIVERY_LEASE_SECONDS`, `DELIVERY_BATCH_SIZE` and `DELIVERY_MAX_ATTEMPTS`. If they
+ * are not set, they default to one second, one minute, ten deliveries and five attempts.
+ *
+ * @constant
+ * @type {number}
+ */
+const deliveryInterval: number =
+  Number(process.env.DELIVERY_INTERVAL_MS) || 1000;
+const deliveryLease: number = Number(process.env.DELIVERY_LEASE_SECONDS) || 60;
+const deliveryBatchSize: number = Number(process.env.DELIVERY_BATCH_SIZE) || 10;
+const maxDeliveryAttempts: number =
+  Number(process.env.DELIVERY_MAX_ATTEMPTS) || 5;
+
+/**
+ * The event type of the webhook sent when a playlist completes.
+ */
+const completedEvent = 'playlist.completed';
+
+/**
+ * Service responsible for delivering finished playlists to their origin.
+ *
+ * Deliveries are leased like dispatches, so several instances of the service can
+ * share the queue. A failed delivery is retried with backoff and, once it runs out
+ * of attempts, it is dead-lettered until it is re-driven.
+ */
+@Injectable()
+export class DeliveriesService {
+  /**
+   * Logger instance for logging messages.
+   */
+  @Logger(DeliveriesService.name)
+  private readonly logger!: JSONLogger;
+
+  /**
+   * The identifier of this instance in the leases it holds.
+   */
+  private readonly owner = nanoid();
+
+  /**
+   * Whether a poll is already in progress.
+   */
+  private polling = false;
+
+  constructor(
+    private readonly playlistsService: PlaylistsService,
+    private readonly clientFactory: ClientFactory,
+    @InjectModel(Delivery) private readonly delivery: typeof Delivery,
+    @InjectModel(Playlist) private readonly playlist: typeof Playlist,
+  ) {}
+
+  /**
+   * Retrieves a page of the deliveries, optionally filtered by status, newest first.
+   *
+   * @param {number} page - The page number to retrieve.
+   * @param {number} pageSize - The number of deliveries per page.
+   * @param {DeliveryStatus} status - The status to filter by.
+   * @returns {Promise<{ rows: Delivery[]; count: number }>} The deliveries of the page and the total count.
+   */
+  async getDeliveries(
+    page: number,
+    pageSize: number,
+    status?: DeliveryStatus,
+  ): Promise<{ rows: Delivery[]; count: number }> {
+    return this.delivery.findAndCountAll({
+      where: status ? { status } : {},
+      include: [{ model: Playlist, attributes: ['id', 'slug', 'status'] }],
+      order: [['id', 'DESC']],
+      offset: (page - 1) * pageSize,
+      limit: pageSize,
+    });
+  }
+
+  /**
+   * Re-drives a dead delivery, so it is attempted again from scratch.
+   *
+   * @param id - The ID of the delivery.
+   * @returns {Promise<Delivery>} The re-driven delivery.
+   * @throws {NotFoundException} If the delivery does not exist or is not dead.
+   */
+  async redrive(id: number): Promise<Delivery> {
+    const [affected] = await this.delivery.update(
+      {
+        status: DeliveryStatus.PENDING,
+        available_at: new Date(),
+        attempts: 0,
+        last_error: null,
+      },
+      { where: { id, status: DeliveryStatus.DEAD } },
+    );
+
+    if (!affected) {
+      throw new NotFoundException(`Dead delivery ${id} not found.`);
+    }
+
+    this.logger.log(`Re-driving delivery ${id}.`);
+
+    return (await this.delivery.findByPk(id))!;
+  }
+
+  /**
+   * Re-drives every dead delivery.
+   *
+   * @returns The number of re-driven deliveries.
+   */
+  async redriveAll(): Promise<{ count: number }> {
+    const [count] = await this.delivery.update(
+      {
+        status: DeliveryStatus.PENDING,
+        available_at: new Date(),
+        attempts: 0,
+        last_error: null,
+      },
+      { where: { status: DeliveryStatus.DEAD } },
+    );
+
+    this.logger.log(`Re-driving ${count} dead deliveries.`);
+
+    return { count };
+  }
+
+  /**
+   * Leases the deliveries that are due and attempts them.
+   */
+  @Interval(deliveryInterval)
+  async poll(): Promise<void> {
+    if (this.polling) {
+      return;
+    }
+
+    this.polling = true;
+
+    try {
+      const leased = await this.lease();
+      await Promise.all(leased.map((delivery) => this.process(delivery)));
+    } catch (error) {
+      this.logger.error('Delivery poll failed:', error);
+    } finally {
+      this.polling = false;
+    }
+  }
+
+  /**
+   * Leases the pending deliveries that are due and the ones whose lease ran out.
+   *
+   * @returns {Promise<Delivery[]>} The deliveries leased by this instance.
+   */
+  private async lease(): Promise<Delivery[]> {
+    const now = new Date();
+
+    const due = await this.delivery.findAll({
+      where: {
+        [Op.or]: [
+          {
+            status: DeliveryStatus.PENDING,
+            available_at: { [Op.lte]: now },
+          },
+          {
+            status: DeliveryStatus.LEASED,
+            leased_until: { [Op.lt]: now },
+          },
+        ],
+      },
+      order: [
+        ['available_at', 'ASC'],
+        ['id', 'ASC'],
+      ],
+      limit: deliveryBatchSize,
+    });
+
+    const leased: Delivery[] = [];
+    for (const delivery of due) {
+      /**
+       * The attempt count works as a version, so only one instance gets the lease.
+       */
+      const [affected] = await this.delivery.update(
+        {
+          status: DeliveryStatus.LEASED,
+          lease_owner: this.owner,
+          leased_until: new Date(now.getTime() + deliveryLease * 1000),
+          attempts: delivery.attempts + 1,
+        },
+        { where: { id: delivery.id, attempts: delivery.attempts } },
+      );
+
+      if (affected) {
+        await delivery.reload();
+        leased.push(delivery);
+      }
+    }
+
+    return leased;
+  }
+
+  /**
+   * Attempts a leased delivery.
+   *
+   * If it fails, the delivery is released to be retried with backoff, and it is
+   * dead-lettered once it runs out of attempts. The outcome is only recorded while
+   * this instance still holds the lease, so an attempt that outlived its lease
+   * doesn't overwrite the one that took over.
+   *
+   * @param delivery - The leased delivery.
+   */
+  private async process(delivery: Delivery): Promise<void> {
+    const playlist = await this.playlist.findByPk(delivery.playlists_id);
+    const context =
+      playlist && (await this.playlistsService.getContext(playlist.id));
+
+    if (!playlist || !context) {
+      this.logger.warn(
+        `Dropping delivery ${delivery.id}, as playlist ${delivery.playlists_id} no longer exists.`,
+      );
+      await delivery.destroy();
+      return;
+    }
+
+    try {
+      /**
+       * Clients get the full outputs, not the references to the offloaded ones.
+       */
+      const payload = await this.playlistsService.hydrateContext(
+        context.toJSON() as PlaylistContext,
+      );
+
+      if (delivery.mode === DeliveryMode.WEBHOOK) {
+        await this.post(delivery, playlist, payload);
+      } else {
+        await this.send(delivery.origin, playlist, payload);
+      }
+      await this.settle(delivery, {
+        status: DeliveryStatus.DELIVERED,
+        delivered_at: new Date(),
+        lease_owner: null,
+        leased_until: null,
+        last_error: null,
+      });
+
+      this.logger.log(
+        `Delivered playlist ${playlist.slug} to ${delivery.origin}.`,
+      );
+    } catch (error) {
+      this.logger.error(
+        `Delivery ${delivery.id} of playlist ${playlist.slug} failed (${delivery.attempts}/${maxDeliveryAttempts}):`,
+        error,
+      );
+
+      const dead = delivery.attempts >= maxDeliveryAttempts;
+      await this.settle(delivery, {
+        status: dead ? DeliveryStatus.DEAD : DeliveryStatus.PENDING,
+        available_at: new Date(
+          Date.now() + getBackoffDelay(delivery.attempts - 1),
+        ),
+        lease_owner: null,
+        leased_until: null,
+        last_error: error.message,
+      });
+
+      if (dead) {
+        this.logger.warn(
+          `Delivery ${delivery.id} of playlist ${playlist.slug} was dead-lettered.`,
+        );
+      }
+    }
+  }
+
+  /**
+   * Records the outcome of an attempt, if this instance still holds the lease of the delivery.
+   *
+   * @param delivery - The leased delivery.
+   * @param fields - The fields to update.
+   */
+  private async settle(
+    delivery: Delivery,
+    fields: Partial<Delivery>,
+  ): Promise<void> {
+    const [affected] = await this.delivery.update(fields, {
+      where: {
+        id: delivery.id,
+        status: DeliveryStatus.LEASED,
+        lease_owner: this.owner,
+        attempts: delivery.attempts,
+      },
+    });
+
+    if (!affected) {
+      this.logger.warn(
+        `Delivery ${delivery.id} was leased again before its attempt ${delivery.attempts} finished.`,
+      );
+    }
+  }
+
+  /**
+   * Sends a playlist to the client service at its origin.
+   *
+   * @param {string} origin - The address of the client service.
+   * @param {Playlist} playlist - The playlist to be delivered.
+   * @param {PlaylistContext} context - The context of the playlist.
+   * @returns {Promise<any>} A promise that resolves with the response from the client service.
+   * @throws {Error} If the client can't be created or the delivery fails.
+   */
+  private async send(
+    origin: string,
+    playlist: Playlist,
+    context: PlaylistContext,
+  ): Promise<any> {
+    const { hostname, port } = getHostAndPort(origin);
+
+    /**
+     * Create a new client to communicate with the client service.
+     */
+    const client = this.clientFactory.createClient<ClientService>(
+      hostname,
+      port,
+      'client.proto',
+      'client',
+      'ClientService',
+    );
+
+    if (!client) {
+      throw new Error('Failed to create gRPC client.');
+    }
+
+    /**
+     * Deliver the payload to the client service, and close the client once done.
+     */
+    try {
+      return await new Promise((resolve, reject) => {
+        try {
+          client.deliver(
+            { payload: JSON.stringify({ ...playlist, context }) },
+            (err, response) => {
+              if (err) {
+                reject(new Error(`gRPC delivery failed: ${err.message}`));
+              } else {
+                resolve(response);
+              }
+            },
+          );
+        } catch (error) {
+          reject(new Error(error.message));
+        }
+      });
+    } finally {
+      client.close();
+    }
+  }
+
+  /**
+   * Posts a playlist as JSON to the webhook at its origin.
+   *
+   * The request is signed with `WEBHOOK_SECRET` and carries the timestamp, event
+   * type and delivery ID in its headers. Any non-2xx response counts as a failure.
+   *
+   * @param {Delivery} delivery - The delivery being attempted.
+   * @param {Playlist} playlist - The playlist to be delivered.
+   * @param {PlaylistContext} context - The context of the playlist.
+   * @throws {Error} If the secret is missing, or the request fails or is rejected.
+   */
+  private async post(
+    delivery: Delivery,
+    playlist: Playlist,
+    context: PlaylistContext,
+  ): Promise<void> {
+    if (!webhookSecret) {
+      throw new Error('WEBHOOK_SECRET is not set.');
+    }
+
+    /**
+     * Check the target again, as its host may resolve differently by now. The
+     * addresses are checked once more when connecting, so they can't change in between.
+     */
+    const targetError = await checkWebhookTarget(delivery.origin);
+    if (targetError) {
+      throw new Error(targetError);
+    }
+
+    const body = JSON.stringify({
+      event: completedEvent,
+      playlist: playlist.toJSON(),
+      context,
+    });
+    const timestamp = Math.floor(Date.now() / 1000);
+
+    const response = await postWebhook(
+      delivery.origin,
+      {
+        'Content-Type': 'application/json',
+        [webhookHeaders.signature]: signWebhook(body, timestamp, webhookSecret),
+        [webhookHeaders.timestamp]: String(timestamp),
+        [webhookHeaders.event]: completedEvent,
+        [webhookHeaders.delivery]: String(delivery.id),
+      },
+      body,
+    );
+
+    if (response.status < 200 || response.status >= 300) {
+      throw new Error(
+        `Webhook responded with ${response.status} ${response.statusText}.`,
+      );
+    }
+  }
+}
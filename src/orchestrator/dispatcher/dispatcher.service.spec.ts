@@ -0,0 +1,140 @@
+import { getModelToken } from '@nestjs/sequelize';
+import { Test, TestingModule } from '@nestjs/testing';
+import { Dispatch, DispatchStatus } from 'src/models/dispatch.model';
+import { Playlist } from 'src/models/playlist.model';
+import { PlaylistsService } from '../playlists/playlists.service';
+import { DispatcherService } from './dispatcher.service';
+
+describe('DispatcherService', () => {
+  let service: DispatcherService;
+
+  const playlistsService = {
+    getContext: jest.fn(),
+    execute: jest.fn(),
+    requeue: jest.fn(),
+    fail: jest.fn(),
+  };
+  const dispatchModel = { findAll: jest.fn(), update: jest.fn() };
+  const playlistModel = { findByPk: jest.fn() };
+
+  const playlist = { id: 1, slug: 'playlist' };
+  const context = { id: 1, sequence: [] };
+
+  const dispatch = (attempts = 0) => {
+    const row = {
+      id: 7,
+      playlists_id: 1,
+      slot_id: 3,
+      attempts,
+      reload: jest.fn(() => {
+        row.attempts += 1;
+        return Promise.resolve();
+      }),
+      update: jest.fn(),
+      destroy: jest.fn(),
+    };
+    return row;
+  };
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        DispatcherService,
+        { provide: PlaylistsService, useValue: playlistsService },
+        { provide: getModelToken(Dispatch), useValue: dispatchModel },
+        { provide: getModelToken(Playlist), useValue: playlistModel },
+      ],
+    }).compile();
+
+    service = module.get<DispatcherService>(DispatcherService);
+
+    playlistModel.findByPk.mockResolvedValue(playlist);
+    playlistsService.getContext.mockResolvedValue(context);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  it('should lease due dispatches by their attempt count and execute them', async () => {
+    const due = dispatch();
+    dispatchModel.findAll.mockResolvedValue([due]);
+    dispatchModel.update.mockResolvedValue([1]);
+
+    await service.poll();
+
+    expect(dispatchModel.update).toHaveBeenCalledWith(
+      expect.objectContaining({
+        status: DispatchStatus.LEASED,
+        lease_owner: expect.any(String),
+        leased_until: expect.any(Date),
+        attempts: 1,
+      }),
+      { where: { id: 7, attempts: 0 } },
+    );
+    expect(playlistsService.execute).toHaveBeenCalledWith(playlist, context, 3);
+    expect(due.destroy).toHaveBeenCalled();
+  });
+
+  it('should skip dispatches leased by another instance first', async () => {
+    const due = dispatch();
+    dispatchModel.findAll.mockResolvedValue([due]);
+    dispatchModel.update.mockResolvedValue([0]);
+
+    await service.poll();
+
+    expect(due.reload).not.toHaveBeenCalled();
+    expect(playlistsService.execute).not.toHaveBeenCalled();
+    expect(due.destroy).not.toHaveBeenCalled();
+  });
+
+  it('should queue the slot again and release the dispatch when execution throws', async () => {
+    const due = dispatch();
+    dispatchModel.findAll.mockResolvedValue([due]);
+    dispatchModel.update.mockResolvedValue([1]);
+    playlistsService.execute.mockRejectedValue(new Error('unavailable'));
+
+    await service.poll();
+
+    expect(playlistsService.requeue).toHaveBeenCalledWith(playlist, 3);
+    expect(due.update).toHaveBeenCalledWith({
+      status: DispatchStatus.PENDING,
+      available_at: expect.any(Date),
+      lease_owner: null,
+      leased_until: null,
+    });
+    expect(due.destroy).not.toHaveBeenCalled();
+    expect(playlistsService.fail).not.toHaveBeenCalled();
+  });
+
+  it('should fail the slot once the dispatch runs out of attempts', async () => {
+    const due = dispatch(4);
+    dispatchModel.findAll.mockResolvedValue([due]);
+    dispatchModel.update.mockResolvedValue([1]);
+    playlistsService.execute.mockRejectedValue(new Error('unavailable'));
+
+    await service.poll();
+
+    expect(playlistsService.requeue).not.toHaveBeenCalled();
+    expect(due.destroy).toHaveBeenCalled();
+    expect(playlistsService.fail).toHaveBeenCalledWith(playlist, context, 3, {
+      code: 'DISPATCH_ERROR',
+      message: 'unavailable',
+      retryable: false,
+    });
+  });
+
+  it('should drop dispatches of playlists that no longer exist', async () => {
+    const due = dispatch();
+    dispatchModel.findAll.mockResolvedValue([due]);
+    dispatchModel.update.mockResolvedValue([1]);
+    playlistModel.findByPk.mockResolvedValue(null);
+
+    await service.poll();
+
+    expect(due.destroy).toHaveBeenCalled();
+    expect(playlistsService.execute).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,198 @@
+import { Injectable } from '@nestjs/common';
+import { Interval } from '@nestjs/schedule';
+import { InjectModel } from '@nestjs/sequelize';
+import { Op } from 'sequelize';
+import { Logger } from 'src/decorators/logger.decorator';
+import { Dispatch, DispatchStatus } from 'src/models/dispatch.model';
+import { Playlist } from 'src/models/playlist.model';
+import { getBackoffDelay } from 'src/utils/backoff';
+import { JSONLogger } from 'src/utils/logger';
+import { nanoid } from 'src/utils/nanoid';
+import { PlaylistsService } from '../playlists/playlists.service';
+
+/**
+ * How often the dispatch queue is polled, how long a lease lasts and how many
+ * dispatches are leased at once.
+ *
+ * These values are retrieved from the environment variables `DISPATCH_INTERVAL_MS`,
+ * `DISPATCH_LEASE_SECONDS` and `DISPATCH_BATCH_SIZE`. If they are not set, they
+ * default to one second, one minute and ten dispatches.
+ *
+ * @constant
+ * @type {number}
+ */
+const dispatchInterval: number =
+  Number(process.env.DISPATCH_INTERVAL_MS) || 1000;
+const dispatchLease: number = Number(process.env.DISPATCH_LEASE_SECONDS) || 60;
+const dispatchBatchSize: number = Number(process.env.DISPATCH_BATCH_SIZE) || 10;
+
+/**
+ * How many times a dispatch is attempted before its slot is failed.
+ */
+const maxDispatchAttempts = 5;
+
+/**
+ * Service responsible for processing the dispatch queue.
+ *
+ * Dispatches are leased before being processed, so that several instances of the
+ * service can share the queue. A dispatch whose lease runs out, because its instance
+ * stopped while processing it, is picked up again, so every slot is dispatched at
+ * least once.
+ */
+@Injectable()
+export class DispatcherService {
+  /**
+   * Logger instance for logging messages.
+   */
+  @Logger(DispatcherService.name)
+  private readonly logger!: JSONLogger;
+
+  /**
+   * The identifier of this instance in the leases it holds.
+   */
+  private readonly owner = nanoid();
+
+  /**
+   * Whether a poll is already in progress.
+   */
+  private polling = false;
+
+  constructor(
+    private readonly playlistsService: PlaylistsService,
+    @InjectModel(Dispatch) private readonly dispatch: typeof Dispatch,
+    @InjectModel(Playlist) private readonly playlist: typeof Playlist,
+  ) {}
+
+  /**
+   * Leases the dispatches that are due and processes them.
+   */
+  @Interval(dispatchInterval)
+  async poll(): Promise<void> {
+    if (this.polling) {
+      return;
+    }
+
+    this.polling = true;
+
+    try {
+      const leased = await this.lease();
+      await Promise.all(leased.map((dispatch) => this.process(dispatch)));
+    } catch (error) {
+      this.logger.error('Dispatch poll failed:', error);
+    } finally {
+      this.polling = false;
+    }
+  }
+
+  /**
+   * Leases the pending dispatches that are due and the ones whose lease ran out.
+   *
+   * @returns {Promise<Dispatch[]>} The dispatches leased by this instance.
+   */
+  private async lease(): Promise<Dispatch[]> {
+    const now = new Date();
+
+    const due = await this.dispatch.findAll({
+      where: {
+        [Op.or]: [
+          {
+            status: DispatchStatus.PENDING,
+            available_at: { [Op.lte]: now },
+          },
+          {
+            status: DispatchStatus.LEASED,
+            leased_until: { [Op.lt]: now },
+          },
+        ],
+      },
+      order: [
+        ['available_at', 'ASC'],
+        ['id', 'ASC'],
+      ],
+      limit: dispatchBatchSize,
+    });
+
+    const leased: Dispatch[] = [];
+    for (const dispatch of due) {
+      /**
+       * The attempt count works as a version, so only one instance gets the lease.
+       */
+      const [affected] = await this.dispatch.update(
+        {
+          status: DispatchStatus.LEASED,
+          lease_owner: this.owner,
+          leased_until: new Date(now.getTime() + dispatchLease * 1000),
+          attempts: dispatch.attempts + 1,
+        },
+        { where: { id: dispatch.id, attempts: dispatch.attempts } },
+      );
+
+      if (affected) {
+        await dispatch.reload();
+        leased.push(dispatch);
+      }
+    }
+
+    return leased;
+  }
+
+  /**
+   * Executes the slot of a leased dispatch and removes the dispatch.
+   *
+   * If the execution throws, the slot is queued again and the dispatch is released to
+   * be retried with backoff. The slot is failed once it runs out of attempts.
+   *
+   * @param dispatch - The leased dispatch.
+   */
+  private async process(dispatch: Dispatch): Promise<void> {
+    const playlist = await this.playlist.findByPk(dispatch.playlists_id);
+    const context =
+      playlist && (await this.playlistsService.getContext(playlist.id));
+
+    if (!playlist || !context) {
+      this.logger.warn(
+        `Dropping dispatch ${dispatch.id}, as playlist ${dispatch.playlists_id} no longer exists.`,
+      );
+      await dispatch.destroy();
+      return;
+    }
+
+    try {
+      await this.playlistsService.execute(playlist, context, dispatch.slot_id);
+      await dispatch.destroy();
+    } catch (error) {
+      this.logger.error(
+        `Dispatch ${dispatch.id} of playlist ${playlist.slug} failed (${dispatch.attempts}/${maxDispatchAttempts}):`,
+        error,
+      );
+
+      if (dispatch.attempts < maxDispatchAttempts) {
+        await this.playlistsService.requeue(playlist, dispatch.slot_id);
+        await dispatch.update({
+          status: DispatchStatus.PENDING,
+          available_at: new Date(
+            Date.now() + getBackoffDelay(dispatch.attempts - 1),
+          ),
+          lease_owner: null,
+          leased_until: null,
+        });
+        return;
+      }
+
+      await dispatch.destroy();
+      const updatedContext = await this.playlistsService.getContext(
+        playlist.id,
+      );
+      await this.playlistsService.fail(
+        playlist,
+        updatedContext ?? context,
+        dispatch.slot_id,
+        {
+          code: 'DISPATCH_ERROR',
+          message: error.message,
+          retryable: false,
+        },
+      );
+    }
+  }
+}
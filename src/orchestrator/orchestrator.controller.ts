@@ -1,5 +1,6 @@
 import { Controller } from '@nestjs/common';
 import { GrpcMethod } from '@nestjs/microservices';
+import { DeliveryMode } from 'src/models/delivery.model';
 import { PlaylistsService } from './playlists/playlists.service';
 
 /**
@@ -9,6 +10,11 @@ export interface PlaylistTrigger {
   slug: string;
   context: object;
   origin: string;
+  idempotency_key?: string;
+  delivery_mode?: DeliveryMode | '';
+  simulation?: boolean;
+  simulated_outputs?: string | Record<string, any>;
+  version?: number;
 }
 
 /**
@@ -19,13 +25,28 @@ export interface PlaylistTriggerResponse {
   status: string;
 }
 
+/**
+ * Whether the slot reporting a segue succeeded or failed.
+ */
+export enum SegueStatus {
+  SUCCESS = 'SUCCESS',
+  FAILURE = 'FAILURE',
+}
+
 /**
  * The data required to segue to another playlist.
+ *
+ * A failed slot reports its error code, message and whether it may be retried
+ * instead of an output.
  */
 export interface SegueRequest {
   slug: string;
   operation: string;
   output: string;
+  status?: SegueStatus;
+  error_code?: string;
+  error_message?: string;
+  retryable?: boolean;
 }
 
 /**
@@ -35,6 +56,38 @@ export interface SegueResponse {
   success: boolean;
 }
 
+/**
+ * The progress reported by a running slot.
+ */
+export interface HeartbeatRequest {
+  slug: string;
+  operation: string;
+  percent: number;
+  message: string;
+}
+
+/**
+ * The response of a heartbeat.
+ */
+export interface HeartbeatResponse {
+  success: boolean;
+}
+
+/**
+ * The data required to change the state of a playlist.
+ */
+export interface PlaylistStateRequest {
+  slug: string;
+}
+
+/**
+ * The response of a playlist state change.
+ */
+export interface PlaylistStateResponse {
+  slug: string;
+  status: string;
+}
+
 @Controller()
 export class OrchestratorController {
   constructor(private readonly playlistsService: PlaylistsService) {}
@@ -56,4 +109,54 @@ export class OrchestratorController {
   async seguePlaylist(data: SegueRequest): Promise<SegueResponse> {
     return await this.playlistsService.segue(data);
   }
+
+  /**
+   * Cancels a playlist.
+   *
+   * @param {PlaylistStateRequest} data - The slug of the playlist to cancel.
+   * @returns {Promise<PlaylistStateResponse>} A promise that resolves to the new state of the playlist.
+   */
+  @GrpcMethod('WiphalaService', 'Cancel')
+  async cancelPlaylist(
+    data: PlaylistStateRequest,
+  ): Promise<PlaylistStateResponse> {
+    return await this.playlistsService.cancel(data.slug);
+  }
+
+  /**
+   * Pauses a playlist.
+   *
+   * @param {PlaylistStateRequest} data - The slug of the playlist to pause.
+   * @returns {Promise<PlaylistStateResponse>} A promise that resolves to the new state of the playlist.
+   */
+  @GrpcMethod('WiphalaService', 'Pause')
+  async pausePlaylist(
+    data: PlaylistStateRequest,
+  ): Promise<PlaylistStateResponse> {
+    return await this.playlistsService.pause(data.slug);
+  }
+
+  /**
+   * Resumes a paused playlist.
+   *
+   * @param {PlaylistStateRequest} data - The slug of the playlist to resume.
+   * @returns {Promise<PlaylistStateResponse>} A promise that resolves to the new state of the playlist.
+   */
+  @GrpcMethod('WiphalaService', 'Resume')
+  async resumePlaylist(
+    data: PlaylistStateRequest,
+  ): Promise<PlaylistStateResponse> {
+    return await this.playlistsService.resume(data.slug);
+  }
+
+  /**
+   * Records the progress of a running slot.
+   *
+   * @param {HeartbeatRequest} data - The slug of the playlist, the slot and its progress.
+   * @returns {Promise<HeartbeatResponse>} A promise that resolves to whether the progress was recorded.
+   */
+  @GrpcMethod('WiphalaService', 'Heartbeat')
+  async heartbeat(data: HeartbeatRequest): Promise<HeartbeatResponse> {
+    return await this.playlistsService.heartbeat(data);
+  }
 }
@@ -2,28 +2,50 @@ import { Module } from '@nestjs/common';
 import { AuthorizationModule } from 'src/authorization/authorization.module';
 import { CoreModule } from 'src/core/core.module';
 import { DalModule } from 'src/dal/dal.module';
+import { ApprovalsController } from './approvals/approvals.controller';
+import { ApprovalsService } from './approvals/approvals.service';
 import { ClientFactory } from './client.factory';
+import { DeliveriesController } from './deliveries/deliveries.controller';
+import { DeliveriesService } from './deliveries/deliveries.service';
+import { DispatcherService } from './dispatcher/dispatcher.service';
 import { OrchestratorController } from './orchestrator.controller';
 import { PlaylistsController } from './playlists/playlists.controller';
 import { PlaylistsService } from './playlists/playlists.service';
 import { PluginsController } from './plugins/plugins.controller';
 import { PluginsService } from './plugins/plugins.service';
+import { RecoveryService } from './recovery/recovery.service';
+import { RetentionController } from './retention/retention.controller';
+import { RetentionService } from './retention/retention.service';
+import { SchedulesController } from './schedules/schedules.controller';
+import { SchedulesService } from './schedules/schedules.service';
 import { StrategiesController } from './strategies/strategies.controller';
 import { StrategiesService } from './strategies/strategies.service';
+import { WatchdogService } from './watchdog/watchdog.service';
 
 @Module({
   imports: [DalModule, CoreModule, AuthorizationModule],
   exports: [ClientFactory],
   providers: [
+    ApprovalsService,
     ClientFactory,
+    DeliveriesService,
+    DispatcherService,
     PlaylistsService,
     PluginsService,
+    RecoveryService,
+    RetentionService,
+    SchedulesService,
     StrategiesService,
+    WatchdogService,
   ],
   controllers: [
+    ApprovalsController,
+    DeliveriesController,
     OrchestratorController,
     PlaylistsController,
     PluginsController,
+    RetentionController,
+    SchedulesController,
     StrategiesController,
   ],
 })
@@ -1,5 +1,6 @@
 import { Test, TestingModule } from '@nestjs/testing';
 import { PlaylistsController } from './playlists.controller';
+import { PlaylistsService } from './playlists.service';
 
 describe('PlaylistsController', () => {
   let controller: PlaylistsController;
@@ -7,6 +8,7 @@ describe('PlaylistsController', () => {
   beforeEach(async () => {
     const module: TestingModule = await Test.createTestingModule({
       controllers: [PlaylistsController],
+      providers: [{ provide: PlaylistsService, useValue: {} }],
     }).compile();
 
     controller = module.get<PlaylistsController>(PlaylistsController);
@@ -1,7 +1,18 @@
-import { Controller, Get, Param, ParseIntPipe, Query } from '@nestjs/common';
+import {
+  Body,
+  Controller,
+  DefaultValuePipe,
+  Get,
+  Param,
+  ParseBoolPipe,
+  ParseIntPipe,
+  Post,
+  Query,
+} from '@nestjs/common';
 import { Logger } from 'src/decorators/logger.decorator';
 import { Playlist } from 'src/models/playlist.model';
 import { JSONLogger } from 'src/utils/logger';
+import { PlaylistStateResponse } from '../orchestrator.controller';
 import { PlaylistsService } from './playlists.service';
 
 /**
@@ -24,6 +35,7 @@ export class PlaylistsController {
    * @param {number} pageSize - The number of playlists per page.
    * @param {string} sort - The field to sort the playlists by.
    * @param {'asc' | 'desc'} order - The order of sorting, either ascending ('asc') or descending ('desc').
+   * @param {boolean} simulation - Whether to list the simulations instead of the real playlists. Defaults to false.
    * @returns {Promise<{ rows: Playlist[]; count: number }>} A promise that resolves to an object containing the list of playlists and the total count.
    */
   @Get()
@@ -32,20 +44,40 @@ export class PlaylistsController {
     @Query('pageSize', ParseIntPipe) pageSize: number,
     @Query('sort') sort: string,
     @Query('order') order: 'asc' | 'desc',
+    @Query('simulation', new DefaultValuePipe(false), ParseBoolPipe)
+    simulation: boolean,
   ): Promise<{ rows: Playlist[]; count: number }> {
-    return this.playlistService.getPlaylists(page, pageSize, sort, order);
+    return this.playlistService.getPlaylists(
+      page,
+      pageSize,
+      sort,
+      order,
+      simulation,
+    );
+  }
+
+  /**
+   * Retrieves the depth of the admission queue.
+   *
+   * @returns The number of queued playlists, in total and per strategy.
+   */
+  @Get('queue')
+  getQueue(): Promise<{ depth: number; strategies: Record<string, number> }> {
+    return this.playlistService.getQueue();
   }
 
   /**
    * Retrieves a playlist by its slug.
    *
    * @param {string} slug - The slug of the playlist to retrieve.
-   * @returns {Promise<object>} The playlist object combined with its context.
+   * @returns {Promise<object>} The playlist object, including its parent and child playlists, combined with its context.
    * @throws {Error} If the playlist is not found.
    */
   @Get(':slug')
   async getPlaylist(@Param('slug') slug: string): Promise<object> {
-    const playlist = (await this.playlistService.getPlaylist(slug))?.toJSON();
+    const playlist = (
+      await this.playlistService.getPlaylistWithLineage(slug)
+    )?.toJSON();
 
     if (playlist) {
       const context = await this.playlistService.getContext(playlist.id);
@@ -58,4 +90,80 @@ export class PlaylistsController {
 
     throw new Error('Playlist not found');
   }
+
+  /**
+   * Retrieves the slots a simulation ran, in order.
+   *
+   * @param {string} slug - The slug of the simulation.
+   * @returns The slots with the time each one was dispatched.
+   */
+  @Get(':slug/path')
+  getSimulationPath(
+    @Param('slug') slug: string,
+  ): Promise<{ slot: string; at: Date }[]> {
+    return this.playlistService.getSimulationPath(slug);
+  }
+
+  /**
+   * Retrieves the full output of a slot of a playlist, including outputs offloaded to blob storage.
+   *
+   * @param {string} slug - The slug of the playlist.
+   * @param {string} operation - The name of the slot.
+   * @returns {Promise<unknown>} The output of the slot.
+   */
+  @Get(':slug/outputs/:operation')
+  getSlotOutput(
+    @Param('slug') slug: string,
+    @Param('operation') operation: string,
+  ): Promise<unknown> {
+    return this.playlistService.getSlotOutput(slug, operation);
+  }
+
+  /**
+   * Cancels a playlist.
+   *
+   * @param {string} slug - The slug of the playlist to cancel.
+   * @returns {Promise<PlaylistStateResponse>} The new state of the playlist.
+   */
+  @Post(':slug/cancel')
+  cancelPlaylist(@Param('slug') slug: string): Promise<PlaylistStateResponse> {
+    return this.playlistService.cancel(slug);
+  }
+
+  /**
+   * Pauses a playlist.
+   *
+   * @param {string} slug - The slug of the playlist to pause.
+   * @returns {Promise<PlaylistStateResponse>} The new state of the playlist.
+   */
+  @Post(':slug/pause')
+  pausePlaylist(@Param('slug') slug: string): Promise<PlaylistStateResponse> {
+    return this.playlistService.pause(slug);
+  }
+
+  /**
+   * Resumes a paused playlist.
+   *
+   * @param {string} slug - The slug of the playlist to resume.
+   * @returns {Promise<PlaylistStateResponse>} The new state of the playlist.
+   */
+  @Post(':slug/resume')
+  resumePlaylist(@Param('slug') slug: string): Promise<PlaylistStateResponse> {
+    return this.playlistService.resume(slug);
+  }
+
+  /**
+   * Retries a failed playlist from a given slot.
+   *
+   * @param {string} slug - The slug of the playlist to retry.
+   * @param {string | number} fromSlot - The ID or name of the slot to retry from. Defaults to the slot that failed.
+   * @returns {Promise<PlaylistStateResponse>} The new state of the playlist.
+   */
+  @Post(':slug/retry')
+  retryPlaylist(
+    @Param('slug') slug: string,
+    @Body('fromSlot') fromSlot?: string | number,
+  ): Promise<PlaylistStateResponse> {
+    return this.playlistService.retry(slug, fromSlot);
+  }
 }
@@ -1,12 +1,80 @@
+import { ConflictException, NotFoundException } from '@nestjs/common';
+import { getModelToken as getMongooseModelToken } from '@nestjs/mongoose';
+import { getModelToken as getSequelizeModelToken } from '@nestjs/sequelize';
 import { Test, TestingModule } from '@nestjs/testing';
-import { PlaylistsService } from './playlists.service';
+import { Op, UniqueConstraintError } from 'sequelize';
+import { NotificationsService } from 'src/core/notifications/notifications.service';
+import { StorageService } from 'src/core/storage/storage.service';
+import { Approval } from 'src/models/approval.model';
+import { Delivery } from 'src/models/delivery.model';
+import { Dispatch } from 'src/models/dispatch.model';
+import { PlaylistContext } from 'src/models/playlist.context';
+import { Playlist, PlaylistStatus } from 'src/models/playlist.model';
+import { Plugin } from 'src/models/plugin.model';
+import { Slot, SlotAttempt, SlotStatus } from 'src/models/slot.model';
+import { StrategyVersion } from 'src/models/strategy-version.model';
+import { Strategy } from 'src/models/strategy.model';
+import { PluginsService } from '../plugins/plugins.service';
+import { StrategiesService } from '../strategies/strategies.service';
+import { FailureResolution, PlaylistsService } from './playlists.service';
 
 describe('PlaylistsService', () => {
   let service: PlaylistsService;
 
+  const strategiesService = {
+    findBySlug: jest.fn(),
+    resolveVersion: jest.fn(),
+    getVersionSlots: jest.fn(),
+  };
+  const notificationsService = {
+    refreshPlaylists: jest.fn(),
+    playlistProgress: jest.fn(),
+  };
+  const storageService = { get: jest.fn(), delete: jest.fn() };
+  const playlistModel = {
+    findOne: jest.fn(),
+    findAll: jest.fn(),
+    findByPk: jest.fn(),
+    create: jest.fn(),
+    update: jest.fn(),
+    sequelize: { transaction: jest.fn() },
+  };
+  const versionModel = { findAll: jest.fn() };
+  const strategyModel = { findAll: jest.fn() };
+  const pluginModel = { findAll: jest.fn() };
+  const deliveryModel = { create: jest.fn() };
+  const contextModel = {
+    findOne: jest.fn(),
+    findOneAndUpdate: jest.fn(),
+    create: jest.fn(),
+    updateOne: jest.fn(),
+  };
+
   beforeEach(async () => {
+    jest.resetAllMocks();
+
     const module: TestingModule = await Test.createTestingModule({
-      providers: [PlaylistsService],
+      providers: [
+        PlaylistsService,
+        { provide: PluginsService, useValue: {} },
+        { provide: StrategiesService, useValue: strategiesService },
+        { provide: NotificationsService, useValue: notificationsService },
+        { provide: StorageService, useValue: storageService },
+        { provide: getSequelizeModelToken(Playlist), useValue: playlistModel },
+        { provide: getSequelizeModelToken(Approval), useValue: {} },
+        { provide: getSequelizeModelToken(Dispatch), useValue: {} },
+        { provide: getSequelizeModelToken(Delivery), useValue: deliveryModel },
+        { provide: getSequelizeModelToken(Strategy), useValue: strategyModel },
+        {
+          provide: getSequelizeModelToken(StrategyVersion),
+          useValue: versionModel,
+        },
+        { provide: getSequelizeModelToken(Plugin), useValue: pluginModel },
+        {
+          provide: getMongooseModelToken(PlaylistContext.name),
+          useValue: contextModel,
+        },
+      ],
     }).compile();
 
     service = module.get<PlaylistsService>(PlaylistsService);
@@ -15,4 +83,1047 @@ describe('PlaylistsService', () => {
   it('should be defined', () => {
     expect(service).toBeDefined();
   });
+
+  describe('drain', () => {
+    /**
+     * Versions 10 and 20 use plugins 100 and 200, version 30 uses both 100 and 300,
+     * and version 40 uses 300 alone.
+     */
+    const versions = [
+      { id: 10, slots: [{ plugins_id: 100 }] },
+      { id: 20, slots: [{ plugins_id: 200 }] },
+      { id: 30, slots: [{ plugins_id: 100 }, { plugins_id: 300 }] },
+      { id: 40, slots: [{ plugins_id: 300 }, { plugins_id: null }] },
+    ];
+
+    const queued = (
+      id: number,
+      strategies_id: number,
+      strategy_versions_id: number,
+      parent_playlist_id: number | null = null,
+    ) => ({
+      id,
+      strategies_id,
+      strategy_versions_id,
+      parent_playlist_id,
+      update: jest.fn(),
+    });
+
+    let run: jest.SpyInstance;
+
+    /**
+     * Drains the queue with the given active playlists and limits, and returns the
+     * IDs of the admitted playlists.
+     */
+    const admit = async (
+      waiting: ReturnType<typeof queued>[],
+      active: object[],
+      limits: {
+        strategies?: Record<number, number>;
+        plugins?: Record<number, number>;
+      },
+    ): Promise<number[]> => {
+      playlistModel.findAll
+        .mockResolvedValueOnce(waiting)
+        .mockResolvedValueOnce(active);
+      versionModel.findAll.mockResolvedValue(versions);
+      strategyModel.findAll.mockResolvedValue(
+        Object.entries(limits.strategies || {}).map(([id, max]) => ({
+          id: Number(id),
+          max_concurrency: max,
+        })),
+      );
+      pluginModel.findAll.mockResolvedValue(
+        Object.entries(limits.plugins || {}).map(([id, max]) => ({
+          id: Number(id),
+          max_concurrency: max,
+        })),
+      );
+
+      await service.drain();
+
+      const admitted = waiting
+        .filter(({ update }) => update.mock.calls.length)
+        .map(({ id }) => id);
+      for (const playlist of waiting.filter(({ id }) =>
+        admitted.includes(id),
+      )) {
+        expect(playlist.update).toHaveBeenCalledWith(
+          expect.objectContaining({ status: PlaylistStatus.RUNNING }),
+          { transaction: expect.any(Object) },
+        );
+        expect(run).toHaveBeenCalledWith(playlist, { id: playlist.id });
+      }
+      expect(run).toHaveBeenCalledTimes(admitted.length);
+
+      return admitted;
+    };
+
+    beforeEach(() => {
+      run = jest.spyOn(service, 'run').mockResolvedValue();
+      playlistModel.sequelize.transaction.mockImplementation(
+        (callback: (transaction: object) => Promise<unknown>) =>
+          callback({ LOCK: { UPDATE: 'UPDATE' } }),
+      );
+      contextModel.findOne.mockImplementation(({ id }: { id: number }) =>
+        Promise.resolve({ id }),
+      );
+    });
+
+    it('should hold playlists whose strategy is at its limit', async () => {
+      const admitted = await admit(
+        [queued(2, 1, 10), queued(3, 2, 20)],
+        [{ id: 1, strategies_id: 1, strategy_versions_id: 10 }],
+        { strategies: { 1: 1 } },
+      );
+
+      expect(admitted).toEqual([3]);
+    });
+
+    it('should hold playlists using a plugin at its limit', async () => {
+      const admitted = await admit(
+        [queued(3, 4, 10), queued(4, 5, 20)],
+        [
+          { id: 1, strategies_id: 3, strategy_versions_id: 10 },
+          { id: 2, strategies_id: 3, strategy_versions_id: 30 },
+        ],
+        { plugins: { 100: 2 } },
+      );
+
+      expect(admitted).toEqual([4]);
+    });
+
+    it('should not let later playlists overtake a blocked one', async () => {
+      const admitted = await admit(
+        [
+          queued(2, 5, 30),
+          queued(3, 6, 40),
+          queued(4, 5, 20),
+          queued(5, 7, 20),
+        ],
+        [{ id: 1, strategies_id: 3, strategy_versions_id: 10 }],
+        { plugins: { 100: 1 } },
+      );
+
+      /**
+       * 2 waits for plugin 100, so 3 can't take plugin 300 and 4 can't take
+       * strategy 5 ahead of it, while 5 shares nothing with it.
+       */
+      expect(admitted).toEqual([5]);
+    });
+
+    it('should let a child use the place its parent holds', async () => {
+      const admitted = await admit(
+        [queued(2, 1, 10, 1), queued(3, 1, 10)],
+        [
+          {
+            id: 1,
+            strategies_id: 1,
+            strategy_versions_id: 10,
+            parent_playlist_id: null,
+          },
+        ],
+        { strategies: { 1: 1 }, plugins: { 100: 1 } },
+      );
+
+      expect(admitted).toEqual([2]);
+    });
+
+    it('should not admit anything when the admission fails', async () => {
+      playlistModel.sequelize.transaction.mockRejectedValue(
+        new Error('deadlock'),
+      );
+
+      await service.drain();
+
+      expect(run).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('advance', () => {
+    /**
+     * 1 and 2 both lead to 3, which needs the outputs of both.
+     */
+    const sequence = () => [
+      {
+        id: 1,
+        name: 'one',
+        status: SlotStatus.COMPLETE,
+        default_next_slot_id: 3,
+      },
+      {
+        id: 2,
+        name: 'two',
+        status: SlotStatus.RUNNING,
+        default_next_slot_id: 3,
+      },
+      { id: 3, name: 'three', min_outputs: 2 },
+    ];
+
+    const playlist = () => ({
+      id: 1,
+      slug: 'playlist',
+      status: PlaylistStatus.RUNNING,
+      save: jest.fn(),
+      reload: jest.fn(),
+      update: jest.fn(),
+    });
+
+    let run: jest.SpyInstance;
+    let drain: jest.SpyInstance;
+
+    beforeEach(() => {
+      run = jest.spyOn(service, 'run').mockResolvedValue();
+      drain = jest.spyOn(service, 'drain').mockResolvedValue();
+    });
+
+    it('should wait for min_outputs branches before running a join', async () => {
+      const running = playlist();
+      const context = { id: 1, sequence: sequence() };
+      contextModel.findOne.mockResolvedValue(context);
+      contextModel.findOneAndUpdate.mockResolvedValueOnce({
+        sequence: [{}, {}, { arrivals: ['one'] }],
+      });
+
+      await service.advance(
+        running as unknown as Playlist,
+        context as never,
+        0,
+      );
+
+      expect(contextModel.findOneAndUpdate).toHaveBeenCalledWith(
+        { id: 1 },
+        { $addToSet: { 'sequence.2.arrivals': 'one' } },
+        { new: true },
+      );
+      expect(run).not.toHaveBeenCalled();
+      expect(playlistModel.update).not.toHaveBeenCalled();
+
+      context.sequence[1].status = SlotStatus.COMPLETE;
+      contextModel.findOneAndUpdate.mockResolvedValueOnce({
+        sequence: [{}, {}, { arrivals: ['one', 'two'] }],
+      });
+      contextModel.updateOne.mockResolvedValueOnce({ modifiedCount: 1 });
+
+      await service.advance(
+        running as unknown as Playlist,
+        context as never,
+        1,
+      );
+
+      expect(contextModel.updateOne).toHaveBeenCalledWith(
+        { id: 1, 'sequence.2.status': null },
+        { $set: { 'sequence.2.status': SlotStatus.RUNNING } },
+      );
+      expect(run).toHaveBeenCalledTimes(1);
+      expect(run).toHaveBeenCalledWith(running, context, 3);
+    });
+
+    it('should run a join only once when the last branches arrive together', async () => {
+      const context = {
+        id: 1,
+        sequence: sequence().map((slot) => ({
+          ...slot,
+          status: slot.status && SlotStatus.COMPLETE,
+        })),
+      };
+      contextModel.findOne.mockResolvedValue({
+        id: 1,
+        sequence: [{}, {}, { status: SlotStatus.RUNNING }],
+      });
+      contextModel.findOneAndUpdate.mockResolvedValue({
+        sequence: [{}, {}, { arrivals: ['one', 'two'] }],
+      });
+      contextModel.updateOne
+        .mockResolvedValueOnce({ modifiedCount: 1 })
+        .mockResolvedValueOnce({ modifiedCount: 0 });
+
+      await Promise.all([
+        service.advance(playlist() as never, context as never, 0),
+        service.advance(playlist() as never, context as never, 1),
+      ]);
+
+      expect(run).toHaveBeenCalledTimes(1);
+      expect(playlistModel.update).not.toHaveBeenCalled();
+    });
+
+    it('should finish the playlist exactly once', async () => {
+      const context = {
+        id: 1,
+        origin: 'localhost:50051',
+        sequence: [{ id: 1, name: 'one', status: SlotStatus.COMPLETE }],
+      };
+      contextModel.findOne.mockResolvedValue(context);
+      playlistModel.update
+        .mockResolvedValueOnce([1])
+        .mockResolvedValueOnce([0]);
+
+      await Promise.all([
+        service.advance(playlist() as never, context as never, 0),
+        service.advance(playlist() as never, context as never, 0),
+      ]);
+
+      expect(playlistModel.update).toHaveBeenCalledTimes(2);
+      expect(playlistModel.update).toHaveBeenCalledWith(
+        expect.objectContaining({ status: PlaylistStatus.COMPLETE }),
+        { where: { id: 1, status: PlaylistStatus.RUNNING } },
+      );
+      expect(drain).toHaveBeenCalledTimes(1);
+      expect(deliveryModel.create).toHaveBeenCalledTimes(1);
+      expect(deliveryModel.create).toHaveBeenCalledWith(
+        expect.objectContaining({ playlists_id: 1, origin: 'localhost:50051' }),
+      );
+    });
+
+    it('should crash the playlist when a join can no longer be reached', async () => {
+      const starved = playlist();
+      const context = {
+        id: 1,
+        sequence: [
+          { id: 1, name: 'one', status: SlotStatus.COMPLETE },
+          { id: 2, name: 'two', status: SlotStatus.FAILED },
+          { id: 3, name: 'three', min_outputs: 2, arrivals: ['one'] },
+        ],
+      };
+      contextModel.findOne.mockResolvedValue(context);
+      starved.update.mockResolvedValue(starved);
+
+      await service.advance(
+        starved as unknown as Playlist,
+        context as never,
+        0,
+      );
+
+      expect(starved.update).toHaveBeenCalledWith(
+        expect.objectContaining({ status: PlaylistStatus.FAILED }),
+      );
+      expect(playlistModel.update).not.toHaveBeenCalled();
+      expect(deliveryModel.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('pause and resume', () => {
+    const playlist = (status: PlaylistStatus) => ({
+      id: 1,
+      slug: 'playlist',
+      status,
+      reload: jest.fn(),
+    });
+
+    let advance: jest.SpyInstance;
+    let run: jest.SpyInstance;
+
+    beforeEach(() => {
+      advance = jest.spyOn(service, 'advance').mockResolvedValue();
+      run = jest.spyOn(service, 'run').mockResolvedValue();
+    });
+
+    it('should hold the outputs of a paused playlist', async () => {
+      playlistModel.findOne.mockResolvedValue(playlist(PlaylistStatus.PAUSED));
+      contextModel.findOne.mockResolvedValue({
+        id: 1,
+        sequence: [{ id: 1, name: 'one', status: SlotStatus.RUNNING }],
+      });
+      contextModel.updateOne.mockResolvedValue({ modifiedCount: 1 });
+
+      await service.segue({
+        slug: 'playlist',
+        operation: 'one',
+        output: '{"a":1}',
+      });
+
+      expect(contextModel.updateOne).toHaveBeenCalledWith(
+        { id: 1, 'sequence.0.status': SlotStatus.RUNNING },
+        {
+          $set: expect.objectContaining({
+            'sequence.0.output': { a: 1 },
+            'sequence.0.status': SlotStatus.HELD,
+          }),
+        },
+      );
+      expect(advance).not.toHaveBeenCalled();
+    });
+
+    it('should replay the held outputs and run the pending slots on resume', async () => {
+      const resumed = playlist(PlaylistStatus.PAUSED);
+      const context = {
+        id: 1,
+        sequence: [
+          { id: 1, name: 'one', status: SlotStatus.HELD },
+          { id: 2, name: 'two', status: SlotStatus.PENDING },
+          { id: 3, name: 'three', status: SlotStatus.COMPLETE },
+        ],
+        markModified: jest.fn(),
+        save: jest.fn(),
+      };
+      playlistModel.findOne.mockResolvedValue(resumed);
+      playlistModel.update.mockResolvedValue([1]);
+      contextModel.findOne.mockResolvedValue(context);
+
+      await service.resume('playlist');
+
+      expect(playlistModel.update).toHaveBeenCalledWith(
+        expect.objectContaining({ status: PlaylistStatus.RUNNING }),
+        { where: { id: 1, status: [PlaylistStatus.PAUSED] } },
+      );
+      expect(context.sequence[0].status).toBe(SlotStatus.COMPLETE);
+      expect(context.save).toHaveBeenCalled();
+      expect(advance).toHaveBeenCalledTimes(1);
+      expect(advance).toHaveBeenCalledWith(resumed, context, 0);
+      expect(run).toHaveBeenCalledTimes(1);
+      expect(run).toHaveBeenCalledWith(resumed, context, 2);
+    });
+
+    it('should refuse to pause a playlist that is not running', async () => {
+      playlistModel.findOne.mockResolvedValue(
+        playlist(PlaylistStatus.COMPLETE),
+      );
+      playlistModel.update.mockResolvedValue([0]);
+
+      await expect(service.pause('playlist')).rejects.toThrow(
+        new ConflictException(
+          'Playlist with slug playlist cannot move from COMPLETE to PAUSED.',
+        ),
+      );
+      expect(playlistModel.update).toHaveBeenCalledWith(
+        expect.objectContaining({ status: PlaylistStatus.PAUSED }),
+        {
+          where: {
+            id: 1,
+            status: [PlaylistStatus.CREATED, PlaylistStatus.RUNNING],
+          },
+        },
+      );
+    });
+
+    it('should refuse to resume a playlist that is not paused', async () => {
+      playlistModel.findOne.mockResolvedValue(playlist(PlaylistStatus.RUNNING));
+      playlistModel.update.mockResolvedValue([0]);
+
+      await expect(service.resume('playlist')).rejects.toBeInstanceOf(
+        ConflictException,
+      );
+      expect(contextModel.findOne).not.toHaveBeenCalled();
+      expect(run).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('trigger', () => {
+    const day = 24 * 60 * 60 * 1000;
+    const strategy = { id: 3, slug: 'strategy' };
+    const trigger = { slug: 'strategy', context: {}, origin: '' };
+
+    beforeEach(() => {
+      jest.spyOn(service, 'drain').mockResolvedValue();
+      strategiesService.findBySlug.mockResolvedValue(strategy);
+      strategiesService.resolveVersion.mockResolvedValue({
+        id: 30,
+        root_slot: 7,
+      });
+      strategiesService.getVersionSlots.mockResolvedValue([{ id: 7 }]);
+    });
+
+    it('should return the playlist triggered with the same key within the window', async () => {
+      playlistModel.findOne.mockResolvedValue({
+        slug: 'existing',
+        status: PlaylistStatus.RUNNING,
+      });
+
+      expect(
+        await service.trigger({ ...trigger, idempotency_key: 'key' }),
+      ).toEqual({ slug: 'existing', status: PlaylistStatus.RUNNING });
+
+      const [{ where }] = playlistModel.findOne.mock.calls[0] as [
+        { where: { created_at: Record<symbol, Date> } },
+      ];
+      expect(where).toMatchObject({ strategies_id: 3, idempotency_key: 'key' });
+      expect(Date.now() - where.created_at[Op.gte].getTime()).toBeCloseTo(
+        day,
+        -3,
+      );
+      expect(playlistModel.create).not.toHaveBeenCalled();
+    });
+
+    it('should release a key that fell out of the window and start a new playlist', async () => {
+      playlistModel.findOne.mockResolvedValue(null);
+      playlistModel.create.mockResolvedValue({
+        id: 2,
+        slug: 'new',
+        status: PlaylistStatus.QUEUED,
+        reload: jest.fn(),
+      });
+
+      expect(
+        await service.trigger({ ...trigger, idempotency_key: 'key' }),
+      ).toEqual({ slug: 'new', status: PlaylistStatus.QUEUED });
+
+      const [values, { where }] = playlistModel.update.mock.calls[0] as [
+        object,
+        { where: { created_at: Record<symbol, Date> } },
+      ];
+      expect(values).toEqual({ idempotency_key: null });
+      expect(where).toMatchObject({ strategies_id: 3, idempotency_key: 'key' });
+      expect(where.created_at[Op.lt]).toBeInstanceOf(Date);
+      expect(playlistModel.create).toHaveBeenCalledWith(
+        expect.objectContaining({ idempotency_key: 'key' }),
+      );
+    });
+
+    it('should return the playlist of a concurrent trigger with the same key', async () => {
+      playlistModel.findOne.mockResolvedValueOnce(null).mockResolvedValueOnce({
+        slug: 'concurrent',
+        status: PlaylistStatus.QUEUED,
+      });
+      playlistModel.create.mockRejectedValue(new UniqueConstraintError({}));
+
+      expect(
+        await service.trigger({ ...trigger, idempotency_key: 'key' }),
+      ).toEqual({ slug: 'concurrent', status: PlaylistStatus.QUEUED });
+      expect(playlistModel.findOne).toHaveBeenCalledTimes(2);
+    });
+
+    it('should not swallow unique constraint errors without a key', async () => {
+      playlistModel.create.mockRejectedValue(new UniqueConstraintError({}));
+
+      await expect(service.trigger(trigger)).rejects.toBeInstanceOf(
+        UniqueConstraintError,
+      );
+      expect(playlistModel.findOne).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('spawn and report', () => {
+    const parent = () => ({
+      id: 1,
+      slug: 'parent',
+      status: PlaylistStatus.RUNNING,
+      simulation: false,
+    });
+
+    const parentContext = () => ({
+      id: 1,
+      metadata: { a: 1, b: 2 },
+      sequence: [
+        {
+          id: 5,
+          name: 'sub',
+          status: SlotStatus.RUNNING,
+          metadata: { strategy: 'child-strategy', context: ['a'], version: 2 },
+        },
+      ],
+    });
+
+    const child = (status: PlaylistStatus) => ({
+      id: 2,
+      slug: 'child',
+      status,
+      parent_playlist_id: 1,
+      parent_slot: 'sub',
+    });
+
+    const spawn = (playlist: object, context: object, slotId: number) =>
+      (
+        service as unknown as {
+          spawn(
+            playlist: object,
+            context: object,
+            slotId: number,
+          ): Promise<void>;
+        }
+      ).spawn(playlist, context, slotId);
+
+    let fail: jest.SpyInstance;
+    let segue: jest.SpyInstance;
+
+    beforeEach(() => {
+      jest.spyOn(service, 'drain').mockResolvedValue();
+      fail = jest
+        .spyOn(service, 'fail')
+        .mockResolvedValue(FailureResolution.CRASHED);
+      segue = jest.spyOn(service, 'segue').mockResolvedValue({ success: true });
+    });
+
+    it('should start the strategy of the slot as a child playlist', async () => {
+      const spawning = parent();
+      const strategy = { id: 3, slug: 'child-strategy' };
+      strategiesService.findBySlug.mockResolvedValue(strategy);
+      strategiesService.resolveVersion.mockResolvedValue({
+        id: 30,
+        root_slot: 7,
+      });
+      strategiesService.getVersionSlots.mockResolvedValue([{ id: 7 }]);
+      playlistModel.create.mockResolvedValue({
+        ...child(PlaylistStatus.QUEUED),
+        reload: jest.fn(),
+      });
+
+      await spawn(spawning, parentContext(), 5);
+
+      expect(strategiesService.resolveVersion).toHaveBeenCalledWith(
+        strategy,
+        2,
+      );
+      expect(playlistModel.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          strategies_id: 3,
+          strategy_versions_id: 30,
+          status: PlaylistStatus.QUEUED,
+          parent_playlist_id: 1,
+          parent_slot: 'sub',
+        }),
+      );
+      expect(contextModel.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          id: 2,
+          metadata: { a: 1 },
+          sequence: [{ id: 7 }],
+        }),
+      );
+      expect(fail).not.toHaveBeenCalled();
+    });
+
+    it('should fail the slot when its strategy does not exist', async () => {
+      const spawning = parent();
+      const context = parentContext();
+      strategiesService.findBySlug.mockResolvedValue(null);
+
+      await spawn(spawning, context, 5);
+
+      expect(playlistModel.create).not.toHaveBeenCalled();
+      expect(fail).toHaveBeenCalledWith(
+        spawning,
+        context,
+        5,
+        expect.objectContaining({ code: 'SPAWN_FAILED', retryable: false }),
+      );
+    });
+
+    it('should resume the parent with the outputs of a complete child', async () => {
+      playlistModel.findByPk.mockResolvedValue(parent());
+      contextModel.findOne.mockResolvedValue(parentContext());
+
+      await service.report(
+        child(PlaylistStatus.COMPLETE) as never,
+        {
+          sequence: [
+            { id: 7, name: 'one', output: { score: 98 } },
+            { id: 8, name: 'two' },
+          ],
+        } as never,
+      );
+
+      expect(segue).toHaveBeenCalledWith({
+        slug: 'parent',
+        operation: 'sub',
+        output: JSON.stringify({ one: { score: 98 } }),
+      });
+      expect(fail).not.toHaveBeenCalled();
+    });
+
+    it.each([
+      [PlaylistStatus.FAILED, 'CHILD_FAILED', true],
+      [PlaylistStatus.CANCELLED, 'CHILD_CANCELLED', false],
+    ])(
+      'should fail the parent slot when the child is %s',
+      async (status, code, retryable) => {
+        const waiting = parent();
+        const context = parentContext();
+        playlistModel.findByPk.mockResolvedValue(waiting);
+        contextModel.findOne.mockResolvedValue(context);
+
+        await service.report(child(status) as never);
+
+        expect(fail).toHaveBeenCalledWith(
+          waiting,
+          context,
+          5,
+          expect.objectContaining({ code, retryable }),
+        );
+        expect(segue).not.toHaveBeenCalled();
+      },
+    );
+  });
+
+  describe('fail', () => {
+    const playlist = () => ({
+      id: 1,
+      slug: 'playlist',
+      status: PlaylistStatus.RUNNING,
+      update: jest.fn(),
+    });
+
+    const context = (error_slot_id?: number) => ({
+      id: 1,
+      sequence: [
+        {
+          id: 1,
+          name: 'one',
+          status: SlotStatus.RUNNING,
+          max_retries: 1,
+          error_slot_id,
+          attempts: [{ success: false }, { success: true }] as SlotAttempt[],
+        },
+        { id: 9, name: 'on-error' },
+      ] as Partial<Slot>[],
+      markModified: jest.fn(),
+      save: jest.fn(),
+    });
+
+    const error = { code: 'TIMEOUT', message: 'Too slow.', retryable: true };
+
+    let run: jest.SpyInstance;
+    let crash: jest.SpyInstance;
+
+    beforeEach(() => {
+      run = jest.spyOn(service, 'run').mockResolvedValue();
+      crash = jest.spyOn(service, 'crash').mockResolvedValue({} as Playlist);
+    });
+
+    it('should retry the slot while it has retries left', async () => {
+      const failing = playlist();
+      const retrying = context(9);
+      retrying.sequence[0].attempts = [{ success: true } as SlotAttempt];
+
+      expect(
+        await service.fail(failing as never, retrying as never, 1, error),
+      ).toBe(FailureResolution.RETRIED);
+      expect(retrying.sequence[0].attempts).toEqual([
+        { success: false, error: 'Too slow.' },
+      ]);
+      expect(run).toHaveBeenCalledWith(
+        failing,
+        retrying,
+        1,
+        expect.any(Number),
+      );
+      expect(failing.update).not.toHaveBeenCalled();
+    });
+
+    it('should route to the error slot once the retries run out', async () => {
+      const failing = playlist();
+      const routed = context(9);
+
+      expect(
+        await service.fail(failing as never, routed as never, 1, error),
+      ).toBe(FailureResolution.ROUTED);
+      expect(routed.sequence[0].status).toBe(SlotStatus.FAILED);
+      expect(routed.sequence[0].error).toMatchObject({ code: 'TIMEOUT' });
+      expect(failing.update).toHaveBeenCalledWith({ current_slot_id: 9 });
+      expect(run).toHaveBeenCalledWith(failing, routed, 9);
+      expect(crash).not.toHaveBeenCalled();
+    });
+
+    it('should crash the playlist once the retries run out without an error slot', async () => {
+      const failing = playlist();
+
+      expect(
+        await service.fail(failing as never, context() as never, 1, error),
+      ).toBe(FailureResolution.CRASHED);
+      expect(crash).toHaveBeenCalledWith(failing);
+      expect(run).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('heartbeat', () => {
+    const heartbeat = {
+      slug: 'playlist',
+      operation: 'one',
+      percent: 40,
+      message: 'Crunching',
+    };
+
+    beforeEach(() => {
+      playlistModel.findOne.mockResolvedValue({ id: 1, slug: 'playlist' });
+      contextModel.findOne.mockResolvedValue({
+        id: 1,
+        sequence: [
+          {
+            id: 1,
+            name: 'one',
+            status: SlotStatus.RUNNING,
+            timeout_seconds: 60,
+            deadline: new Date(),
+          },
+        ],
+      });
+    });
+
+    it('should record the progress and push the deadline back', async () => {
+      contextModel.updateOne.mockResolvedValue({ modifiedCount: 1 });
+
+      expect(await service.heartbeat(heartbeat)).toEqual({ success: true });
+
+      const [filter, { $set }] = contextModel.updateOne.mock.calls[0] as [
+        object,
+        { $set: Record<string, { percent: number } | Date> },
+      ];
+      expect(filter).toEqual({
+        id: 1,
+        'sequence.0.status': SlotStatus.RUNNING,
+      });
+      expect($set['sequence.0.progress']).toMatchObject({ percent: 40 });
+      expect(
+        ($set['sequence.0.deadline'] as Date).getTime() - Date.now(),
+      ).toBeGreaterThan(55 * 1000);
+      expect(notificationsService.playlistProgress).toHaveBeenCalledWith(
+        'playlist',
+        'one',
+        40,
+        'Crunching',
+      );
+    });
+
+    it('should reject heartbeats for a slot that is not running', async () => {
+      contextModel.updateOne.mockResolvedValue({ modifiedCount: 0 });
+
+      expect(await service.heartbeat(heartbeat)).toEqual({ success: false });
+      expect(notificationsService.playlistProgress).not.toHaveBeenCalled();
+    });
+
+    it('should refuse heartbeats for unknown slots', async () => {
+      await expect(
+        service.heartbeat({ ...heartbeat, operation: 'two' }),
+      ).rejects.toThrow('Slot two not found');
+      expect(contextModel.updateOne).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('retry', () => {
+    /**
+     * 1 → 2 → 3 fans out to 4 and 5, which join on 6.
+     */
+    const sequence = () => [
+      {
+        id: 1,
+        name: 'one',
+        status: SlotStatus.COMPLETE,
+        output: { a: 1 },
+        default_next_slot_id: 2,
+      },
+      {
+        id: 2,
+        name: 'two',
+        status: SlotStatus.COMPLETE,
+        output: { b: 2 },
+        default_next_slot_id: 3,
+      },
+      {
+        id: 3,
+        name: 'three',
+        status: SlotStatus.COMPLETE,
+        output: {},
+        fan_out_slot_ids: [4, 5],
+      },
+      {
+        id: 4,
+        name: 'four',
+        status: SlotStatus.FAILED,
+        error: 'boom',
+        attempts: [{}],
+        default_next_slot_id: 6,
+      },
+      {
+        id: 5,
+        name: 'five',
+        status: SlotStatus.COMPLETE,
+        output: null,
+        output_blob: { key: 'outputs/playlist/five.json', size: 10 },
+        default_next_slot_id: 6,
+      },
+      { id: 6, name: 'six', arrivals: ['five'] },
+    ];
+
+    const playlist = (status = PlaylistStatus.FAILED) => ({
+      id: 1,
+      slug: 'playlist',
+      status,
+      current_slot_id: 4,
+      $get: jest.fn().mockResolvedValue({ root_slot: 1 }),
+      update: jest.fn(),
+      reload: jest.fn(),
+    });
+
+    let drain: jest.SpyInstance;
+
+    beforeEach(() => {
+      drain = jest.spyOn(service, 'drain').mockResolvedValue();
+      playlistModel.update.mockResolvedValue([1]);
+    });
+
+    it('should clear the failed slot and what follows it by default', async () => {
+      const failed = playlist();
+      playlistModel.findOne.mockResolvedValue(failed);
+      contextModel.findOne.mockResolvedValue({ id: 1, sequence: sequence() });
+
+      await service.retry('playlist');
+
+      expect(playlistModel.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          status: PlaylistStatus.QUEUED,
+          current_slot_id: 4,
+        }),
+        { where: { id: 1, status: [PlaylistStatus.FAILED] } },
+      );
+      expect(contextModel.updateOne).toHaveBeenCalledWith(
+        { id: 1 },
+        {
+          $unset: expect.objectContaining({
+            'sequence.3.output': '',
+            'sequence.3.error': '',
+            'sequence.3.attempts': '',
+            'sequence.3.status': '',
+            'sequence.5.status': '',
+          }),
+          $set: { 'sequence.5.arrivals': ['five'] },
+        },
+      );
+
+      const { $unset } = contextModel.updateOne.mock.calls[0][1];
+      expect(
+        Object.keys($unset).some((key) => key.startsWith('sequence.4.')),
+      ).toBe(false);
+      expect(
+        Object.keys($unset).some((key) => key.startsWith('sequence.2.')),
+      ).toBe(false);
+
+      expect(drain).toHaveBeenCalled();
+    });
+
+    it('should clear the context before queueing the playlist again', async () => {
+      playlistModel.findOne.mockResolvedValue(playlist());
+      contextModel.findOne.mockResolvedValue({ id: 1, sequence: sequence() });
+
+      await service.retry('playlist');
+
+      const [cleared] = contextModel.updateOne.mock.invocationCallOrder;
+      const [queued] = playlistModel.update.mock.invocationCallOrder;
+      const [drained] = drain.mock.invocationCallOrder;
+      expect(cleared).toBeLessThan(queued);
+      expect(queued).toBeLessThan(drained);
+    });
+
+    it('should drop the outputs and blobs of every slot after the chosen one', async () => {
+      playlistModel.findOne.mockResolvedValue(playlist());
+      contextModel.findOne.mockResolvedValue({ id: 1, sequence: sequence() });
+
+      await service.retry('playlist', 'two');
+
+      const { $unset, $set } = contextModel.updateOne.mock.calls[0][1];
+      expect($unset).not.toHaveProperty('sequence.0.output');
+      expect($unset).toHaveProperty(['sequence.1.output']);
+      expect($unset).toHaveProperty(['sequence.4.output']);
+      expect($set).toEqual({ 'sequence.5.arrivals': [] });
+      expect(storageService.delete).toHaveBeenCalledWith(
+        'outputs/playlist/five.json',
+      );
+    });
+
+    it('should refuse playlists that have not failed', async () => {
+      playlistModel.findOne.mockResolvedValue(playlist(PlaylistStatus.RUNNING));
+
+      await expect(service.retry('playlist')).rejects.toThrow(
+        new ConflictException(
+          'Playlist with slug playlist cannot be retried while RUNNING.',
+        ),
+      );
+      expect(contextModel.updateOne).not.toHaveBeenCalled();
+    });
+
+    it('should refuse unknown slots', async () => {
+      playlistModel.findOne.mockResolvedValue(playlist());
+      contextModel.findOne.mockResolvedValue({ id: 1, sequence: sequence() });
+
+      await expect(service.retry('playlist', 'seven')).rejects.toBeInstanceOf(
+        NotFoundException,
+      );
+      expect(playlistModel.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('cancel', () => {
+    const playlist = (id: number, slug: string) => ({
+      id,
+      slug,
+      status: PlaylistStatus.CANCELLED,
+      reload: jest.fn(),
+    });
+
+    beforeEach(() => {
+      jest.spyOn(service, 'drain').mockResolvedValue();
+      playlistModel.update.mockResolvedValue([1]);
+    });
+
+    it('should cancel the children that are still queued', async () => {
+      playlistModel.findOne
+        .mockResolvedValueOnce(playlist(1, 'parent'))
+        .mockResolvedValueOnce(playlist(2, 'child'));
+      playlistModel.findAll
+        .mockResolvedValueOnce([{ slug: 'child' }])
+        .mockResolvedValueOnce([]);
+
+      await service.cancel('parent');
+
+      expect(playlistModel.findAll).toHaveBeenCalledWith({
+        where: {
+          parent_playlist_id: 1,
+          status: expect.arrayContaining([PlaylistStatus.QUEUED]),
+        },
+      });
+      expect(playlistModel.update).toHaveBeenCalledWith(
+        expect.objectContaining({ status: PlaylistStatus.CANCELLED }),
+        {
+          where: {
+            id: 2,
+            status: expect.arrayContaining([PlaylistStatus.QUEUED]),
+          },
+        },
+      );
+    });
+  });
+
+  describe('getSlotOutput', () => {
+    beforeEach(() => {
+      playlistModel.findOne.mockResolvedValue({ id: 1, slug: 'playlist' });
+    });
+
+    it('should load offloaded outputs from their blob', async () => {
+      contextModel.findOne.mockResolvedValue({
+        id: 1,
+        sequence: [
+          {
+            name: 'audit',
+            output: null,
+            output_blob: { key: 'outputs/playlist/audit.json', size: 12 },
+          },
+        ],
+      });
+      storageService.get.mockResolvedValue(Buffer.from('{"score":98}'));
+
+      expect(await service.getSlotOutput('playlist', 'audit')).toEqual({
+        score: 98,
+      });
+      expect(storageService.get).toHaveBeenCalledWith(
+        'outputs/playlist/audit.json',
+      );
+    });
+
+    it('should answer 404 for unknown slots', async () => {
+      contextModel.findOne.mockResolvedValue({ id: 1, sequence: [] });
+
+      await expect(
+        service.getSlotOutput('playlist', 'audit'),
+      ).rejects.toBeInstanceOf(NotFoundException);
+    });
+
+    it('should never follow keys found in the output itself', async () => {
+      const output = { blob_key: 'outputs/other/audit.json', size: 12 };
+      contextModel.findOne.mockResolvedValue({
+        id: 1,
+        sequence: [{ name: 'audit', output }],
+      });
+
+      expect(await service.getSlotOutput('playlist', 'audit')).toEqual(output);
+      expect(storageService.get).not.toHaveBeenCalled();
+    });
+  });
 });
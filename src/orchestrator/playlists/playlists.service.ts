@@ -1,33 +1,97 @@
-import { forwardRef, Inject, Injectable } from '@nestjs/common';
+import { status as GrpcStatus } from '@grpc/grpc-js';
+import {
+  BadRequestException,
+  ConflictException,
+  forwardRef,
+  Inject,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { RpcException } from '@nestjs/microservices';
 import { InjectModel as InjectMongooseModel } from '@nestjs/mongoose';
 import { InjectModel as InjectSequelizeModel } from '@nestjs/sequelize';
 import { Model } from 'mongoose';
+import { Op, UniqueConstraintError } from 'sequelize';
 import { NotificationsService } from 'src/core/notifications/notifications.service';
+import { StorageService } from 'src/core/storage/storage.service';
 import { Logger } from 'src/decorators/logger.decorator';
+import { Approval, ApprovalStatus } from 'src/models/approval.model';
 import {
   PlaylistContext,
   PlaylistContextDocument,
 } from 'src/models/playlist.context';
+import { Delivery, DeliveryMode } from 'src/models/delivery.model';
+import { Dispatch } from 'src/models/dispatch.model';
 import { Playlist, PlaylistStatus } from 'src/models/playlist.model';
+import { Plugin } from 'src/models/plugin.model';
+import {
+  Slot,
+  SlotError,
+  SlotOutputBlob,
+  SlotProgress,
+  SlotStatus,
+  SlotType,
+} from 'src/models/slot.model';
+import { StrategyVersion } from 'src/models/strategy-version.model';
 import { Strategy } from 'src/models/strategy.model';
+import { getBackoffDelay } from 'src/utils/backoff';
+import { outputOffloadBytes } from 'src/utils/blobs';
+import { resolveNextSlotId } from 'src/utils/conditions';
+import { getDownstreamSlotIds } from 'src/utils/graph';
 import { JSONLogger } from 'src/utils/logger';
-import { getHostAndPort } from 'src/utils/network';
+import { resolveMapping } from 'src/utils/mapping';
+import { sampleSchema, validateSchema } from 'src/utils/schemas';
+import { checkWebhookTarget, webhookSecret } from 'src/utils/webhooks';
 import { nanoid } from '../../utils/nanoid';
-import { ClientFactory, ClientService } from '../client.factory';
 import {
+  HeartbeatRequest,
+  HeartbeatResponse,
+  PlaylistStateResponse,
   PlaylistTrigger,
   PlaylistTriggerResponse,
   SegueRequest,
   SegueResponse,
+  SegueStatus,
 } from '../orchestrator.controller';
 import { PluginsService } from '../plugins/plugins.service';
 import { StrategiesService } from '../strategies/strategies.service';
 
+/**
+ * How long, in seconds, a trigger idempotency key maps to the playlist it created.
+ *
+ * This value is retrieved from the environment variable `IDEMPOTENCY_WINDOW_SECONDS`.
+ * If it is not set, it defaults to one day.
+ *
+ * @constant
+ * @type {number}
+ */
+const idempotencyWindow: number =
+  Number(process.env.IDEMPOTENCY_WINDOW_SECONDS) || 86400;
+
+/**
+ * The statuses of the playlists that count against the concurrency limits.
+ */
+const activeStatuses = [
+  PlaylistStatus.CREATED,
+  PlaylistStatus.RUNNING,
+  PlaylistStatus.PAUSED,
+  PlaylistStatus.AWAITING_APPROVAL,
+];
+
+/**
+ * The ways a slot failure can be resolved.
+ */
+export enum FailureResolution {
+  RETRIED = 'RETRIED',
+  ROUTED = 'ROUTED',
+  CRASHED = 'CRASHED',
+}
+
 /**
  * Service responsible for managing and processing playlists.
  *
- * This service provides methods to monitor scheduled triggers, start playlists based on strategies,
- * and run playlists by executing their sequence of slots.
+ * This service provides methods to start playlists based on strategies, either from a trigger
+ * or from a schedule in `SchedulesService`, and run playlists by executing their sequence of slots.
  *
  * @class
  */
@@ -49,15 +113,47 @@ export class PlaylistsService {
   constructor(
     @Inject(forwardRef(() => PluginsService))
     private readonly pluginsService: PluginsService,
+    @Inject(forwardRef(() => StrategiesService))
     private readonly strategiesService: StrategiesService,
-    private readonly clientFactory: ClientFactory,
     private readonly notificationsService: NotificationsService,
+    private readonly storageService: StorageService,
 
     /**
      * The injected Playlist model used for database operations.
      */
     @InjectSequelizeModel(Playlist) private readonly playlist: typeof Playlist,
 
+    /**
+     * The injected Approval model used for database operations.
+     */
+    @InjectSequelizeModel(Approval) private readonly approval: typeof Approval,
+
+    /**
+     * The injected Dispatch model used for database operations.
+     */
+    @InjectSequelizeModel(Dispatch) private readonly dispatch: typeof Dispatch,
+
+    /**
+     * The injected Delivery model used for database operations.
+     */
+    @InjectSequelizeModel(Delivery) private readonly delivery: typeof Delivery,
+
+    /**
+     * The injected Strategy model used for database operations.
+     */
+    @InjectSequelizeModel(Strategy) private readonly strategy: typeof Strategy,
+
+    /**
+     * The injected StrategyVersion model used for database operations.
+     */
+    @InjectSequelizeModel(StrategyVersion)
+    private readonly version: typeof StrategyVersion,
+
+    /**
+     * The injected Plugin model used for database operations.
+     */
+    @InjectSequelizeModel(Plugin) private readonly plugin: typeof Plugin,
+
     /**
      * The injected PlaylistContext model used for database operations.
      */
@@ -72,6 +168,7 @@ export class PlaylistsService {
    * @param {number} pageSize - The number of playlists per page.
    * @param {string} sort - The field to sort the playlists by.
    * @param {'asc' | 'desc'} order - The order of sorting, either ascending ('asc') or descending ('desc').
+   * @param {boolean} simulation - Whether to list the simulations instead of the real playlists.
    * @returns {Promise<{ count: number, rows: any[] }>} - A promise that resolves to an object containing the total count of playlists and an array of playlist objects with their associated contexts.
    */
   async getPlaylists(
@@ -79,6 +176,7 @@ export class PlaylistsService {
     pageSize: number,
     sort: string,
     order: 'asc' | 'desc',
+    simulation = false,
   ): Promise<{ count: number; rows: any[] }> {
     /**
      * Calculate the offset and limit based on the page number and page size.
@@ -90,6 +188,7 @@ export class PlaylistsService {
      * Retrieve the paginated list of playlists from the database.
      */
     const playlistsResult = await this.playlist.findAndCountAll({
+      where: { simulation },
       include: [{ model: Strategy }],
       distinct: true,
       offset,
@@ -100,6 +199,17 @@ export class PlaylistsService {
     return playlistsResult;
   }
 
+  /**
+   * Notifies the frontend to refresh playlists, unless the playlist is a simulation.
+   *
+   * @param playlist - The playlist that changed.
+   */
+  private refresh(playlist: Playlist): void {
+    if (!playlist.simulation) {
+      this.notificationsService.refreshPlaylists();
+    }
+  }
+
   /**
    * Retrieves the context of a playlist by its ID.
    *
@@ -122,62 +232,265 @@ export class PlaylistsService {
     return this.playlist.findOne({ where: { slug } });
   }
 
+  /**
+   * Retrieves a playlist by its slug, along with its parent and child playlists.
+   *
+   * @param {string} slug - The unique identifier for the playlist.
+   * @returns {Promise<Playlist | null>} A promise that resolves to the playlist object if found, or null if not found.
+   */
+  async getPlaylistWithLineage(slug: string): Promise<Playlist | null> {
+    const attributes = ['id', 'slug', 'status', 'parent_slot'];
+
+    return this.playlist.findOne({
+      where: { slug },
+      include: [
+        { model: Playlist, as: 'parent', attributes },
+        { model: Playlist, as: 'children', attributes },
+        { model: StrategyVersion, attributes: ['id', 'version', 'created_at'] },
+      ],
+    });
+  }
+
+  /**
+   * Parses a field of a trigger that gRPC clients send as a JSON string.
+   *
+   * @param field - The name of the field, for the error message.
+   * @param value - The value of the field, parsed already by REST clients.
+   * @returns The parsed value.
+   * @throws {BadRequestException} If the value is not valid JSON.
+   */
+  private parseJson(field: string, value: unknown): unknown {
+    if (typeof value !== 'string') {
+      return value;
+    }
+
+    try {
+      return JSON.parse(value);
+    } catch (error) {
+      throw new BadRequestException(
+        `The ${field} is not valid JSON: ${error.message}`,
+      );
+    }
+  }
+
   /**
    * Triggers the playlist based on the provided strategy.
    *
-   * @param {TriggerRequest} data - The request data containing the strategy slug and context.
+   * A trigger repeating the idempotency key of a playlist of the same strategy created
+   * within the idempotency window returns that playlist instead of starting a new one.
+   *
+   * @param {TriggerRequest} data - The request data containing the strategy slug, context and optional idempotency key.
+   * @param {Strategy} found - The strategy, if the caller already looked it up.
    * @returns {Promise<PlaylistResponse>} - A promise that resolves to the playlist response containing the slug and status.
-   * @throws {Error} - Throws an error if the strategy with the provided slug does not exist.
+   * @throws {NotFoundException} - If the strategy or the pinned version does not exist.
+   * @throws {BadRequestException} - If the delivery settings or the JSON fields are invalid.
    */
-  async trigger(data: PlaylistTrigger): Promise<PlaylistTriggerResponse> {
-    const { slug: strategySlug, context, origin } = data;
+  async trigger(
+    data: PlaylistTrigger,
+    found?: Strategy,
+  ): Promise<PlaylistTriggerResponse> {
+    const {
+      slug: strategySlug,
+      context,
+      origin,
+      idempotency_key,
+      delivery_mode,
+      simulation,
+      simulated_outputs,
+      version,
+    } = data;
 
-    const strategy = await this.strategiesService.findBySlug(strategySlug);
+    const strategy =
+      found ?? (await this.strategiesService.findBySlug(strategySlug));
 
     /**
      * Throw an error if the strategy does not exist.
      */
     if (!strategy) {
-      throw new Error(`Strategy with slug ${strategySlug} not found.`);
+      throw new NotFoundException(
+        `Strategy with slug ${strategySlug} not found.`,
+      );
+    }
+
+    /**
+     * Webhooks can only be delivered to HTTP(S) origins, signed with the shared secret.
+     */
+    const deliveryMode = delivery_mode || DeliveryMode.GRPC;
+    if (!Object.values(DeliveryMode).includes(deliveryMode)) {
+      throw new BadRequestException(`Unknown delivery mode ${deliveryMode}.`);
+    }
+
+    if (deliveryMode === DeliveryMode.WEBHOOK) {
+      const targetError = await checkWebhookTarget(origin);
+      if (targetError) {
+        throw new BadRequestException(targetError);
+      }
+
+      if (!webhookSecret) {
+        throw new BadRequestException(
+          'Webhook deliveries require WEBHOOK_SECRET to be set.',
+        );
+      }
+    }
+
+    const metadata = this.parseJson('context', context) as Record<string, any>;
+    const simulatedOutputs = this.parseJson(
+      'simulated_outputs',
+      simulated_outputs || undefined,
+    ) as Record<string, any> | undefined;
+
+    /**
+     * Return the playlist already triggered with the same key, if any.
+     */
+    if (idempotency_key) {
+      const existing = await this.findByIdempotencyKey(
+        strategy.id,
+        idempotency_key,
+      );
+
+      if (existing) {
+        return { slug: existing.slug, status: existing.status };
+      }
+
+      /**
+       * Release the key from the playlists that fell out of the window, so the
+       * unique index lets it be used again.
+       */
+      await this.playlist.update(
+        { idempotency_key: null },
+        {
+          where: {
+            strategies_id: strategy.id,
+            idempotency_key,
+            created_at: {
+              [Op.lt]: new Date(Date.now() - idempotencyWindow * 1000),
+            },
+          },
+        },
+      );
     }
 
     /**
      * Start the playlist based on the provided strategy.
      */
-    const { slug, status } = await this.start(strategy, context, origin);
+    try {
+      const { slug, status } = await this.start(strategy, metadata, origin, {
+        idempotencyKey: idempotency_key,
+        deliveryMode,
+        version: Number(version) || undefined,
+        simulation,
+        simulatedOutputs,
+      });
 
-    return {
-      slug,
-      status,
-    };
+      return {
+        slug,
+        status,
+      };
+    } catch (error) {
+      /**
+       * A concurrent trigger with the same key created the playlist first.
+       */
+      if (idempotency_key && error instanceof UniqueConstraintError) {
+        const existing = await this.findByIdempotencyKey(
+          strategy.id,
+          idempotency_key,
+        );
+
+        if (existing) {
+          return { slug: existing.slug, status: existing.status };
+        }
+      }
+
+      throw error;
+    }
+  }
+
+  /**
+   * Finds the playlist of a strategy triggered with an idempotency key within the window.
+   *
+   * @param strategyId - The ID of the strategy.
+   * @param idempotencyKey - The idempotency key of the trigger.
+   * @returns {Promise<Playlist | null>} The matching playlist, or null if there is none.
+   */
+  private async findByIdempotencyKey(
+    strategyId: number,
+    idempotencyKey: string,
+  ): Promise<Playlist | null> {
+    const existing = await this.playlist.findOne({
+      where: {
+        strategies_id: strategyId,
+        idempotency_key: idempotencyKey,
+        created_at: {
+          [Op.gte]: new Date(Date.now() - idempotencyWindow * 1000),
+        },
+      },
+    });
+
+    if (existing) {
+      this.logger.log(
+        `Trigger with idempotency key ${idempotencyKey} matched playlist ${existing.slug}.`,
+      );
+    }
+
+    return existing;
   }
 
   /**
    * Starts a playlist based on the provided strategy and context.
    *
    * @param strategy - The strategy object containing slots and other configuration details.
-   * @param context - An optional object providing additional context for the playlist.
+   * @param metadata - An object providing additional context for the playlist.
+   * @param origin - Where to deliver the playlist once complete.
+   * @param options - The playlist and slot that spawned this playlist, the idempotency key and delivery mode of the trigger, the pinned strategy version, and whether it is a simulation and with which outputs.
    * @returns A promise that resolves when the playlist has been started.
    *
    * @remarks
    * This method performs the following steps:
-   * 1. Generates the playlist manifest by organizing slots based on their plugin types and order.
+   * 1. Generates the playlist manifest from the slots of the strategy version it runs.
    * 2. Creates a new playlist entry in the database with the generated manifest and initial status.
    * 3. Initiates the execution of the playlist.
    */
   private async start(
     strategy: Strategy,
-    metadata: any,
+    metadata: Record<string, any>,
     origin: string,
+    {
+      parent,
+      idempotencyKey,
+      deliveryMode,
+      version: pinned,
+      simulation,
+      simulatedOutputs,
+    }: {
+      parent?: { playlist: Playlist; slot: string };
+      idempotencyKey?: string;
+      deliveryMode?: DeliveryMode;
+      version?: number;
+      simulation?: boolean;
+      simulatedOutputs?: Record<string, any>;
+    } = {},
   ): Promise<Playlist> {
+    /**
+     * Run the pinned version of the strategy, or the latest one.
+     */
+    const version = await this.strategiesService.resolveVersion(
+      strategy,
+      pinned,
+    );
+
     /**
      * Create a new playlist in the database.
      */
     const playlist = await this.playlist.create({
       strategies_id: strategy.id,
-      status: PlaylistStatus.CREATED,
+      strategy_versions_id: version.id,
+      status: simulation ? PlaylistStatus.CREATED : PlaylistStatus.QUEUED,
       slug: nanoid(),
-      current_slot_id: strategy.root_slot,
+      current_slot_id: version.root_slot,
+      parent_playlist_id: parent?.playlist.id,
+      parent_slot: parent?.slot,
+      idempotency_key: idempotencyKey || null,
+      simulation: !!simulation,
     });
 
     /**
@@ -185,214 +498,1812 @@ export class PlaylistsService {
      */
     const context: PlaylistContextDocument = await this.context.create({
       id: playlist.id,
-      metadata: JSON.parse(metadata),
-      sequence: strategy.slots.map((slot) => slot.toJSON()),
+      metadata,
+      sequence: await this.strategiesService.getVersionSlots(version),
       origin,
+      delivery_mode: deliveryMode,
+      simulated_outputs: simulation ? simulatedOutputs || {} : undefined,
+      path: simulation ? [] : undefined,
     });
 
     /**
      * Notify the frontend to refresh playlists.
      */
-    this.notificationsService.refreshPlaylists();
+    this.refresh(playlist);
 
-    await this.run(playlist, context);
-
-    return playlist;
-  }
-
-  /**
-   * Runs the given playlist by updating its status to 'RUNNING' and calling the next method on the plugins service.
-   *
-   * @param playlist - The playlist to be run.
-   * @returns A promise that resolves when the playlist status is updated and the next method is called.
-   */
-  private async run(playlist: Playlist, context: PlaylistContextDocument) {
     /**
-     * Update the playlist status to 'RUNNING'.
+     * Simulations don't use any plugin host, so they skip admission. Other playlists,
+     * child playlists included, wait for admission.
      */
-    if (playlist.status !== PlaylistStatus.RUNNING) {
-      await playlist.update({ status: PlaylistStatus.RUNNING });
+    if (simulation) {
+      await this.run(playlist, context);
+    } else {
+      await this.drain();
+      await playlist.reload();
     }
 
-    /**
-     * Call the `next` method on the `pluginsService` with the playlist.
-     */
-    await this.pluginsService.run(playlist, context);
+    return playlist;
   }
 
   /**
-   * Updates the status of the given playlist to 'FAILED' and sets the updatedAt timestamp to the current date.
+   * Admits the queued playlists that fit within the concurrency limits and runs them.
    *
-   * @param {Playlist} playlist - The playlist to be updated.
-   * @returns {Promise<Playlist>} A promise that resolves to the updated playlist.
+   * Playlists are admitted first-in-first-out. A playlist that doesn't fit blocks the
+   * later ones sharing its strategy or any of its plugins, so they don't overtake it.
+   *
+   * @returns A promise that resolves once the admitted playlists have been dispatched.
    */
-  async crash(playlist: Playlist): Promise<Playlist> {
-    const updatedPlaylist = await playlist.update({
-      status: PlaylistStatus.FAILED,
-      updatedAt: new Date(),
-    });
-
-    /**
-     * Notify the frontend to refresh playlists.
-     */
-    this.notificationsService.refreshPlaylists();
+  async drain(): Promise<void> {
+    let admitted: Playlist[] = [];
+    try {
+      admitted = await this.admit();
+    } catch (error) {
+      this.logger.error('Admission of queued playlists failed:', error);
+    }
 
-    return updatedPlaylist;
+    await Promise.all(
+      admitted.map(async (playlist) => {
+        const context = await this.getContext(playlist.id);
+        if (context) {
+          await this.run(playlist, context);
+        }
+      }),
+    );
   }
 
   /**
-   * Handles the segue operation for a playlist.
+   * Moves the queued playlists that fit within the concurrency limits to 'RUNNING'.
    *
-   * This method retrieves the playlist by its slug, updates the context with the output from the segue,
-   * sets the next step in the playlist, and continues the playlist execution if applicable.
+   * The queued playlists are locked for the whole admission, so the admissions of
+   * every instance of the service wait for each other and can't exceed the limits.
+   * The plugins a playlist uses are the ones of the strategy version it runs.
    *
-   * @param {SegueRequest} param0 - An object containing the slug of the playlist and the output to update.
-   * @returns {Promise<SegueResponse>} - A promise that resolves to a response indicating the success of the operation.
-   * @throws {Error} - Throws an error if the playlist does not exist or if any other error occurs during the operation.
+   * A child playlist shares the place of its parent for the limits they have in
+   * common, so a parent never waits for a place it is holding itself.
+   *
+   * @returns {Promise<Playlist[]>} The admitted playlists.
    */
-  async segue({
-    slug,
-    output,
-    operation,
-  }: SegueRequest): Promise<SegueResponse> {
-    try {
-      /**
-       * Retrieve the playlist by its slug.
-       */
-      const playlist = await this.getPlaylist(slug);
+  private async admit(): Promise<Playlist[]> {
+    return this.playlist.sequelize!.transaction(async (transaction) => {
+      const queued = await this.playlist.findAll({
+        where: { status: PlaylistStatus.QUEUED },
+        order: [['id', 'ASC']],
+        lock: transaction.LOCK.UPDATE,
+        transaction,
+      });
 
-      /**
-       * Throw an error if the playlist does not exist.
-       */
-      if (!playlist) {
-        throw new Error(`Playlist with slug ${slug} not found.`);
+      if (!queued.length) {
+        return [];
       }
 
-      /**
-       * Retrieve the context for the playlist.
-       */
-      const context = await this.getContext(playlist.id);
-      if (!context) {
-        throw new Error(`Context for playlist with slug ${slug} not found.`);
-      }
+      const active = await this.playlist.findAll({
+        where: { status: activeStatuses, simulation: false },
+        attributes: [
+          'id',
+          'strategies_id',
+          'strategy_versions_id',
+          'parent_playlist_id',
+        ],
+        transaction,
+      });
+      const activeById = new Map(
+        active.map((playlist) => [playlist.id, playlist]),
+      );
 
       /**
-       * Get the current slot in the playlist.
+       * Work out the plugins of every strategy version involved.
        */
-      const currentSlot = context.sequence.findIndex(
-        (item) => item.name === operation,
+      const versions = await this.version.findAll({
+        where: {
+          id: [
+            ...new Set(
+              [...queued, ...active].map(
+                ({ strategy_versions_id }) => strategy_versions_id,
+              ),
+            ),
+          ].filter((id): id is number => !!id),
+        },
+        attributes: ['id', 'slots'],
+        transaction,
+      });
+      const versionPlugins = new Map(
+        versions.map(({ id, slots }) => [
+          id,
+          [
+            ...new Set(
+              slots
+                .map(({ plugins_id }) => plugins_id)
+                .filter((id): id is number => typeof id === 'number'),
+            ),
+          ],
+        ]),
       );
+      const pluginsOf = (playlist: Playlist): number[] =>
+        versionPlugins.get(playlist.strategy_versions_id!) ?? [];
 
       /**
-       * Update the context with the output from the segue.
+       * Load the limits, and count the places taken against each of them.
        */
-      context.sequence[currentSlot].output = JSON.parse(output);
-      context.markModified(`sequence.${currentSlot}.output`);
-      await context.save();
+      const strategyLimits = new Map(
+        (
+          await this.strategy.findAll({
+            where: {
+              id: [
+                ...new Set(queued.map(({ strategies_id }) => strategies_id)),
+              ],
+            },
+            attributes: ['id', 'max_concurrency'],
+            transaction,
+          })
+        ).map(({ id, max_concurrency }) => [id, max_concurrency || 0]),
+      );
+      const pluginLimits = new Map(
+        (
+          await this.plugin.findAll({
+            where: { id: [...new Set(queued.flatMap(pluginsOf))] },
+            attributes: ['id', 'max_concurrency'],
+            transaction,
+          })
+        ).map(({ id, max_concurrency }) => [id, max_concurrency || 0]),
+      );
 
-      /**
-       * Set the next step in the playlist.
-       *
-       * If the next slot is null, mark the playlist as complete.
-       */
-      const nextSlot = context.sequence[currentSlot].default_next_slot_id;
-      playlist.current_slot_id = nextSlot;
-      if (nextSlot === null) {
-        playlist.status = PlaylistStatus.COMPLETE;
-      }
+      const strategyCounts = new Map<number, number>();
+      const pluginCounts = new Map<number, number>();
+      const take = (playlist: Playlist) => {
+        strategyCounts.set(
+          playlist.strategies_id,
+          (strategyCounts.get(playlist.strategies_id) || 0) + 1,
+        );
+        for (const id of pluginsOf(playlist)) {
+          pluginCounts.set(id, (pluginCounts.get(id) || 0) + 1);
+        }
+      };
+      active.forEach(take);
 
-      /**
-       * Notify the frontend to refresh playlists.
-       */
-      this.notificationsService.refreshPlaylists();
+      const blockedStrategies = new Set<number>();
+      const blockedPlugins = new Set<number>();
+      const admitted: Playlist[] = [];
 
-      /**
-       * Update the last executed slot in the playlist's manifest.
-       */
-      playlist.updatedAt = new Date();
+      for (const playlist of queued) {
+        const plugins = pluginsOf(playlist);
 
-      /**
-       * Update the last executed slot in the playlist's manifest.
-       */
-      await playlist.save();
+        if (
+          blockedStrategies.has(playlist.strategies_id) ||
+          plugins.some((id) => blockedPlugins.has(id))
+        ) {
+          continue;
+        }
 
-      /**
-       * Continue the playlist execution.
-       */
-      if (nextSlot !== null) {
-        await this.run(playlist, context);
-      } else {
         /**
-         * Return to Sender.
+         * The places the parent holds, which its child may use.
          */
-        this.deliver(playlist, context);
+        const parent = activeById.get(playlist.parent_playlist_id!);
+        const sharedStrategy =
+          parent?.strategies_id === playlist.strategies_id ? 1 : 0;
+        const sharedPlugins = new Set(parent ? pluginsOf(parent) : []);
+
+        const strategyLimit = strategyLimits.get(playlist.strategies_id);
+        const fits =
+          (!strategyLimit ||
+            (strategyCounts.get(playlist.strategies_id) || 0) - sharedStrategy <
+              strategyLimit) &&
+          plugins.every((id) => {
+            const limit = pluginLimits.get(id);
+            return (
+              !limit ||
+              (pluginCounts.get(id) || 0) - (sharedPlugins.has(id) ? 1 : 0) <
+                limit
+            );
+          });
+
+        if (!fits) {
+          blockedStrategies.add(playlist.strategies_id);
+          plugins.forEach((id) => blockedPlugins.add(id));
+          continue;
+        }
+
+        await playlist.update(
+          { status: PlaylistStatus.RUNNING, updatedAt: new Date() },
+          { transaction },
+        );
+        take(playlist);
+        admitted.push(playlist);
       }
 
-      /**
-       * Return a success response.
-       */
-      return { success: true };
-    } catch (error) {
-      this.logger.error('Fatal on Segue:', JSON.stringify(error, null, 2));
-      throw error;
+      if (admitted.length) {
+        this.logger.log(
+          `Admitted ${admitted.length} of ${queued.length} queued playlists.`,
+        );
+        this.notificationsService.refreshPlaylists();
+      }
+
+      return admitted;
+    });
+  }
+
+  /**
+   * Retrieves the number of queued playlists, in total and per strategy.
+   *
+   * @returns The queue depth and the number of queued playlists of each strategy, keyed by slug.
+   */
+  async getQueue(): Promise<{
+    depth: number;
+    strategies: Record<string, number>;
+  }> {
+    const queued = await this.playlist.findAll({
+      where: { status: PlaylistStatus.QUEUED },
+      include: [{ model: Strategy, attributes: ['slug'] }],
+      attributes: ['id'],
+    });
+
+    const strategies: Record<string, number> = {};
+    for (const { strategy } of queued) {
+      if (strategy) {
+        strategies[strategy.slug] = (strategies[strategy.slug] || 0) + 1;
+      }
     }
+
+    return { depth: queued.length, strategies };
   }
 
   /**
-   * Delivers the given playlist to the client service.
+   * Runs a slot of the given playlist by queueing its dispatch.
    *
-   * @param {Playlist} playlist - The playlist to be delivered.
-   * @returns {Promise<any>} A promise that resolves with the response from the client service or rejects with an error.
+   * The slot is marked as 'QUEUED' and a dispatch is stored for `DispatcherService`
+   * to pick up, so it survives restarts and the caller doesn't wait for the plugin.
    *
-   * @throws {Error} If there is an error during the delivery process.
+   * @param playlist - The playlist to be run.
+   * @param context - The context of the playlist.
+   * @param slotId - The slot to run. Defaults to the current slot of the playlist.
+   * @param delay - How long to wait before dispatching the slot, in milliseconds.
+   * @returns A promise that resolves once the dispatch has been queued.
    */
-  async deliver(
+  async run(
     playlist: Playlist,
     context: PlaylistContextDocument,
-  ): Promise<any> {
-    const { hostname, port } = getHostAndPort(context.origin);
+    slotId: number = playlist.current_slot_id!,
+    delay: number = 0,
+  ): Promise<void> {
+    const index = this.getSlotIndex(context, slotId);
 
     /**
-     * Create a new client to communicate with the client service.
+     * Mark the slot as queued, so the playlist isn't finished while it waits.
      */
-    const client = this.clientFactory.createClient<ClientService>(
-      hostname,
-      port,
-      'client.proto',
-      'client',
-      'ClientService',
+    context.sequence[index].status = SlotStatus.QUEUED;
+    await this.context.updateOne(
+      { id: playlist.id },
+      { $set: { [`sequence.${index}.status`]: SlotStatus.QUEUED } },
     );
 
-    if (!client) {
-      this.logger.error('❌ Failed to create gRPC client, skipping delivery.');
-      return null;
+    await this.dispatch.create({
+      playlists_id: playlist.id,
+      slot_id: slotId,
+      available_at: new Date(Date.now() + delay),
+    });
+  }
+
+  /**
+   * Executes a queued slot of the given playlist by updating its status to 'RUNNING' and calling the run method on the plugins service.
+   *
+   * If the plugin can't be invoked, the failure is handled by `fail`. Slots that are no
+   * longer queued, such as those dispatched again after a lease expired, are skipped.
+   *
+   * @param playlist - The playlist to be run.
+   * @param context - The context of the playlist.
+   * @param slotId - The slot to run.
+   * @returns A promise that resolves once the slot has been dispatched.
+   */
+  async execute(
+    playlist: Playlist,
+    context: PlaylistContextDocument,
+    slotId: number,
+  ): Promise<void> {
+    const index = this.getSlotIndex(context, slotId);
+
+    if (context.sequence[index].status !== SlotStatus.QUEUED) {
+      this.logger.warn(
+        `Skipping dispatch of slot ${context.sequence[index].name} of playlist ${playlist.slug}, as it is no longer queued.`,
+      );
+      return;
     }
 
     /**
-     * Deliver the payload to the client service.
+     * Read the status again, as the playlist may have been paused or cancelled meanwhile.
      */
-    return new Promise((resolve, reject) => {
-      try {
-        client.deliver(
-          { payload: JSON.stringify({ ...playlist, context }) },
-          (err, response) => {
-            if (err) {
-              this.logger.error(`⚠️ gRPC delivery failed: ${err.message}`);
-              reject(new Error(`gRPC delivery failed: ${err.message}`));
-            } else {
-              resolve(response);
-            }
+    await playlist.reload();
+
+    /**
+     * A paused playlist keeps the slot pending until it is resumed.
+     */
+    if (playlist.status === PlaylistStatus.PAUSED) {
+      context.sequence[index].status = SlotStatus.PENDING;
+      context.markModified(`sequence.${index}.status`);
+      await context.save();
+      return;
+    }
+
+    /**
+     * Nothing else is dispatched once a playlist has been cancelled or has finished.
+     * Other branches keep running while a playlist awaits an approval.
+     */
+    if (
+      ![
+        PlaylistStatus.CREATED,
+        PlaylistStatus.RUNNING,
+        PlaylistStatus.AWAITING_APPROVAL,
+      ].includes(playlist.status)
+    ) {
+      return;
+    }
+
+    /**
+     * Update the playlist status to 'RUNNING'.
+     */
+    if (playlist.status === PlaylistStatus.CREATED) {
+      await playlist.update({ status: PlaylistStatus.RUNNING });
+    }
+
+    /**
+     * Mark the slot as running in the playlist context.
+     */
+    context.sequence[index].status = SlotStatus.RUNNING;
+    context.markModified(`sequence.${index}.status`);
+    await context.save();
+
+    /**
+     * Simulations record the path they take, so branching and joins can be checked.
+     */
+    if (playlist.simulation) {
+      await this.context.updateOne(
+        { id: playlist.id },
+        {
+          $push: {
+            path: { slot: context.sequence[index].name, at: new Date() },
           },
+        },
+      );
+    }
+
+    /**
+     * STRATEGY slots spawn a child playlist.
+     */
+    if (context.sequence[index].type === SlotType.STRATEGY) {
+      await this.spawn(playlist, context, slotId);
+      return;
+    }
+
+    /**
+     * APPROVAL slots park the playlist until a user makes a decision.
+     */
+    if (context.sequence[index].type === SlotType.APPROVAL) {
+      if (playlist.simulation) {
+        await this.simulate(playlist, context, slotId);
+      } else {
+        await this.requestApproval(playlist, context, slotId);
+      }
+      return;
+    }
+
+    /**
+     * Don't invoke the plugin with an input it doesn't expect.
+     */
+    const slot = context.sequence[index];
+    const input = await this.getSlotInput(context, slot);
+    const inputErrors = validateSchema(slot.plugin?.input_schema, input);
+
+    if (inputErrors) {
+      await this.fail(playlist, context, slotId, {
+        code: 'INVALID_INPUT',
+        message: `The input of slot ${slot.name} is invalid: ${inputErrors}`,
+        retryable: false,
+      });
+      return;
+    }
+
+    /**
+     * Simulations stub the plugin with a canned output.
+     */
+    if (playlist.simulation) {
+      await this.simulate(playlist, context, slotId);
+      return;
+    }
+
+    /**
+     * Call the `run` method on the `pluginsService` with the slot.
+     */
+    const dispatched = await this.pluginsService.run(
+      playlist,
+      context,
+      slotId,
+      slot.metadata?.input !== undefined ? input : undefined,
+    );
+
+    if (!dispatched) {
+      await this.fail(playlist, context, slotId, {
+        code: 'DISPATCH_FAILED',
+        message: 'The plugin could not be invoked.',
+        retryable: true,
+      });
+    }
+  }
+
+  /**
+   * Puts a slot whose execution threw back in the queue, so its dispatch can run it again.
+   *
+   * Only a slot left 'RUNNING' by the failed execution is changed. Otherwise the next
+   * dispatch would skip it as no longer queued, and the slot would stay running with
+   * no deadline.
+   *
+   * @param playlist - The playlist of the slot.
+   * @param slotId - The slot to queue again.
+   * @returns A promise that resolves once the slot has been queued.
+   */
+  async requeue(playlist: Playlist, slotId: number): Promise<void> {
+    const context = await this.getContext(playlist.id);
+    if (!context) {
+      return;
+    }
+
+    const index = this.getSlotIndex(context, slotId);
+    await this.context.updateOne(
+      { id: playlist.id, [`sequence.${index}.status`]: SlotStatus.RUNNING },
+      { $set: { [`sequence.${index}.status`]: SlotStatus.QUEUED } },
+    );
+  }
+
+  /**
+   * Completes a slot of a simulation with a canned output instead of running it.
+   *
+   * The output is, in order of preference, the one given with the trigger for the slot
+   * name, the `metadata.simulated_output` of the slot, or a sample generated from the
+   * output schema of the plugin. APPROVAL slots are approved unless told otherwise.
+   * The output goes through `segue`, so it is validated and routed like a real one.
+   *
+   * @param playlist - The simulated playlist.
+   * @param context - The context of the playlist.
+   * @param slotId - The slot to complete.
+   * @returns A promise that resolves once the output has been reported.
+   */
+  private async simulate(
+    playlist: Playlist,
+    context: PlaylistContextDocument,
+    slotId: number,
+  ): Promise<void> {
+    const slot = context.sequence[this.getSlotIndex(context, slotId)];
+
+    const output =
+      context.simulated_outputs?.[slot.name] ??
+      slot.metadata?.simulated_output ??
+      (slot.type === SlotType.APPROVAL
+        ? { approved: true, decided_by: 'simulation', comment: null }
+        : sampleSchema(slot.plugin?.output_schema));
+
+    try {
+      await this.segue({
+        slug: playlist.slug,
+        operation: slot.name,
+        output: JSON.stringify(output),
+      });
+    } catch (error) {
+      this.logger.warn(
+        `Simulated output of slot ${slot.name} of playlist ${playlist.slug} was rejected: ${error.message}`,
+      );
+    }
+  }
+
+  /**
+   * Builds the input a slot hands to its plugin.
+   *
+   * Slots with a `metadata.input` mapping get it resolved against the playlist metadata
+   * and the slots of the playlist, so `$.slots.lighthouse.output.score` points to the
+   * output of the `lighthouse` slot. Slots without one get the playlist metadata.
+   *
+   * Outputs offloaded to blob storage are loaded back before resolving the mapping.
+   *
+   * @param context - The context of the playlist.
+   * @param slot - The slot about to run.
+   * @returns The input of the slot.
+   */
+  private async getSlotInput(
+    context: PlaylistContextDocument,
+    slot: Slot,
+  ): Promise<unknown> {
+    if (slot.metadata?.input === undefined) {
+      return context.metadata;
+    }
+
+    const slots = await Promise.all(
+      context.sequence.map(async (slot) => [
+        slot.name,
+        { output: await this.hydrate(slot), status: slot.status },
+      ]),
+    );
+
+    return resolveMapping(slot.metadata.input, {
+      metadata: context.metadata,
+      slots: Object.fromEntries(slots),
+    });
+  }
+
+  /**
+   * Stores an output in blob storage if it is above the offload threshold.
+   *
+   * @param playlist - The playlist the output belongs to.
+   * @param operation - The name of the slot that produced the output.
+   * @param raw - The output as it was received.
+   * @param parsed - The parsed output.
+   * @returns The output to keep in the context, null if it was offloaded, and the blob holding it.
+   */
+  private async offload(
+    playlist: Playlist,
+    operation: string,
+    raw: string,
+    parsed: unknown,
+  ): Promise<{ output: unknown; output_blob: SlotOutputBlob | null }> {
+    const size = Buffer.byteLength(raw);
+
+    if (size <= outputOffloadBytes) {
+      return { output: parsed, output_blob: null };
+    }
+
+    const blob: SlotOutputBlob = {
+      key: `outputs/${playlist.slug}/${operation}.json`,
+      size,
+    };
+    await this.storageService.put(blob.key, raw, 'application/json');
+
+    return { output: null, output_blob: blob };
+  }
+
+  /**
+   * Loads the output of a slot back from blob storage if it was offloaded.
+   *
+   * @param slot - The slot, as stored in the context.
+   * @returns The full output.
+   */
+  private async hydrate(slot: Slot): Promise<unknown> {
+    if (!slot.output_blob) {
+      return slot.output;
+    }
+
+    const blob = await this.storageService.get(slot.output_blob.key);
+    return JSON.parse(blob.toString('utf-8'));
+  }
+
+  /**
+   * Builds a copy of a context with the outputs offloaded to blob storage loaded
+   * back, for the payloads and archives that leave the service.
+   *
+   * @param context - The context, as a plain object.
+   * @returns {Promise<PlaylistContext>} The context with the full outputs.
+   */
+  async hydrateContext(context: PlaylistContext): Promise<PlaylistContext> {
+    return {
+      ...context,
+      sequence: await Promise.all(
+        (context.sequence || []).map(
+          async (slot) =>
+            ({
+              ...slot,
+              output: await this.hydrate(slot),
+              output_blob: undefined,
+            }) as Slot,
+        ),
+      ),
+    };
+  }
+
+  /**
+   * Deletes the contexts of playlists that were deleted, with the blobs of their
+   * offloaded outputs.
+   *
+   * @param ids - The IDs of the deleted playlists.
+   * @returns A promise that resolves once the contexts have been deleted.
+   */
+  async deleteContexts(ids: number[]): Promise<void> {
+    if (!ids.length) {
+      return;
+    }
+
+    const contexts = await this.context.find({ id: { $in: ids } });
+    for (const context of contexts) {
+      await this.deleteBlobs(context.sequence || []);
+    }
+
+    await this.context.deleteMany({ id: { $in: ids } });
+  }
+
+  /**
+   * Deletes the blobs holding the offloaded outputs of the given slots.
+   *
+   * A blob that can't be deleted is only logged, as it is no longer referenced.
+   *
+   * @param slots - The slots whose outputs are dropped.
+   * @returns A promise that resolves once the blobs have been deleted.
+   */
+  async deleteBlobs(slots: Slot[]): Promise<void> {
+    for (const { output_blob } of slots) {
+      if (!output_blob) {
+        continue;
+      }
+
+      try {
+        await this.storageService.delete(output_blob.key);
+      } catch (error) {
+        this.logger.warn(
+          `Blob ${output_blob.key} could not be deleted: ${error.message}`,
         );
+      }
+    }
+  }
+
+  /**
+   * Retrieves the full output of a slot of a playlist, loading it from blob storage
+   * if it was offloaded.
+   *
+   * @param slug - The slug of the playlist.
+   * @param operation - The name of the slot.
+   * @returns The output of the slot.
+   * @throws {NotFoundException} If the playlist, its context or the slot can't be found.
+   */
+  async getSlotOutput(slug: string, operation: string): Promise<unknown> {
+    const playlist = await this.getPlaylist(slug);
+
+    if (!playlist) {
+      throw new NotFoundException(`Playlist with slug ${slug} not found.`);
+    }
+
+    const context = await this.getContext(playlist.id);
+    const slot = context?.sequence.find(({ name }) => name === operation);
+
+    if (!slot) {
+      throw new NotFoundException(
+        `Slot ${operation} not found in playlist ${slug}.`,
+      );
+    }
+
+    return this.hydrate(slot);
+  }
+
+  /**
+   * Retrieves the slots a simulation ran, in order, including the retried ones.
+   *
+   * @param slug - The slug of the simulation.
+   * @returns The slots with the time each one was dispatched.
+   * @throws {NotFoundException} If the simulation does not exist.
+   */
+  async getSimulationPath(slug: string): Promise<{ slot: string; at: Date }[]> {
+    const playlist = await this.getPlaylist(slug);
+
+    if (!playlist?.simulation) {
+      throw new NotFoundException(`Simulation with slug ${slug} not found.`);
+    }
+
+    const context = await this.getContext(playlist.id);
+    return context?.path || [];
+  }
+
+  /**
+   * Runs a STRATEGY slot by starting its strategy as a child playlist.
+   *
+   * The child receives the parent metadata keys listed in the slot `metadata.context`,
+   * or the whole parent metadata if the slot doesn't list any. The parent slot stays
+   * running until the child reports back.
+   *
+   * @param playlist - The parent playlist.
+   * @param context - The context of the parent playlist.
+   * @param slotId - The STRATEGY slot to run.
+   * @returns A promise that resolves once the child playlist has been started.
+   */
+  private async spawn(
+    playlist: Playlist,
+    context: PlaylistContextDocument,
+    slotId: number,
+  ): Promise<void> {
+    const slot = context.sequence[this.getSlotIndex(context, slotId)];
+    const {
+      strategy: strategySlug,
+      context: keys,
+      version,
+    } = slot.metadata || {};
+
+    try {
+      const strategy = await this.strategiesService.findBySlug(strategySlug);
+
+      if (!strategy) {
+        throw new Error(`Strategy with slug ${strategySlug} not found.`);
+      }
+
+      const metadata = Array.isArray(keys)
+        ? Object.fromEntries(
+            keys
+              .filter((key: string) => key in context.metadata)
+              .map((key: string) => [key, context.metadata[key]]),
+          )
+        : context.metadata;
+
+      const child = await this.start(strategy, metadata, '', {
+        parent: { playlist, slot: slot.name },
+        version: Number(version) || undefined,
+        simulation: playlist.simulation,
+        simulatedOutputs: context.simulated_outputs,
+      });
+
+      this.logger.log(
+        `Slot ${slot.name} of playlist ${playlist.slug} spawned child playlist ${child.slug}.`,
+      );
+    } catch (error) {
+      await this.fail(playlist, context, slotId, {
+        code: 'SPAWN_FAILED',
+        message: error.message,
+        retryable: false,
+      });
+    }
+  }
+
+  /**
+   * Runs an APPROVAL slot by recording a pending approval and moving the playlist
+   * to 'AWAITING_APPROVAL'. The slot stays running until the approval is decided.
+   *
+   * @param playlist - The playlist that needs the approval.
+   * @param context - The context of the playlist.
+   * @param slotId - The APPROVAL slot to run.
+   * @returns A promise that resolves once the approval has been requested.
+   */
+  private async requestApproval(
+    playlist: Playlist,
+    context: PlaylistContextDocument,
+    slotId: number,
+  ): Promise<void> {
+    const slot = context.sequence[this.getSlotIndex(context, slotId)];
+    const expiresIn = Number(slot.metadata?.expires_in_seconds);
+
+    const approval = await this.approval.create({
+      playlists_id: playlist.id,
+      slot_id: slot.id,
+      slot_name: slot.name,
+      status: ApprovalStatus.PENDING,
+      expires_at: expiresIn ? new Date(Date.now() + expiresIn * 1000) : null,
+    });
+
+    await playlist.update({ status: PlaylistStatus.AWAITING_APPROVAL });
+
+    this.logger.log(
+      `Slot ${slot.name} of playlist ${playlist.slug} awaits approval ${approval.id}.`,
+    );
+
+    /**
+     * Notify the frontend to refresh playlists.
+     */
+    this.refresh(playlist);
+  }
+
+  /**
+   * Handles the failure of a slot of a playlist.
+   *
+   * The error is recorded on the slot and, in order of preference, the slot is retried
+   * with exponential backoff while it has retries left, the playlist is routed to the
+   * slot's error slot, or the playlist is crashed.
+   *
+   * @param playlist - The playlist whose slot failed.
+   * @param context - The context of the playlist.
+   * @param slotId - The slot that failed.
+   * @param error - The error that made the slot fail.
+   * @returns {Promise<FailureResolution>} How the failure was resolved.
+   */
+  async fail(
+    playlist: Playlist,
+    context: PlaylistContextDocument,
+    slotId: number,
+    error: Omit<SlotError, 'at'>,
+  ): Promise<FailureResolution> {
+    const index = this.getSlotIndex(context, slotId);
+    const slot = context.sequence[index];
+
+    /**
+     * Record the error on the slot. If the plugin had accepted the task, the
+     * attempt is marked as failed so it counts against the retries.
+     */
+    const attempts = slot.attempts || [];
+    const lastAttempt = attempts[attempts.length - 1];
+    if (lastAttempt?.success) {
+      lastAttempt.success = false;
+      lastAttempt.error = error.message;
+      context.markModified(`sequence.${index}.attempts`);
+    }
+
+    slot.error = { ...error, at: new Date() };
+    slot.deadline = null;
+    context.markModified(`sequence.${index}.error`);
+    context.markModified(`sequence.${index}.deadline`);
+    await context.save();
+
+    /**
+     * Only the failures since the last successful attempt count against the retries,
+     * so a slot that is visited again starts with a fresh budget.
+     */
+    const failures = this.getFailureCount(slot);
+    if (error.retryable && failures <= (slot.max_retries || 0)) {
+      const delay = getBackoffDelay(failures - 1);
+      this.logger.log(
+        `Retrying slot ${slot.name} of playlist ${playlist.slug} in ${delay}ms (${failures}/${slot.max_retries}).`,
+      );
+      await this.run(playlist, context, slotId, delay);
+
+      return FailureResolution.RETRIED;
+    }
+
+    /**
+     * From here on the slot is done for good.
+     */
+    slot.status = SlotStatus.FAILED;
+    context.markModified(`sequence.${index}.status`);
+    await context.save();
+
+    /**
+     * Route the playlist to the error slot, if the slot has one.
+     */
+    if (slot.error_slot_id) {
+      this.logger.log(
+        `Routing playlist ${playlist.slug} from slot ${slot.name} to its error slot.`,
+      );
+      await playlist.update({ current_slot_id: slot.error_slot_id });
+      await this.run(playlist, context, slot.error_slot_id);
+
+      return FailureResolution.ROUTED;
+    }
+
+    this.logger.error(
+      `Slot ${slot.name} of playlist ${playlist.slug} failed after ${failures} attempts: ${error.message}`,
+    );
+    await this.crash(playlist);
+
+    return FailureResolution.CRASHED;
+  }
+
+  /**
+   * Finds the position of a slot within the playlist context.
+   *
+   * @param context - The context of the playlist.
+   * @param slotId - The ID of the slot to find.
+   * @returns The index of the slot in the sequence.
+   * @throws {Error} If the slot is not part of the sequence.
+   */
+  private getSlotIndex(
+    context: PlaylistContextDocument,
+    slotId: number,
+  ): number {
+    const index = context.sequence.findIndex((item) => item.id === slotId);
+
+    if (index === -1) {
+      throw new Error(`Slot ${slotId} not found`);
+    }
+
+    return index;
+  }
+
+  /**
+   * Counts the consecutive failed attempts at the end of a slot's attempt history.
+   *
+   * @param slot - The slot to inspect.
+   * @returns The number of failures since the last successful attempt.
+   */
+  private getFailureCount(slot: Slot): number {
+    const attempts = slot.attempts || [];
+    const lastSuccess = attempts
+      .map(({ success }) => success)
+      .lastIndexOf(true);
+
+    return attempts.length - lastSuccess - 1;
+  }
+
+  /**
+   * Updates the status of the given playlist to 'FAILED' and sets the updatedAt timestamp to the current date.
+   *
+   * @param {Playlist} playlist - The playlist to be updated.
+   * @returns {Promise<Playlist>} A promise that resolves to the updated playlist.
+   */
+  async crash(playlist: Playlist): Promise<Playlist> {
+    const updatedPlaylist = await playlist.update({
+      status: PlaylistStatus.FAILED,
+      updatedAt: new Date(),
+    });
+
+    /**
+     * Notify the frontend to refresh playlists.
+     */
+    this.refresh(updatedPlaylist);
+
+    /**
+     * Admit the playlists waiting for the place this one held.
+     */
+    await this.drain();
+
+    /**
+     * A failed child playlist makes its parent slot fail.
+     */
+    await this.report(updatedPlaylist);
+
+    return updatedPlaylist;
+  }
+
+  /**
+   * Reports the final status of a child playlist to the slot of its parent.
+   *
+   * A complete child segues the parent slot with its outputs, keyed by slot name,
+   * while a failed or cancelled one makes the parent slot fail.
+   *
+   * @param playlist - The finished child playlist.
+   * @param context - The context of the child playlist, if already loaded.
+   * @returns A promise that resolves once the parent slot has been updated.
+   */
+  async report(
+    playlist: Playlist,
+    context?: PlaylistContextDocument | null,
+  ): Promise<void> {
+    const parent = await this.getParent(playlist);
+    if (!parent) {
+      return;
+    }
+
+    if (playlist.status === PlaylistStatus.COMPLETE) {
+      context ??= await this.getContext(playlist.id);
+      const outputs = Object.fromEntries(
+        await Promise.all(
+          (context?.sequence ?? [])
+            .filter(({ output }) => output !== undefined)
+            .map(async (slot) => [slot.name, await this.hydrate(slot)]),
+        ),
+      );
+
+      await this.segue({
+        slug: parent.playlist.slug,
+        operation: playlist.parent_slot!,
+        output: JSON.stringify(outputs),
+      });
+      return;
+    }
+
+    const cancelled = playlist.status === PlaylistStatus.CANCELLED;
+    await this.fail(parent.playlist, parent.context, parent.slotId, {
+      code: cancelled ? 'CHILD_CANCELLED' : 'CHILD_FAILED',
+      message: `Child playlist ${playlist.slug} ${cancelled ? 'was cancelled' : 'failed'}.`,
+      retryable: !cancelled,
+    });
+  }
+
+  /**
+   * Retrieves the parent playlist, its context and the slot a child playlist reports to.
+   *
+   * @param playlist - The child playlist.
+   * @returns The parent data, or null if the playlist has no parent.
+   */
+  private async getParent(playlist: Playlist): Promise<{
+    playlist: Playlist;
+    context: PlaylistContextDocument;
+    slotId: number;
+  } | null> {
+    if (!playlist.parent_playlist_id) {
+      return null;
+    }
+
+    const parent = await this.playlist.findByPk(playlist.parent_playlist_id);
+    const context = parent && (await this.getContext(parent.id));
+    const slot = context?.sequence.find(
+      ({ name }) => name === playlist.parent_slot,
+    );
+
+    if (!parent || !context || !slot) {
+      this.logger.error(
+        `Parent of playlist ${playlist.slug} could not be found.`,
+      );
+      return null;
+    }
+
+    return { playlist: parent, context, slotId: slot.id };
+  }
+
+  /**
+   * Cancels a playlist and its running child playlists. Slots that are still running
+   * can segue, but their output won't advance the playlist.
+   *
+   * @param {string} slug - The slug of the playlist to cancel.
+   * @returns {Promise<PlaylistStateResponse>} The new state of the playlist.
+   * @throws {NotFoundException} If the playlist does not exist.
+   * @throws {ConflictException} If the playlist has already finished.
+   */
+  async cancel(slug: string): Promise<PlaylistStateResponse> {
+    const playlist = await this.transition(
+      slug,
+      [
+        PlaylistStatus.QUEUED,
+        PlaylistStatus.CREATED,
+        PlaylistStatus.RUNNING,
+        PlaylistStatus.PAUSED,
+        PlaylistStatus.AWAITING_APPROVAL,
+      ],
+      PlaylistStatus.CANCELLED,
+    );
+
+    /**
+     * Cancel the child playlists that are still going.
+     */
+    const children = await this.playlist.findAll({
+      where: {
+        parent_playlist_id: playlist.id,
+        status: [
+          PlaylistStatus.QUEUED,
+          PlaylistStatus.CREATED,
+          PlaylistStatus.RUNNING,
+          PlaylistStatus.PAUSED,
+          PlaylistStatus.AWAITING_APPROVAL,
+        ],
+      },
+    });
+
+    for (const child of children) {
+      await this.cancel(child.slug);
+    }
+
+    /**
+     * Admit the playlists waiting for the place this one held.
+     */
+    await this.drain();
+
+    return { slug, status: playlist.status };
+  }
+
+  /**
+   * Pauses a playlist. Nothing is dispatched and no output advances the playlist
+   * until it is resumed.
+   *
+   * @param {string} slug - The slug of the playlist to pause.
+   * @returns {Promise<PlaylistStateResponse>} The new state of the playlist.
+   * @throws {NotFoundException} If the playlist does not exist.
+   * @throws {ConflictException} If the playlist is not running.
+   */
+  async pause(slug: string): Promise<PlaylistStateResponse> {
+    const playlist = await this.transition(
+      slug,
+      [PlaylistStatus.CREATED, PlaylistStatus.RUNNING],
+      PlaylistStatus.PAUSED,
+    );
+
+    return { slug, status: playlist.status };
+  }
+
+  /**
+   * Resumes a paused playlist.
+   *
+   * The outputs held while paused advance the playlist, and the slots left pending
+   * are dispatched.
+   *
+   * @param {string} slug - The slug of the playlist to resume.
+   * @returns {Promise<PlaylistStateResponse>} The new state of the playlist.
+   * @throws {NotFoundException} If the playlist or its context does not exist.
+   * @throws {ConflictException} If the playlist is not paused.
+   */
+  async resume(slug: string): Promise<PlaylistStateResponse> {
+    const playlist = await this.transition(
+      slug,
+      [PlaylistStatus.PAUSED],
+      PlaylistStatus.RUNNING,
+    );
+
+    const context = await this.getContext(playlist.id);
+    if (!context) {
+      throw new NotFoundException(
+        `Context for playlist with slug ${slug} not found.`,
+      );
+    }
+
+    const held = context.sequence.filter(
+      ({ status }) => status === SlotStatus.HELD,
+    );
+    const pending = context.sequence.filter(
+      ({ status }) => status === SlotStatus.PENDING,
+    );
+
+    for (const slot of held) {
+      const index = this.getSlotIndex(context, slot.id);
+      slot.status = SlotStatus.COMPLETE;
+      context.markModified(`sequence.${index}.status`);
+      await context.save();
+      await this.advance(playlist, context, index);
+    }
+
+    for (const slot of pending) {
+      await this.run(playlist, context, slot.id);
+    }
+
+    return { slug, status: playlist.status };
+  }
+
+  /**
+   * Retries a failed playlist from a given slot.
+   *
+   * The outputs and execution state of the slot and every slot downstream of it
+   * are cleared, while the outputs of the earlier slots are kept. Join slots only
+   * forget the arrivals of the cleared branches. The playlist then runs again from
+   * that slot.
+   *
+   * @param {string} slug - The slug of the playlist to retry.
+   * @param {string | number} fromSlot - The ID or name of the slot to retry from. Defaults to the slot that failed.
+   * @returns {Promise<PlaylistStateResponse>} The new state of the playlist.
+   * @throws {NotFoundException} If the playlist, its context or the slot can't be found.
+   * @throws {ConflictException} If the playlist is not failed.
+   */
+  async retry(
+    slug: string,
+    fromSlot?: string | number,
+  ): Promise<PlaylistStateResponse> {
+    const playlist = await this.getPlaylist(slug);
+
+    if (!playlist) {
+      throw new NotFoundException(`Playlist with slug ${slug} not found.`);
+    }
+
+    if (playlist.status !== PlaylistStatus.FAILED) {
+      throw new ConflictException(
+        `Playlist with slug ${slug} cannot be retried while ${playlist.status}.`,
+      );
+    }
+
+    const context = await this.getContext(playlist.id);
+    if (!context) {
+      throw new NotFoundException(
+        `Context for playlist with slug ${slug} not found.`,
+      );
+    }
+
+    /**
+     * Find the slot to retry from, by ID or by name. Without one, retry the slot that failed.
+     */
+    const slot =
+      fromSlot === undefined || fromSlot === ''
+        ? context.sequence.find(({ status }) => status === SlotStatus.FAILED) ||
+          context.sequence.find(({ id }) => id === playlist.current_slot_id)
+        : context.sequence.find(
+            ({ id, name }) => id === Number(fromSlot) || name === fromSlot,
+          );
+
+    if (!slot) {
+      throw new NotFoundException(
+        `Slot ${fromSlot ?? ''} not found in playlist with slug ${slug}.`,
+      );
+    }
+
+    /**
+     * Clear the slot and everything downstream of it, before the playlist can be
+     * admitted again.
+     */
+    const version = await playlist.$get('version');
+    const cleared = getDownstreamSlotIds(
+      context.sequence,
+      version?.root_slot ?? context.sequence[0].id,
+      slot.id,
+    );
+    const names = new Set(
+      context.sequence
+        .filter(({ id }) => cleared.has(id))
+        .map(({ name }) => name),
+    );
+
+    const unset: Record<string, ''> = {};
+    const set: Record<string, string[]> = {};
+    context.sequence.forEach(({ id, arrivals }, index) => {
+      if (!cleared.has(id)) {
+        return;
+      }
+
+      for (const field of [
+        'output',
+        'output_blob',
+        'attempts',
+        'deadline',
+        'error',
+        'status',
+      ]) {
+        unset[`sequence.${index}.${field}`] = '';
+      }
+
+      if (arrivals?.length) {
+        set[`sequence.${index}.arrivals`] = arrivals.filter(
+          (name) => !names.has(name),
+        );
+      }
+    });
+    await this.context.updateOne(
+      { id: playlist.id },
+      { $unset: unset, $set: set },
+    );
+    await this.deleteBlobs(
+      context.sequence.filter(({ id }) => cleared.has(id)),
+    );
+
+    this.logger.log(
+      `Retrying playlist ${slug} from slot ${slot.name}, clearing ${cleared.size} slots.`,
+    );
+
+    /**
+     * Only one retry gets to move the playlist out of 'FAILED', together with the
+     * slot to run again from. The playlist then waits for admission like a new one.
+     */
+    await this.transition(
+      slug,
+      [PlaylistStatus.FAILED],
+      PlaylistStatus.QUEUED,
+      {
+        current_slot_id: slot.id,
+      },
+    );
+    await this.drain();
+    await playlist.reload();
+
+    return { slug, status: playlist.status };
+  }
+
+  /**
+   * Atomically moves a playlist from one of the given statuses to a new one.
+   *
+   * @param slug - The slug of the playlist.
+   * @param from - The statuses the playlist may currently be in.
+   * @param to - The status to move the playlist to.
+   * @param values - Other attributes to set in the same update.
+   * @returns {Promise<Playlist>} The updated playlist.
+   * @throws {NotFoundException} If the playlist does not exist.
+   * @throws {ConflictException} If the playlist is not in any of the given statuses.
+   */
+  private async transition(
+    slug: string,
+    from: PlaylistStatus[],
+    to: PlaylistStatus,
+    values: Partial<Pick<Playlist, 'current_slot_id'>> = {},
+  ): Promise<Playlist> {
+    const playlist = await this.getPlaylist(slug);
+
+    if (!playlist) {
+      throw new NotFoundException(`Playlist with slug ${slug} not found.`);
+    }
+
+    const [affected] = await this.playlist.update(
+      { ...values, status: to, updatedAt: new Date() },
+      { where: { id: playlist.id, status: from } },
+    );
+
+    if (!affected) {
+      throw new ConflictException(
+        `Playlist with slug ${slug} cannot move from ${playlist.status} to ${to}.`,
+      );
+    }
+
+    await playlist.reload();
+
+    /**
+     * Notify the frontend to refresh playlists.
+     */
+    this.refresh(playlist);
+
+    return playlist;
+  }
+
+  /**
+   * Handles the segue operation for a playlist.
+   *
+   * This method retrieves the playlist by its slug, updates the context with the output from the segue,
+   * and advances the playlist from the slot that reported it. A segue reporting a failure is handled
+   * by `fail` instead, which stores the error on the slot and retries it, routes the playlist to the
+   * error slot or crashes it.
+   *
+   * @param {SegueRequest} param0 - An object containing the slug of the playlist and the output to update, or the error of the slot.
+   * @returns {Promise<SegueResponse>} - A promise that resolves to a response indicating the success of the operation.
+   * @throws {Error} - Throws an error if the playlist does not exist or if any other error occurs during the operation.
+   */
+  async segue({
+    slug,
+    output,
+    operation,
+    status,
+    error_code,
+    error_message,
+    retryable,
+  }: SegueRequest): Promise<SegueResponse> {
+    try {
+      /**
+       * Retrieve the playlist by its slug.
+       */
+      const playlist = await this.getPlaylist(slug);
+
+      /**
+       * Throw an error if the playlist does not exist.
+       */
+      if (!playlist) {
+        throw new Error(`Playlist with slug ${slug} not found.`);
+      }
+
+      /**
+       * Retrieve the context for the playlist.
+       */
+      const context = await this.getContext(playlist.id);
+      if (!context) {
+        throw new Error(`Context for playlist with slug ${slug} not found.`);
+      }
+
+      /**
+       * Get the slot that reported the output.
+       */
+      const currentSlot = context.sequence.findIndex(
+        (item) => item.name === operation,
+      );
+
+      if (currentSlot === -1) {
+        throw new Error(`Slot ${operation} not found in playlist ${slug}.`);
+      }
+
+      /**
+       * Only a running slot can report, so a duplicate or late segue, e.g. from an
+       * attempt the watchdog already gave up on, doesn't advance the playlist twice.
+       */
+      if (context.sequence[currentSlot].status !== SlotStatus.RUNNING) {
+        throw new RpcException({
+          code: GrpcStatus.FAILED_PRECONDITION,
+          message: `Slot ${operation} of playlist ${slug} is not running.`,
+        });
+      }
+
+      /**
+       * Handle the failure reported by the slot, unless the playlist was cancelled.
+       */
+      if (status === SegueStatus.FAILURE) {
+        if (playlist.status === PlaylistStatus.CANCELLED) {
+          this.logger.log(
+            `Ignoring failure of slot ${operation} for CANCELLED playlist ${slug}.`,
+          );
+        } else {
+          await this.fail(playlist, context, context.sequence[currentSlot].id, {
+            code: error_code || 'PLUGIN_FAILED',
+            message: error_message || 'The plugin reported a failure.',
+            retryable: !!retryable,
+          });
+        }
+
+        return { success: true };
+      }
+
+      /**
+       * Reject output that doesn't match the output schema of the plugin, so it
+       * never reaches the slots downstream.
+       */
+      const slot = context.sequence[currentSlot];
+      let parsed: unknown;
+      let outputErrors: string | null;
+      try {
+        parsed = JSON.parse(output);
+        outputErrors = validateSchema(slot.plugin?.output_schema, parsed);
       } catch (error) {
-        this.logger.error(`⚠️ Unexpected gRPC error: ${error.message}`);
-        reject(new Error(error.message));
+        outputErrors = `The output is not valid JSON: ${error.message}`;
+      }
+
+      if (outputErrors) {
+        const message = `The output of slot ${operation} is invalid: ${outputErrors}`;
+
+        /**
+         * A cancelled playlist stays cancelled, and a paused one runs the slot again
+         * once resumed.
+         */
+        if (playlist.status === PlaylistStatus.CANCELLED) {
+          this.logger.log(
+            `Ignoring invalid output of slot ${operation} for CANCELLED playlist ${slug}.`,
+          );
+        } else if (playlist.status === PlaylistStatus.PAUSED) {
+          await this.context.updateOne(
+            {
+              id: playlist.id,
+              [`sequence.${currentSlot}.status`]: SlotStatus.RUNNING,
+            },
+            {
+              $set: {
+                [`sequence.${currentSlot}.status`]: SlotStatus.PENDING,
+                [`sequence.${currentSlot}.deadline`]: null,
+              },
+            },
+          );
+        } else {
+          await this.fail(playlist, context, slot.id, {
+            code: 'INVALID_OUTPUT',
+            message,
+            retryable: false,
+          });
+        }
+
+        throw new RpcException({ code: GrpcStatus.INVALID_ARGUMENT, message });
+      }
+
+      /**
+       * Update the context with the output from the segue.
+       *
+       * The output of a paused playlist is held until it is resumed.
+       */
+      const paused = playlist.status === PlaylistStatus.PAUSED;
+      const stored = await this.offload(playlist, operation, output, parsed);
+      const slotStatus = paused ? SlotStatus.HELD : SlotStatus.COMPLETE;
+
+      /**
+       * The update only applies while the slot is running, so of two concurrent
+       * segues for the same slot only one gets to advance the playlist.
+       */
+      const claimed = await this.context.updateOne(
+        {
+          id: playlist.id,
+          [`sequence.${currentSlot}.status`]: SlotStatus.RUNNING,
+        },
+        {
+          $set: {
+            [`sequence.${currentSlot}.output`]: stored.output,
+            [`sequence.${currentSlot}.output_blob`]: stored.output_blob,
+            [`sequence.${currentSlot}.deadline`]: null,
+            [`sequence.${currentSlot}.status`]: slotStatus,
+          },
+        },
+      );
+
+      if (claimed.modifiedCount !== 1) {
+        throw new RpcException({
+          code: GrpcStatus.FAILED_PRECONDITION,
+          message: `Slot ${operation} of playlist ${slug} is not running.`,
+        });
+      }
+
+      context.sequence[currentSlot].output = stored.output;
+      context.sequence[currentSlot].output_blob = stored.output_blob;
+      context.sequence[currentSlot].deadline = null;
+      context.sequence[currentSlot].status = slotStatus;
+
+      /**
+       * Continue the playlist execution, unless it was paused or cancelled.
+       */
+      if (paused || playlist.status === PlaylistStatus.CANCELLED) {
+        this.logger.log(
+          `Stored output of slot ${operation} for ${playlist.status} playlist ${slug}.`,
+        );
+      } else {
+        await this.advance(playlist, context, currentSlot);
+      }
+
+      /**
+       * Return a success response.
+       */
+      return { success: true };
+    } catch (error) {
+      this.logger.error('Fatal on Segue:', JSON.stringify(error, null, 2));
+      throw error;
+    }
+  }
+
+  /**
+   * Records the progress reported by a running slot.
+   *
+   * The progress is stored on the slot and broadcast to the frontend. If the slot has a
+   * deadline, it is pushed back by the slot timeout, so long-running plugins that keep
+   * reporting progress aren't considered stalled.
+   *
+   * @param {HeartbeatRequest} param0 - The slug of the playlist, the slot and its progress.
+   * @returns {Promise<HeartbeatResponse>} Whether the progress was recorded. It isn't if the slot is not running.
+   * @throws {Error} If the playlist, its context or the slot can't be found.
+   */
+  async heartbeat({
+    slug,
+    operation,
+    percent,
+    message,
+  }: HeartbeatRequest): Promise<HeartbeatResponse> {
+    const playlist = await this.getPlaylist(slug);
+
+    if (!playlist) {
+      throw new Error(`Playlist with slug ${slug} not found.`);
+    }
+
+    const context = await this.getContext(playlist.id);
+    if (!context) {
+      throw new Error(`Context for playlist with slug ${slug} not found.`);
+    }
+
+    const index = context.sequence.findIndex(({ name }) => name === operation);
+    if (index === -1) {
+      throw new Error(`Slot ${operation} not found in playlist ${slug}.`);
+    }
+
+    const slot = context.sequence[index];
+    const now = new Date();
+    const progress: SlotProgress = {
+      percent: Math.min(100, Math.max(0, Number(percent) || 0)),
+      message: message || '',
+      at: now,
+    };
+
+    const update: Record<string, unknown> = {
+      [`sequence.${index}.progress`]: progress,
+    };
+
+    const timeout = slot.timeout_seconds ?? slot.plugin?.timeout_seconds;
+    if (slot.deadline && timeout) {
+      update[`sequence.${index}.deadline`] = new Date(
+        now.getTime() + timeout * 1000,
+      );
+    }
+
+    /**
+     * Only record the progress while the slot is running, so a late heartbeat
+     * doesn't extend the deadline of a slot that has already finished.
+     */
+    const { modifiedCount } = await this.context.updateOne(
+      { id: playlist.id, [`sequence.${index}.status`]: SlotStatus.RUNNING },
+      { $set: update },
+    );
+
+    if (!modifiedCount) {
+      return { success: false };
+    }
+
+    this.notificationsService.playlistProgress(
+      slug,
+      operation,
+      progress.percent,
+      progress.message,
+    );
+
+    return { success: true };
+  }
+
+  /**
+   * Advances the playlist from a slot that has just completed.
+   *
+   * The next slots are dispatched concurrently. A join slot, one with `min_outputs`
+   * greater than one, is only dispatched once that many of its incoming branches
+   * have reached it. When there's nothing left to run, the playlist is finished.
+   *
+   * @param playlist - The playlist to advance.
+   * @param context - The context of the playlist.
+   * @param index - The index of the completed slot in the sequence.
+   * @returns A promise that resolves once the next slots have been dispatched.
+   */
+  async advance(
+    playlist: Playlist,
+    context: PlaylistContextDocument,
+    index: number,
+  ): Promise<void> {
+    const slot = context.sequence[index];
+
+    /**
+     * Work out which of the next slots are ready to run.
+     */
+    const ready: number[] = [];
+    for (const nextSlotId of await this.getNextSlotIds(slot, context)) {
+      if (await this.join(playlist, context, slot, nextSlotId)) {
+        ready.push(nextSlotId);
+      }
+    }
+
+    /**
+     * Notify the frontend to refresh playlists.
+     */
+    this.refresh(playlist);
+
+    if (ready.length) {
+      /**
+       * Record the last dispatched slot. With parallel branches it is only the last
+       * of them, as the status of every slot is kept in the context.
+       */
+      playlist.current_slot_id = ready[ready.length - 1];
+      playlist.updatedAt = new Date();
+      await playlist.save();
+
+      if (ready.length === 1) {
+        await this.run(playlist, context, ready[0]);
+        return;
       }
-    }).catch((error) => {
+
+      /**
+       * Each branch works on its own copy of the context, as the same document
+       * can't be saved in parallel.
+       */
+      await Promise.all(
+        ready.map(async (nextSlotId) =>
+          this.run(playlist, (await this.getContext(playlist.id))!, nextSlotId),
+        ),
+      );
+      return;
+    }
+
+    await this.finish(playlist);
+  }
+
+  /**
+   * Resolves the slots that follow a completed slot.
+   *
+   * A slot with `fan_out_slot_ids` fans out to all of them. Otherwise, the slot
+   * conditions are evaluated against the output and the playlist metadata,
+   * falling back to the default next slot.
+   *
+   * @param slot - The completed slot.
+   * @param context - The context of the playlist.
+   * @returns The IDs of the next slots. Empty if the branch ends here.
+   */
+  private async getNextSlotIds(
+    slot: Slot,
+    context: PlaylistContextDocument,
+  ): Promise<number[]> {
+    if (slot.fan_out_slot_ids?.length) {
+      return slot.fan_out_slot_ids;
+    }
+
+    /**
+     * Conditions are evaluated against the full output, even if it was offloaded.
+     */
+    const output =
+      Array.isArray(slot.conditions) && slot.conditions.length
+        ? await this.hydrate(slot)
+        : slot.output;
+
+    const nextSlotId = resolveNextSlotId(slot, {
+      output,
+      metadata: context.metadata,
+    });
+
+    return nextSlotId === null ? [] : [nextSlotId];
+  }
+
+  /**
+   * Registers the arrival of a branch at the next slot and tells whether it can run.
+   *
+   * Slots with `min_outputs` of one or less run as soon as any branch reaches them.
+   * Join slots record every incoming branch and run only once, when `min_outputs`
+   * of them have arrived. Both updates are atomic, so concurrent segues can't
+   * dispatch a join twice.
+   *
+   * @param playlist - The playlist being advanced.
+   * @param context - The context of the playlist.
+   * @param from - The slot the branch is coming from.
+   * @param slotId - The slot the branch is heading to.
+   * @returns Whether the slot should be dispatched.
+   */
+  private async join(
+    playlist: Playlist,
+    context: PlaylistContextDocument,
+    from: Slot,
+    slotId: number,
+  ): Promise<boolean> {
+    const index = this.getSlotIndex(context, slotId);
+    const target = context.sequence[index];
+
+    if ((target.min_outputs || 0) <= 1) {
+      return true;
+    }
+
+    const updated = await this.context.findOneAndUpdate(
+      { id: playlist.id },
+      { $addToSet: { [`sequence.${index}.arrivals`]: from.name } },
+      { new: true },
+    );
+
+    const arrivals = updated?.sequence[index].arrivals || [];
+    if (arrivals.length < target.min_outputs) {
+      this.logger.log(
+        `Slot ${target.name} of playlist ${playlist.slug} is waiting for ${target.min_outputs - arrivals.length} more branches.`,
+      );
+      return false;
+    }
+
+    const claimed = await this.context.updateOne(
+      { id: playlist.id, [`sequence.${index}.status`]: null },
+      { $set: { [`sequence.${index}.status`]: SlotStatus.RUNNING } },
+    );
+
+    return claimed.modifiedCount === 1;
+  }
+
+  /**
+   * Finishes the playlist once none of its slots is running anymore.
+   *
+   * If a join slot was reached by some branches but never got enough of them to
+   * run, the playlist is crashed. Otherwise, it is marked as complete and delivered.
+   *
+   * @param playlist - The playlist to finish.
+   * @returns A promise that resolves once the playlist has been finished, if applicable.
+   */
+  private async finish(playlist: Playlist): Promise<void> {
+    /**
+     * Read the context again, as other branches may have updated it meanwhile.
+     */
+    const context = await this.getContext(playlist.id);
+    if (!context) {
+      throw new Error(`Context for playlist ${playlist.slug} not found.`);
+    }
+
+    if (
+      context.sequence.some(({ status }) =>
+        [SlotStatus.QUEUED, SlotStatus.RUNNING].includes(status!),
+      )
+    ) {
+      return;
+    }
+
+    const starved = context.sequence.find(
+      ({ arrivals, status }) => arrivals?.length && !status,
+    );
+    if (starved) {
       this.logger.error(
-        `⚠️ Gracefully handling gRPC failure: ${error.message}`,
+        `Slot ${starved.name} of playlist ${playlist.slug} never received ${starved.min_outputs} outputs.`,
       );
+      await this.crash(playlist);
+      return;
+    }
+
+    /**
+     * Only one of the branches that finish concurrently gets to complete the playlist.
+     */
+    const [affected] = await this.playlist.update(
+      {
+        status: PlaylistStatus.COMPLETE,
+        current_slot_id: null,
+        updatedAt: new Date(),
+      },
+      { where: { id: playlist.id, status: PlaylistStatus.RUNNING } },
+    );
+
+    if (!affected) {
+      return;
+    }
+
+    await playlist.reload();
+
+    /**
+     * Notify the frontend to refresh playlists.
+     */
+    this.refresh(playlist);
+
+    /**
+     * Admit the playlists waiting for the place this one held.
+     */
+    await this.drain();
+
+    /**
+     * A child playlist reports its outputs to the parent slot, keyed by slot name.
+     */
+    if (playlist.parent_playlist_id) {
+      await this.report(playlist, context);
+      return;
+    }
+
+    /**
+     * Return to Sender.
+     */
+    await this.deliver(playlist, context);
+  }
+
+  /**
+   * Queues the delivery of the given playlist to its origin.
+   *
+   * The delivery itself is attempted, and retried, by the `DeliveriesService`, so a
+   * client that is down doesn't miss the result. Simulations are never delivered.
+   *
+   * @param {Playlist} playlist - The playlist to be delivered.
+   * @param {PlaylistContextDocument} context - The context of the playlist.
+   * @returns {Promise<Delivery | null>} The queued delivery, or null if the playlist has no origin.
+   */
+  async deliver(
+    playlist: Playlist,
+    context: PlaylistContextDocument,
+  ): Promise<Delivery | null> {
+    if (!context.origin || playlist.simulation) {
       return null;
+    }
+
+    return this.delivery.create({
+      playlists_id: playlist.id,
+      origin: context.origin,
+      mode: context.delivery_mode || DeliveryMode.GRPC,
+      available_at: new Date(),
     });
   }
 }
@@ -1,5 +1,6 @@
 import { Test, TestingModule } from '@nestjs/testing';
 import { PluginsController } from './plugins.controller';
+import { PluginsService } from './plugins.service';
 
 describe('PluginsController', () => {
   let controller: PluginsController;
@@ -7,6 +8,7 @@ describe('PluginsController', () => {
   beforeEach(async () => {
     const module: TestingModule = await Test.createTestingModule({
       controllers: [PluginsController],
+      providers: [{ provide: PluginsService, useValue: {} }],
     }).compile();
 
     controller = module.get<PluginsController>(PluginsController);
@@ -1,4 +1,4 @@
-import { Controller, Get, Param } from '@nestjs/common';
+import { Body, Controller, Get, Param, Put } from '@nestjs/common';
 import { Logger } from 'src/decorators/logger.decorator';
 import { Plugin } from 'src/models/plugin.model';
 import { JSONLogger } from 'src/utils/logger';
@@ -34,4 +34,20 @@ export class PluginsController {
   getPlugin(@Param('slug') slug: string) {
     return this.pluginsService.getPlugin(slug);
   }
+
+  /**
+   * Registers the JSON Schemas of the input a plugin expects and the output it produces.
+   *
+   * @param {string} slug - The unique identifier for the plugin.
+   * @param {object} schemas - The `input_schema` and `output_schema` of the plugin.
+   * @returns {Promise<Plugin>} The updated plugin.
+   */
+  @Put(':slug/schemas')
+  updateSchemas(
+    @Param('slug') slug: string,
+    @Body()
+    schemas: { input_schema?: object | null; output_schema?: object | null },
+  ): Promise<Plugin> {
+    return this.pluginsService.updateSchemas(slug, schemas);
+  }
 }
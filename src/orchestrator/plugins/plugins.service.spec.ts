@@ -1,4 +1,7 @@
+import { getModelToken } from '@nestjs/sequelize';
 import { Test, TestingModule } from '@nestjs/testing';
+import { Plugin } from 'src/models/plugin.model';
+import { ClientFactory } from '../client.factory';
 import { PluginsService } from './plugins.service';
 
 describe('PluginsService', () => {
@@ -6,7 +9,11 @@ describe('PluginsService', () => {
 
   beforeEach(async () => {
     const module: TestingModule = await Test.createTestingModule({
-      providers: [PluginsService],
+      providers: [
+        PluginsService,
+        { provide: ClientFactory, useValue: {} },
+        { provide: getModelToken(Plugin), useValue: {} },
+      ],
     }).compile();
 
     service = module.get<PluginsService>(PluginsService);
@@ -4,9 +4,15 @@ import { Logger } from 'src/decorators/logger.decorator';
 import { PlaylistContextDocument } from 'src/models/playlist.context';
 import { Playlist } from 'src/models/playlist.model';
 import { Plugin } from 'src/models/plugin.model';
+import { SlotAttempt } from 'src/models/slot.model';
 import { JSONLogger } from 'src/utils/logger';
 import { getGrpcTalkbackEndpoint } from 'src/utils/network';
-import { ClientFactory, WorkerService } from '../client.factory';
+import { checkSchema } from 'src/utils/schemas';
+import {
+  ClientFactory,
+  WorkerResponse,
+  WorkerService,
+} from '../client.factory';
 
 /**
  * Service responsible for processing plugins in a playlist sequence.
@@ -45,14 +51,49 @@ export class PluginsService {
     return this.plugin.findOne({ where: { slug } });
   }
 
+  /**
+   * Registers the JSON Schemas of the input a plugin expects and the output it produces.
+   *
+   * @param slug - The unique identifier for the plugin.
+   * @param schemas - The input and output schemas. Null clears a schema, undefined keeps it.
+   * @returns {Promise<Plugin>} The updated plugin.
+   * @throws {Error} If the plugin does not exist or any of the schemas is invalid.
+   */
+  async updateSchemas(
+    slug: string,
+    schemas: { input_schema?: object | null; output_schema?: object | null },
+  ): Promise<Plugin> {
+    const plugin = await this.getPlugin(slug);
+
+    if (!plugin) {
+      throw new Error(`Plugin with slug ${slug} not found.`);
+    }
+
+    for (const key of ['input_schema', 'output_schema'] as const) {
+      const schema = schemas[key];
+      const problem = schema ? checkSchema(schema) : null;
+
+      if (problem) {
+        throw new Error(`The ${key} of plugin ${slug} is invalid: ${problem}`);
+      }
+
+      if (schema !== undefined) {
+        plugin.set(key, schema);
+      }
+    }
+
+    return plugin.save();
+  }
+
   /**
    * Invokes a plugin by communicating with the worker service.
    *
    * @param {Plugin} plugin - The plugin to be invoked, containing gRPC host and port information.
    * @param {object} payload - The payload to be sent to the worker service.
-   * @returns {Promise<any>} - A promise that resolves with the response from the worker service or rejects with an error.
+   * @returns {Promise<WorkerResponse>} - A promise that resolves with the response from the worker service.
+   * @throws {Error} - If the client can't be created, the request fails or the plugin reports a failure.
    */
-  async invokePlugin(plugin: Plugin, payload: object): Promise<any> {
+  async invokePlugin(plugin: Plugin, payload: object): Promise<WorkerResponse> {
     const client = this.clientFactory.createClient<WorkerService>(
       plugin.grpc_host,
       plugin.grpc_port,
@@ -62,11 +103,10 @@ export class PluginsService {
     );
 
     if (!client) {
-      this.logger.error('❌ Failed to create gRPC client, skipping request.');
-      return null;
+      throw new Error('Failed to create gRPC client.');
     }
 
-    return new Promise((resolve, reject) => {
+    return new Promise<WorkerResponse>((resolve, reject) => {
       try {
         client.performTask(
           { payload: JSON.stringify(payload) },
@@ -74,6 +114,9 @@ export class PluginsService {
             if (err) {
               this.logger.error(`⚠️ gRPC request failed: ${err.message}`);
               reject(new Error(`gRPC request failed: ${err.message}`));
+            } else if (!response?.success) {
+              this.logger.error(`⚠️ Plugin ${plugin.slug} reported a failure`);
+              reject(new Error(`Plugin ${plugin.slug} reported a failure.`));
             } else {
               resolve(response);
             }
@@ -83,41 +126,79 @@ export class PluginsService {
         this.logger.error(`⚠️ Unexpected gRPC error: ${error.message}`);
         reject(new Error(error.message));
       }
-    }).catch((error) => {
-      this.logger.error(
-        `⚠️ Gracefully handling gRPC failure: ${error.message}`,
-      );
-      return null;
     });
   }
 
   /**
-   * Executes the plugin associated with the current slot in the playlist.
+   * Executes the plugin associated with a slot in the playlist.
+   *
+   * Every invocation is recorded as an attempt in the slot of the playlist context,
+   * regardless of its outcome. When the plugin accepts the task, the slot deadline
+   * is set from the slot timeout, or the plugin timeout if the slot doesn't set one.
    *
-   * @param playlist - The playlist object containing the sequence and current slot information.
-   * @throws {Error} If the current slot is not found in the playlist sequence.
+   * @param playlist - The playlist object containing the sequence.
+   * @param context - The context of the playlist.
+   * @param slotId - The slot whose plugin should be executed.
+   * @param input - The input resolved from the slot mapping. Without one, the plugin receives the whole context.
+   * @returns {Promise<boolean>} Whether the plugin accepted the task.
+   * @throws {Error} If the slot is not found in the playlist sequence.
    */
-  async run(playlist: Playlist, context: PlaylistContextDocument) {
+  async run(
+    playlist: Playlist,
+    context: PlaylistContextDocument,
+    slotId: number,
+    input?: unknown,
+  ): Promise<boolean> {
     /**
      * Get the plugin from the sequence.
      */
-    const current = context.sequence.find(
-      (item) => item.id === playlist.current_slot_id,
-    );
+    const index = context.sequence.findIndex((item) => item.id === slotId);
 
-    if (!current) {
-      throw new Error('Current slot not found');
+    if (index === -1) {
+      throw new Error(`Slot ${slotId} not found`);
     }
 
+    const current = context.sequence[index];
+    const attempts = current.attempts || [];
+    const attempt: SlotAttempt = {
+      attempt: attempts.length + 1,
+      started_at: new Date(),
+      success: false,
+    };
+
     try {
       await this.invokePlugin(current.plugin, {
         name: current.name,
         playlist,
-        context,
+        ...(input === undefined ? { context } : { input }),
         talkback: getGrpcTalkbackEndpoint(),
       });
+      attempt.success = true;
     } catch (error) {
       this.logger.error('Error invoking plugin:', error);
+      attempt.error = error.message;
     }
+
+    /**
+     * Record the attempt in the playlist context.
+     */
+    attempt.finished_at = new Date();
+    current.attempts = [...attempts, attempt];
+    context.markModified(`sequence.${index}.attempts`);
+
+    /**
+     * Once the plugin accepted the task, it has until the deadline to segue.
+     */
+    if (attempt.success) {
+      const timeout = current.timeout_seconds ?? current.plugin.timeout_seconds;
+      current.deadline = timeout
+        ? new Date(attempt.finished_at.getTime() + timeout * 1000)
+        : null;
+      context.markModified(`sequence.${index}.deadline`);
+    }
+
+    await context.save();
+
+    return attempt.success;
   }
 }
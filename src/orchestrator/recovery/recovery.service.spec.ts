@@ -0,0 +1,233 @@
+import { getModelToken } from '@nestjs/sequelize';
+import { Test, TestingModule } from '@nestjs/testing';
+import { Approval } from 'src/models/approval.model';
+import { Dispatch, DispatchStatus } from 'src/models/dispatch.model';
+import { Playlist, PlaylistStatus } from 'src/models/playlist.model';
+import { SlotStatus, SlotType } from 'src/models/slot.model';
+import { PlaylistsService } from '../playlists/playlists.service';
+import { RecoveryService } from './recovery.service';
+
+describe('RecoveryService', () => {
+  let service: RecoveryService;
+
+  const playlistsService = {
+    getContext: jest.fn(),
+    crash: jest.fn(),
+    advance: jest.fn(),
+    run: jest.fn(),
+    fail: jest.fn(),
+    report: jest.fn(),
+    drain: jest.fn(),
+  };
+  const playlistModel = { findAll: jest.fn(), findOne: jest.fn() };
+  const dispatchModel = { findAll: jest.fn() };
+  const approvalModel = { count: jest.fn() };
+
+  const playlist = { id: 1, slug: 'playlist', current_slot_id: 2 };
+
+  const dispatch = (fields: Record<string, any>) => ({
+    slot_id: 2,
+    update: jest.fn(),
+    destroy: jest.fn(),
+    ...fields,
+  });
+
+  /**
+   * Recovers the playlist with a context made of the given slots.
+   */
+  const recover = async (
+    sequence: Record<string, any>[],
+    dispatches: Record<string, any>[] = [],
+  ) => {
+    const context = { id: 1, sequence };
+    playlistModel.findAll.mockResolvedValue([playlist]);
+    playlistsService.getContext.mockResolvedValue(context);
+    dispatchModel.findAll.mockResolvedValue(dispatches);
+
+    await service.onApplicationBootstrap();
+
+    return context;
+  };
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        RecoveryService,
+        { provide: PlaylistsService, useValue: playlistsService },
+        { provide: getModelToken(Playlist), useValue: playlistModel },
+        { provide: getModelToken(Dispatch), useValue: dispatchModel },
+        { provide: getModelToken(Approval), useValue: approvalModel },
+      ],
+    }).compile();
+
+    service = module.get<RecoveryService>(RecoveryService);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  it('should crash playlists whose context is missing, then drain the queue', async () => {
+    playlistModel.findAll.mockResolvedValue([playlist]);
+    playlistsService.getContext.mockResolvedValue(null);
+
+    await service.onApplicationBootstrap();
+
+    expect(playlistsService.crash).toHaveBeenCalledWith(playlist);
+    expect(playlistsService.drain).toHaveBeenCalled();
+  });
+
+  it('should dispatch queued slots whose dispatch was lost', async () => {
+    const context = await recover([
+      { id: 2, name: 'two', status: SlotStatus.QUEUED },
+    ]);
+
+    expect(playlistsService.run).toHaveBeenCalledWith(playlist, context, 2);
+  });
+
+  it('should leave dispatches held by live leases alone', async () => {
+    const leased = dispatch({
+      status: DispatchStatus.LEASED,
+      leased_until: new Date(Date.now() + 60000),
+    });
+
+    await recover(
+      [
+        { id: 2, name: 'two', status: SlotStatus.QUEUED },
+        { id: 3, name: 'three', status: SlotStatus.RUNNING },
+      ],
+      [leased, { ...leased, slot_id: 3 }],
+    );
+
+    expect(leased.update).not.toHaveBeenCalled();
+    expect(leased.destroy).not.toHaveBeenCalled();
+    expect(playlistsService.run).not.toHaveBeenCalled();
+    expect(playlistsService.fail).not.toHaveBeenCalled();
+  });
+
+  it('should release dispatches whose lease ran out', async () => {
+    const expired = dispatch({
+      status: DispatchStatus.LEASED,
+      leased_until: new Date(Date.now() - 60000),
+    });
+
+    await recover(
+      [{ id: 2, name: 'two', status: SlotStatus.QUEUED }],
+      [expired],
+    );
+
+    expect(expired.update).toHaveBeenCalledWith({
+      status: DispatchStatus.PENDING,
+      lease_owner: null,
+      leased_until: null,
+    });
+    expect(playlistsService.run).not.toHaveBeenCalled();
+  });
+
+  it('should leave running slots awaiting their plugin output alone', async () => {
+    await recover([
+      {
+        id: 2,
+        name: 'two',
+        status: SlotStatus.RUNNING,
+        deadline: new Date(Date.now() + 60000),
+      },
+    ]);
+
+    expect(playlistsService.run).not.toHaveBeenCalled();
+  });
+
+  it('should dispatch interrupted slots again, clearing their dispatches', async () => {
+    const expired = dispatch({
+      status: DispatchStatus.LEASED,
+      leased_until: new Date(Date.now() - 60000),
+    });
+
+    const context = await recover(
+      [
+        {
+          id: 2,
+          name: 'two',
+          type: SlotType.PLUGIN,
+          status: SlotStatus.RUNNING,
+        },
+      ],
+      [expired],
+    );
+
+    expect(expired.destroy).toHaveBeenCalled();
+    expect(playlistsService.run).toHaveBeenCalledWith(playlist, context, 2);
+  });
+
+  it('should wait for a child playlist that is still going', async () => {
+    playlistModel.findOne.mockResolvedValue({ status: PlaylistStatus.RUNNING });
+
+    await recover([
+      {
+        id: 2,
+        name: 'two',
+        type: SlotType.STRATEGY,
+        status: SlotStatus.RUNNING,
+      },
+    ]);
+
+    expect(playlistModel.findOne).toHaveBeenCalledWith({
+      where: { parent_playlist_id: 1, parent_slot: 'two' },
+      order: [['id', 'DESC']],
+    });
+    expect(playlistsService.report).not.toHaveBeenCalled();
+    expect(playlistsService.run).not.toHaveBeenCalled();
+  });
+
+  it('should report a child playlist that finished without reaching its parent', async () => {
+    const child = { status: PlaylistStatus.COMPLETE };
+    playlistModel.findOne.mockResolvedValue(child);
+
+    await recover([
+      {
+        id: 2,
+        name: 'two',
+        type: SlotType.STRATEGY,
+        status: SlotStatus.RUNNING,
+      },
+    ]);
+
+    expect(playlistsService.report).toHaveBeenCalledWith(child);
+    expect(playlistsService.run).not.toHaveBeenCalled();
+  });
+
+  it('should leave approval slots with a pending approval alone', async () => {
+    approvalModel.count.mockResolvedValue(1);
+
+    await recover([
+      {
+        id: 2,
+        name: 'two',
+        type: SlotType.APPROVAL,
+        status: SlotStatus.RUNNING,
+      },
+    ]);
+
+    expect(playlistsService.run).not.toHaveBeenCalled();
+  });
+
+  it('should advance from a slot whose output was stored', async () => {
+    const context = await recover([
+      { id: 1, name: 'one', status: SlotStatus.COMPLETE },
+      { id: 2, name: 'two', status: SlotStatus.COMPLETE },
+    ]);
+
+    expect(playlistsService.advance).toHaveBeenCalledWith(playlist, context, 1);
+  });
+
+  it('should start playlists that never ran', async () => {
+    const context = await recover([
+      { id: 1, name: 'one' },
+      { id: 2, name: 'two' },
+    ]);
+
+    expect(playlistsService.run).toHaveBeenCalledWith(playlist, context, 2);
+  });
+});
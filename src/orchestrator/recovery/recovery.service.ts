@@ -0,0 +1,316 @@
+import { Injectable, OnApplicationBootstrap } from '@nestjs/common';
+import { InjectModel } from '@nestjs/sequelize';
+import { Logger } from 'src/decorators/logger.decorator';
+import { Approval, ApprovalStatus } from 'src/models/approval.model';
+import { Dispatch, DispatchStatus } from 'src/models/dispatch.model';
+import { PlaylistContextDocument } from 'src/models/playlist.context';
+import { Playlist, PlaylistStatus } from 'src/models/playlist.model';
+import { Slot, SlotStatus, SlotType } from 'src/models/slot.model';
+import { JSONLogger } from 'src/utils/logger';
+import { PlaylistsService } from '../playlists/playlists.service';
+
+/**
+ * What to do with a slot whose dispatch was sent but whose outcome is unknown.
+ */
+export enum RecoveryPolicy {
+  REDISPATCH = 'redispatch',
+  FAIL = 'fail',
+}
+
+/**
+ * The policy applied to interrupted slots.
+ *
+ * This value is retrieved from the environment variable `RECOVERY_POLICY`. If it is
+ * not set, interrupted slots are dispatched again.
+ *
+ * @constant
+ * @type {RecoveryPolicy}
+ */
+const recoveryPolicy: RecoveryPolicy =
+  process.env.RECOVERY_POLICY === RecoveryPolicy.FAIL
+    ? RecoveryPolicy.FAIL
+    : RecoveryPolicy.REDISPATCH;
+
+/**
+ * The statuses of a child playlist that is still going.
+ */
+const activeStatuses = [
+  PlaylistStatus.QUEUED,
+  PlaylistStatus.CREATED,
+  PlaylistStatus.RUNNING,
+  PlaylistStatus.PAUSED,
+  PlaylistStatus.AWAITING_APPROVAL,
+];
+
+/**
+ * Service responsible for picking up the playlists that were in flight when the service stopped.
+ *
+ * Other instances may still be running, as during a rolling deploy, so only the
+ * dispatches whose lease ran out and the slots no dispatch is held for are recovered.
+ */
+@Injectable()
+export class RecoveryService implements OnApplicationBootstrap {
+  /**
+   * Logger instance for logging messages.
+   */
+  @Logger(RecoveryService.name)
+  private readonly logger!: JSONLogger;
+
+  constructor(
+    private readonly playlistsService: PlaylistsService,
+    @InjectModel(Playlist) private readonly playlist: typeof Playlist,
+    @InjectModel(Dispatch) private readonly dispatch: typeof Dispatch,
+    @InjectModel(Approval) private readonly approval: typeof Approval,
+  ) {}
+
+  /**
+   * Recovers the created and running playlists once the application has started,
+   * then admits the queued ones.
+   */
+  async onApplicationBootstrap(): Promise<void> {
+    const playlists = await this.playlist.findAll({
+      where: { status: [PlaylistStatus.CREATED, PlaylistStatus.RUNNING] },
+      order: [['id', 'ASC']],
+    });
+
+    this.logger.log(
+      `Recovering ${playlists.length} playlists with the ${recoveryPolicy} policy.`,
+    );
+
+    for (const playlist of playlists) {
+      try {
+        await this.recover(playlist);
+      } catch (error) {
+        this.logger.error(
+          `Playlist ${playlist.slug} could not be recovered:`,
+          error,
+        );
+      }
+    }
+
+    await this.playlistsService.drain();
+  }
+
+  /**
+   * Works out where a playlist was left and picks it up from there.
+   *
+   * Each slot that was queued or running is checked against the dispatch queue and
+   * its recorded attempts, to tell whether its dispatch was sent and whether its
+   * output came back. If nothing was in flight, the playlist is advanced from the
+   * slot whose output was stored, or started if it never ran.
+   *
+   * @param playlist - The playlist to recover.
+   */
+  private async recover(playlist: Playlist): Promise<void> {
+    const context = await this.playlistsService.getContext(playlist.id);
+
+    if (!context) {
+      this.decide(playlist, null, 'context missing', 'crash');
+      await this.playlistsService.crash(playlist);
+      return;
+    }
+
+    const dispatches = await this.dispatch.findAll({
+      where: { playlists_id: playlist.id },
+    });
+
+    let inFlight = false;
+    for (const slot of context.sequence) {
+      if (slot.status === SlotStatus.QUEUED) {
+        await this.recoverQueued(playlist, context, slot, dispatches);
+        inFlight = true;
+      } else if (slot.status === SlotStatus.RUNNING) {
+        await this.recoverRunning(playlist, context, slot, dispatches);
+        inFlight = true;
+      }
+    }
+
+    if (inFlight) {
+      return;
+    }
+
+    const index = context.sequence.findIndex(
+      ({ id }) => id === playlist.current_slot_id,
+    );
+    const current = context.sequence[index];
+
+    if (current?.status === SlotStatus.COMPLETE) {
+      this.decide(playlist, current, 'output stored, not advanced', 'advance');
+      await this.playlistsService.advance(playlist, context, index);
+    } else if (current && context.sequence.every(({ status }) => !status)) {
+      this.decide(playlist, current, 'never dispatched', 'dispatch');
+      await this.playlistsService.run(playlist, context, current.id);
+    } else {
+      this.decide(playlist, current ?? null, 'nothing in flight', 'none');
+    }
+  }
+
+  /**
+   * Recovers a slot that was waiting in the dispatch queue. Its plugin was not invoked
+   * yet, so it is always safe to dispatch it again.
+   *
+   * @param playlist - The playlist of the slot.
+   * @param context - The context of the playlist.
+   * @param slot - The queued slot.
+   * @param dispatches - The dispatches of the playlist.
+   */
+  private async recoverQueued(
+    playlist: Playlist,
+    context: PlaylistContextDocument,
+    slot: Slot,
+    dispatches: Dispatch[],
+  ): Promise<void> {
+    const dispatch = dispatches.find(({ slot_id }) => slot_id === slot.id);
+
+    if (!dispatch) {
+      this.decide(playlist, slot, 'queued, dispatch lost', 'dispatch');
+      await this.playlistsService.run(playlist, context, slot.id);
+    } else if (this.isLeased(dispatch)) {
+      this.decide(playlist, slot, 'queued, dispatch leased', 'none');
+    } else if (dispatch.status === DispatchStatus.LEASED) {
+      this.decide(playlist, slot, 'queued, dispatch lease expired', 'release');
+      await dispatch.update({
+        status: DispatchStatus.PENDING,
+        lease_owner: null,
+        leased_until: null,
+      });
+    } else {
+      this.decide(playlist, slot, 'queued, dispatch pending', 'none');
+    }
+  }
+
+  /**
+   * Recovers a slot that was running. Slots that another instance is dispatching, and
+   * slots that are waiting for their plugin, child playlist or approval, are left
+   * alone. A child playlist that finished without reaching its parent is reported
+   * again. Slots whose dispatch was sent without a recorded outcome are handled
+   * according to the recovery policy.
+   *
+   * @param playlist - The playlist of the slot.
+   * @param context - The context of the playlist.
+   * @param slot - The running slot.
+   * @param dispatches - The dispatches of the playlist.
+   */
+  private async recoverRunning(
+    playlist: Playlist,
+    context: PlaylistContextDocument,
+    slot: Slot,
+    dispatches: Dispatch[],
+  ): Promise<void> {
+    const slotDispatches = dispatches.filter(
+      ({ slot_id }) => slot_id === slot.id,
+    );
+
+    if (slotDispatches.some((dispatch) => this.isLeased(dispatch))) {
+      this.decide(playlist, slot, 'running, dispatch leased', 'none');
+      return;
+    }
+
+    if (slot.type === SlotType.STRATEGY) {
+      const child = await this.playlist.findOne({
+        where: { parent_playlist_id: playlist.id, parent_slot: slot.name },
+        order: [['id', 'DESC']],
+      });
+
+      if (child && activeStatuses.includes(child.status)) {
+        this.decide(playlist, slot, 'dispatched, awaiting child', 'none');
+        return;
+      }
+
+      if (child) {
+        this.decide(
+          playlist,
+          slot,
+          `child ${child.status}, not reported`,
+          'report',
+        );
+        await this.playlistsService.report(child);
+        return;
+      }
+    }
+
+    if (await this.isAwaitingOutput(playlist, slot)) {
+      this.decide(playlist, slot, 'dispatched, awaiting output', 'none');
+      return;
+    }
+
+    /**
+     * The dispatch was interrupted, so its leftovers are cleared before deciding.
+     */
+    for (const dispatch of slotDispatches) {
+      await dispatch.destroy();
+    }
+
+    if (recoveryPolicy === RecoveryPolicy.FAIL) {
+      this.decide(playlist, slot, 'dispatched, outcome unknown', 'fail');
+      await this.playlistsService.fail(playlist, context, slot.id, {
+        code: 'INTERRUPTED',
+        message: 'The service stopped while the slot was being dispatched.',
+        retryable: false,
+      });
+      return;
+    }
+
+    this.decide(playlist, slot, 'dispatched, outcome unknown', 'dispatch');
+    await this.playlistsService.run(playlist, context, slot.id);
+  }
+
+  /**
+   * Checks whether a running slot was dispatched and is waiting for its output.
+   *
+   * @param playlist - The playlist of the slot.
+   * @param slot - The running slot.
+   * @returns {Promise<boolean>} Whether the slot is waiting for its output.
+   */
+  private async isAwaitingOutput(
+    playlist: Playlist,
+    slot: Slot,
+  ): Promise<boolean> {
+    switch (slot.type) {
+      case SlotType.APPROVAL:
+        return !!(await this.approval.count({
+          where: {
+            playlists_id: playlist.id,
+            slot_id: slot.id,
+            status: ApprovalStatus.PENDING,
+          },
+        }));
+      default:
+        return !!slot.deadline;
+    }
+  }
+
+  /**
+   * Checks whether a dispatch is held by a live lease, that is, whether an instance
+   * that is still running is processing it.
+   *
+   * @param dispatch - The dispatch to check.
+   * @returns {boolean} Whether the dispatch is leased and its lease hasn't run out.
+   */
+  private isLeased(dispatch: Dispatch): boolean {
+    return (
+      dispatch.status === DispatchStatus.LEASED &&
+      !!dispatch.leased_until &&
+      dispatch.leased_until >= new Date()
+    );
+  }
+
+  /**
+   * Logs a recovery decision.
+   *
+   * @param playlist - The playlist being recovered.
+   * @param slot - The slot the decision is about, if any.
+   * @param state - The state the slot was found in.
+   * @param action - What is done about it.
+   */
+  private decide(
+    playlist: Playlist,
+    slot: Slot | null,
+    state: string,
+    action: string,
+  ): void {
+    this.logger.log(
+      `Recovery of playlist ${playlist.slug}, slot ${slot?.name ?? '-'}: ${state}, ${action}.`,
+    );
+  }
+}
@@ -0,0 +1,44 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { PlaylistStatus } from 'src/models/playlist.model';
+import { RetentionController } from './retention.controller';
+import { RetentionService } from './retention.service';
+
+describe('RetentionController', () => {
+  let controller: RetentionController;
+
+  const retentionService = {
+    getPolicies: jest.fn(),
+    createPolicy: jest.fn(),
+    deletePolicy: jest.fn(),
+    restore: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [RetentionController],
+      providers: [{ provide: RetentionService, useValue: retentionService }],
+    }).compile();
+
+    controller = module.get<RetentionController>(RetentionController);
+  });
+
+  it('should be defined', () => {
+    expect(controller).toBeDefined();
+  });
+
+  it('should create policies and restore archives', async () => {
+    const input = {
+      strategy: 'audit',
+      status: PlaylistStatus.FAILED,
+      retention_days: 30,
+    };
+
+    await controller.createPolicy(input);
+    await controller.restore('playlist');
+
+    expect(retentionService.createPolicy).toHaveBeenCalledWith(input);
+    expect(retentionService.restore).toHaveBeenCalledWith('playlist');
+  });
+});
@@ -0,0 +1,70 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Param,
+  ParseIntPipe,
+  Post,
+} from '@nestjs/common';
+import { Logger } from 'src/decorators/logger.decorator';
+import { Playlist } from 'src/models/playlist.model';
+import { RetentionPolicy } from 'src/models/retention-policy.model';
+import { JSONLogger } from 'src/utils/logger';
+import { RetentionPolicyInput, RetentionService } from './retention.service';
+
+/**
+ * Controller for managing retention policies and restoring archived playlists.
+ */
+@Controller('retention')
+export class RetentionController {
+  constructor(private readonly retentionService: RetentionService) {}
+
+  /**
+   * Logger instance for logging messages.
+   */
+  @Logger(RetentionController.name)
+  private readonly logger!: JSONLogger;
+
+  /**
+   * Retrieves the retention policies.
+   *
+   * @returns {Promise<{ rows: RetentionPolicy[]; count: number }>} The policies and their count.
+   */
+  @Get('policies')
+  getPolicies(): Promise<{ rows: RetentionPolicy[]; count: number }> {
+    return this.retentionService.getPolicies();
+  }
+
+  /**
+   * Creates a retention policy.
+   *
+   * @param {RetentionPolicyInput} input - The strategy slug and status the policy applies to, and how many days to keep the playlists.
+   * @returns {Promise<RetentionPolicy>} The created policy.
+   */
+  @Post('policies')
+  createPolicy(@Body() input: RetentionPolicyInput): Promise<RetentionPolicy> {
+    return this.retentionService.createPolicy(input);
+  }
+
+  /**
+   * Deletes a retention policy.
+   *
+   * @param {number} id - The ID of the policy.
+   */
+  @Delete('policies/:id')
+  deletePolicy(@Param('id', ParseIntPipe) id: number): Promise<void> {
+    return this.retentionService.deletePolicy(id);
+  }
+
+  /**
+   * Restores an archived playlist.
+   *
+   * @param {string} slug - The slug of the archived playlist.
+   * @returns {Promise<Playlist>} The restored playlist.
+   */
+  @Post('archives/:slug/restore')
+  restore(@Param('slug') slug: string): Promise<Playlist> {
+    return this.retentionService.restore(slug);
+  }
+}
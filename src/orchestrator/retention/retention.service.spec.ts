@@ -0,0 +1,249 @@
+import { ConflictException, NotFoundException } from '@nestjs/common';
+import { getModelToken as getMongooseModelToken } from '@nestjs/mongoose';
+import { getModelToken as getSequelizeModelToken } from '@nestjs/sequelize';
+import { Test, TestingModule } from '@nestjs/testing';
+import { NotificationsService } from 'src/core/notifications/notifications.service';
+import { StorageService } from 'src/core/storage/storage.service';
+import { Approval } from 'src/models/approval.model';
+import { Delivery, DeliveryStatus } from 'src/models/delivery.model';
+import { PlaylistContext } from 'src/models/playlist.context';
+import { Playlist, PlaylistStatus } from 'src/models/playlist.model';
+import { RetentionPolicy } from 'src/models/retention-policy.model';
+import { Strategy } from 'src/models/strategy.model';
+import { PlaylistsService } from '../playlists/playlists.service';
+import { RetentionService } from './retention.service';
+
+describe('RetentionService', () => {
+  let service: RetentionService;
+
+  const storageService = { put: jest.fn(), get: jest.fn(), delete: jest.fn() };
+  const playlistsService = {
+    hydrateContext: jest.fn(),
+    deleteBlobs: jest.fn(),
+    deleteContexts: jest.fn(),
+  };
+  const policyModel = { findAll: jest.fn(), destroy: jest.fn() };
+  const playlistModel = {
+    findAll: jest.fn(),
+    findOne: jest.fn(),
+    findByPk: jest.fn(),
+    create: jest.fn(),
+    destroy: jest.fn(),
+    sequelize: { transaction: jest.fn() },
+  };
+  const approvalModel = { findAll: jest.fn(), create: jest.fn() };
+  const deliveryModel = { findAll: jest.fn() };
+  const contextModel = {
+    findOne: jest.fn(),
+    create: jest.fn(),
+    deleteOne: jest.fn(),
+  };
+
+  const old = new Date(Date.now() - 40 * 24 * 60 * 60 * 1000);
+  const context = { id: 1, sequence: [{ id: 2, output: { score: 98 } }] };
+
+  const playlist = () => {
+    const data = {
+      id: 1,
+      slug: 'playlist',
+      status: PlaylistStatus.COMPLETE,
+      strategies_id: 3,
+      updated_at: old,
+    };
+    return { ...data, toJSON: () => data, destroy: jest.fn() };
+  };
+
+  /**
+   * Archives a single expired playlist and returns its archive.
+   */
+  const archiveExpired = async (expired = playlist()): Promise<Buffer> => {
+    policyModel.findAll.mockResolvedValue([
+      { strategies_id: null, status: null, retention_days: 30 },
+    ]);
+    playlistModel.findAll
+      .mockResolvedValueOnce([])
+      .mockResolvedValueOnce([expired])
+      .mockResolvedValueOnce([]);
+
+    await service.archive();
+
+    const [, archive] = storageService.put.mock.calls[0] as [string, Buffer];
+    return archive;
+  };
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        RetentionService,
+        { provide: StorageService, useValue: storageService },
+        {
+          provide: NotificationsService,
+          useValue: { refreshPlaylists: jest.fn() },
+        },
+        { provide: PlaylistsService, useValue: playlistsService },
+        {
+          provide: getSequelizeModelToken(RetentionPolicy),
+          useValue: policyModel,
+        },
+        { provide: getSequelizeModelToken(Playlist), useValue: playlistModel },
+        { provide: getSequelizeModelToken(Approval), useValue: approvalModel },
+        { provide: getSequelizeModelToken(Delivery), useValue: deliveryModel },
+        { provide: getSequelizeModelToken(Strategy), useValue: {} },
+        {
+          provide: getMongooseModelToken(PlaylistContext.name),
+          useValue: contextModel,
+        },
+      ],
+    }).compile();
+
+    service = module.get<RetentionService>(RetentionService);
+
+    contextModel.findOne.mockReturnValue({
+      lean: () => Promise.resolve(context),
+    });
+    approvalModel.findAll.mockResolvedValue([
+      { toJSON: () => ({ id: 7, playlists_id: 1 }) },
+    ]);
+    deliveryModel.findAll.mockResolvedValue([]);
+    playlistsService.hydrateContext.mockImplementation((value: object) =>
+      Promise.resolve(value),
+    );
+    playlistModel.sequelize.transaction.mockImplementation(
+      (callback: (transaction: object) => Promise<unknown>) => callback({}),
+    );
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  it('should archive expired playlists and restore them from their archive', async () => {
+    const expired = playlist();
+    const archive = await archiveExpired(expired);
+
+    expect(storageService.put).toHaveBeenCalledWith(
+      'archives/playlists/playlist.ndjson.gz',
+      expect.any(Buffer),
+      'application/gzip',
+    );
+    expect(expired.destroy).toHaveBeenCalled();
+    expect(contextModel.deleteOne).toHaveBeenCalledWith({ id: 1 });
+    expect(playlistsService.deleteBlobs).toHaveBeenCalledWith(context.sequence);
+
+    storageService.get.mockResolvedValue(archive);
+    playlistModel.findOne.mockResolvedValue(null);
+    playlistModel.create.mockResolvedValue(expired);
+
+    await service.restore('playlist');
+
+    expect(playlistModel.create).toHaveBeenCalledWith(
+      expect.objectContaining({ id: 1, slug: 'playlist' }),
+      { transaction: {} },
+    );
+    expect(approvalModel.create).toHaveBeenCalledWith(
+      { id: 7, playlists_id: 1 },
+      { transaction: {} },
+    );
+    expect(contextModel.create).toHaveBeenCalledWith(context);
+    expect(storageService.delete).toHaveBeenCalledWith(
+      'archives/playlists/playlist.ndjson.gz',
+    );
+  });
+
+  it('should apply the most specific policy', async () => {
+    const kept = playlist();
+    policyModel.findAll.mockResolvedValue([
+      { strategies_id: null, status: null, retention_days: 30 },
+      { strategies_id: 3, status: null, retention_days: 90 },
+    ]);
+    playlistModel.findAll
+      .mockResolvedValueOnce([])
+      .mockResolvedValueOnce([kept])
+      .mockResolvedValueOnce([]);
+
+    await service.archive();
+
+    expect(storageService.put).not.toHaveBeenCalled();
+    expect(kept.destroy).not.toHaveBeenCalled();
+  });
+
+  it('should keep playlists whose deliveries are not settled', async () => {
+    const undelivered = playlist();
+    policyModel.findAll.mockResolvedValue([
+      { strategies_id: null, status: null, retention_days: 30 },
+    ]);
+    playlistModel.findAll
+      .mockResolvedValueOnce([])
+      .mockResolvedValueOnce([undelivered])
+      .mockResolvedValueOnce([]);
+    deliveryModel.findAll.mockResolvedValue([{ playlists_id: 1 }]);
+
+    await service.archive();
+
+    expect(deliveryModel.findAll).toHaveBeenCalledWith({
+      where: {
+        playlists_id: [1],
+        status: [
+          DeliveryStatus.PENDING,
+          DeliveryStatus.LEASED,
+          DeliveryStatus.DEAD,
+        ],
+      },
+      attributes: ['playlists_id'],
+    });
+    expect(storageService.put).not.toHaveBeenCalled();
+    expect(undelivered.destroy).not.toHaveBeenCalled();
+  });
+
+  it('should delete expired simulations without archiving them', async () => {
+    policyModel.findAll.mockResolvedValue([]);
+    playlistModel.findAll
+      .mockResolvedValueOnce([{ id: 4 }, { id: 5 }])
+      .mockResolvedValueOnce([]);
+
+    await service.archive();
+
+    expect(playlistModel.destroy).toHaveBeenCalledWith({
+      where: { id: [4, 5] },
+    });
+    expect(playlistsService.deleteContexts).toHaveBeenCalledWith([4, 5]);
+    expect(storageService.put).not.toHaveBeenCalled();
+  });
+
+  it('should keep the archive when the restore fails', async () => {
+    storageService.get.mockResolvedValue(await archiveExpired());
+    playlistModel.findOne.mockResolvedValue(null);
+    contextModel.create.mockRejectedValue(new Error('duplicate key'));
+
+    await expect(service.restore('playlist')).rejects.toThrow('duplicate key');
+    expect(storageService.delete).not.toHaveBeenCalled();
+  });
+
+  it('should refuse to restore over an existing playlist', async () => {
+    playlistModel.findOne.mockResolvedValue(playlist());
+
+    await expect(service.restore('playlist')).rejects.toBeInstanceOf(
+      ConflictException,
+    );
+    expect(storageService.get).not.toHaveBeenCalled();
+  });
+
+  it('should answer 404 for playlists without an archive', async () => {
+    playlistModel.findOne.mockResolvedValue(null);
+    storageService.get.mockRejectedValue(new Error('ENOENT'));
+
+    await expect(service.restore('playlist')).rejects.toThrow(
+      new NotFoundException('Archive of playlist playlist not found.'),
+    );
+  });
+
+  it('should answer 404 for unknown policies', async () => {
+    policyModel.destroy.mockResolvedValue(0);
+
+    await expect(service.deletePolicy(7)).rejects.toBeInstanceOf(
+      NotFoundException,
+    );
+  });
+});
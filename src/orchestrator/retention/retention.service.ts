@@ -0,0 +1,488 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectModel as InjectMongooseModel } from '@nestjs/mongoose';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { InjectModel as InjectSequelizeModel } from '@nestjs/sequelize';
+import { Model } from 'mongoose';
+import { Op } from 'sequelize';
+import { promisify } from 'util';
+import { gunzip, gzip } from 'zlib';
+import { NotificationsService } from 'src/core/notifications/notifications.service';
+import { StorageService } from 'src/core/storage/storage.service';
+import { Logger } from 'src/decorators/logger.decorator';
+import { Approval } from 'src/models/approval.model';
+import { Delivery, DeliveryStatus } from 'src/models/delivery.model';
+import {
+  PlaylistContext,
+  PlaylistContextDocument,
+} from 'src/models/playlist.context';
+import { Playlist, PlaylistStatus } from 'src/models/playlist.model';
+import { RetentionPolicy } from 'src/models/retention-policy.model';
+import { Strategy } from 'src/models/strategy.model';
+import { JSONLogger } from 'src/utils/logger';
+import { PlaylistsService } from '../playlists/playlists.service';
+
+const gzipPromise = promisify(gzip);
+const gunzipPromise = promisify(gunzip);
+
+/**
+ * The statuses of the playlists that can be archived.
+ */
+const finishedStatuses = [
+  PlaylistStatus.COMPLETE,
+  PlaylistStatus.FAILED,
+  PlaylistStatus.CANCELLED,
+];
+
+/**
+ * The statuses of the deliveries that still need the playlist. Deleting the playlist
+ * would delete them too, so their playlists aren't archived.
+ */
+const unsettledDeliveryStatuses = [
+  DeliveryStatus.PENDING,
+  DeliveryStatus.LEASED,
+  DeliveryStatus.DEAD,
+];
+
+/**
+ * How many playlists are inspected at once while archiving.
+ */
+const archiveBatchSize = 100;
+
+/**
+ * How many days finished simulations are kept before being deleted.
+ *
+ * This value is retrieved from the environment variable `SIMULATION_RETENTION_DAYS`.
+ * If it is not set, it defaults to seven days.
+ *
+ * @constant
+ * @type {number}
+ */
+const simulationRetentionDays: number =
+  Number(process.env.SIMULATION_RETENTION_DAYS) || 7;
+
+/**
+ * A line of an archive file.
+ */
+type ArchiveRecord =
+  | { type: 'playlist'; data: Record<string, any> }
+  | { type: 'context'; data: Record<string, any> }
+  | { type: 'approval'; data: Record<string, any> };
+
+/**
+ * The fields of a retention policy that can be set through the API.
+ */
+export interface RetentionPolicyInput {
+  strategy?: string | null;
+  status?: PlaylistStatus | null;
+  retention_days: number;
+}
+
+/**
+ * Service responsible for archiving the playlists that outlived their retention policy.
+ *
+ * Each archived playlist is written, together with its context and approvals, to a
+ * gzipped NDJSON file in blob storage, and then deleted from MySQL and Mongo.
+ */
+@Injectable()
+export class RetentionService {
+  /**
+   * Logger instance for logging messages.
+   */
+  @Logger(RetentionService.name)
+  private readonly logger!: JSONLogger;
+
+  /**
+   * Whether an archival is already in progress.
+   */
+  private archiving = false;
+
+  constructor(
+    private readonly storageService: StorageService,
+    private readonly notificationsService: NotificationsService,
+    private readonly playlistsService: PlaylistsService,
+    @InjectSequelizeModel(RetentionPolicy)
+    private readonly retentionPolicy: typeof RetentionPolicy,
+    @InjectSequelizeModel(Playlist) private readonly playlist: typeof Playlist,
+    @InjectSequelizeModel(Approval) private readonly approval: typeof Approval,
+    @InjectSequelizeModel(Delivery) private readonly delivery: typeof Delivery,
+    @InjectSequelizeModel(Strategy) private readonly strategy: typeof Strategy,
+    @InjectMongooseModel(PlaylistContext.name)
+    private context: Model<PlaylistContextDocument>,
+  ) {}
+
+  /**
+   * Retrieves the retention policies.
+   *
+   * @returns {Promise<{ rows: RetentionPolicy[]; count: number }>} The policies and their count.
+   */
+  async getPolicies(): Promise<{ rows: RetentionPolicy[]; count: number }> {
+    return this.retentionPolicy.findAndCountAll({
+      include: [{ model: Strategy, attributes: ['id', 'slug', 'name'] }],
+    });
+  }
+
+  /**
+   * Creates a retention policy.
+   *
+   * @param input - The strategy slug and status the policy applies to, and how many days to keep the playlists.
+   * @returns {Promise<RetentionPolicy>} The created policy.
+   * @throws {NotFoundException} If the strategy does not exist.
+   * @throws {BadRequestException} If the status is not a finished one or the days are invalid.
+   */
+  async createPolicy(input: RetentionPolicyInput): Promise<RetentionPolicy> {
+    if (!Number.isInteger(input.retention_days) || input.retention_days < 1) {
+      throw new BadRequestException(
+        'The retention days must be a positive integer.',
+      );
+    }
+
+    if (input.status && !finishedStatuses.includes(input.status)) {
+      throw new BadRequestException(
+        `Only ${finishedStatuses.join(', ')} playlists can be archived.`,
+      );
+    }
+
+    let strategyId: number | null = null;
+    if (input.strategy) {
+      const strategy = await this.strategy.findOne({
+        where: { slug: input.strategy },
+      });
+
+      if (!strategy) {
+        throw new NotFoundException(
+          `Strategy with slug ${input.strategy} not found.`,
+        );
+      }
+
+      strategyId = strategy.id;
+    }
+
+    return this.retentionPolicy.create({
+      strategies_id: strategyId,
+      status: input.status || null,
+      retention_days: input.retention_days,
+    });
+  }
+
+  /**
+   * Deletes a retention policy.
+   *
+   * @param id - The ID of the policy.
+   * @throws {NotFoundException} If the policy does not exist.
+   */
+  async deletePolicy(id: number): Promise<void> {
+    const deleted = await this.retentionPolicy.destroy({ where: { id } });
+
+    if (!deleted) {
+      throw new NotFoundException(`Retention policy ${id} not found.`);
+    }
+  }
+
+  /**
+   * Archives the finished playlists that outlived their retention policy, and
+   * deletes the finished simulations that outlived theirs.
+   *
+   * Playlists with deliveries that haven't been delivered yet are kept until they are.
+   */
+  @Cron(CronExpression.EVERY_DAY_AT_3AM)
+  async archive(): Promise<void> {
+    if (this.archiving) {
+      return;
+    }
+
+    this.archiving = true;
+
+    try {
+      await this.purgeSimulations();
+
+      const policies = await this.retentionPolicy.findAll();
+      if (!policies.length) {
+        return;
+      }
+
+      /**
+       * Nothing newer than the shortest retention can be expired.
+       */
+      const shortest = Math.min(...policies.map((p) => p.retention_days));
+      const cutoff = this.daysAgo(shortest);
+
+      let archived = 0;
+      let lastId = 0;
+      for (;;) {
+        const playlists = await this.playlist.findAll({
+          where: {
+            id: { [Op.gt]: lastId },
+            status: finishedStatuses,
+            simulation: false,
+            updated_at: { [Op.lt]: cutoff },
+          },
+          order: [['id', 'ASC']],
+          limit: archiveBatchSize,
+        });
+
+        if (!playlists.length) {
+          break;
+        }
+
+        lastId = playlists[playlists.length - 1].id;
+
+        const undelivered = await this.getUndeliveredIds(playlists);
+
+        for (const playlist of playlists) {
+          const policy = this.getPolicy(policies, playlist);
+          if (
+            !policy ||
+            undelivered.has(playlist.id) ||
+            playlist.updated_at >= this.daysAgo(policy.retention_days)
+          ) {
+            continue;
+          }
+
+          try {
+            await this.archivePlaylist(playlist);
+            archived++;
+          } catch (error) {
+            this.logger.error(
+              `Playlist ${playlist.slug} could not be archived:`,
+              error,
+            );
+          }
+        }
+      }
+
+      this.logger.log(`Archived ${archived} playlists.`);
+
+      if (archived) {
+        this.notificationsService.refreshPlaylists();
+      }
+    } catch (error) {
+      this.logger.error('Archival failed:', error);
+    } finally {
+      this.archiving = false;
+    }
+  }
+
+  /**
+   * Restores an archived playlist, with its context and approvals, and removes its archive.
+   *
+   * The playlist and its approvals are created in a transaction that is rolled back
+   * if the context can't be restored, so a playlist is never half restored.
+   *
+   * @param slug - The slug of the archived playlist.
+   * @returns {Promise<Playlist>} The restored playlist.
+   * @throws {ConflictException} If the playlist already exists.
+   * @throws {NotFoundException} If the playlist has no archive.
+   */
+  async restore(slug: string): Promise<Playlist> {
+    if (await this.playlist.findOne({ where: { slug } })) {
+      throw new ConflictException(`Playlist with slug ${slug} already exists.`);
+    }
+
+    let archive: Buffer;
+    try {
+      archive = await this.storageService.get(this.getArchiveKey(slug));
+    } catch {
+      throw new NotFoundException(`Archive of playlist ${slug} not found.`);
+    }
+
+    const records = (await gunzipPromise(archive))
+      .toString('utf-8')
+      .split('\n')
+      .filter((line) => line.length)
+      .map((line) => JSON.parse(line) as ArchiveRecord);
+
+    const data = records.find(({ type }) => type === 'playlist')?.data;
+    if (!data) {
+      throw new Error(`Archive of playlist ${slug} has no playlist.`);
+    }
+
+    /**
+     * The parent playlist may be gone since the archival.
+     */
+    if (
+      data.parent_playlist_id &&
+      !(await this.playlist.findByPk(data.parent_playlist_id))
+    ) {
+      data.parent_playlist_id = null;
+    }
+
+    const context = records.find(({ type }) => type === 'context')?.data;
+
+    const playlist = await this.playlist.sequelize!.transaction(
+      async (transaction) => {
+        const restored = await this.playlist.create(data as Playlist, {
+          transaction,
+        });
+
+        for (const record of records) {
+          if (record.type === 'approval') {
+            await this.approval.create(record.data as Approval, {
+              transaction,
+            });
+          }
+        }
+
+        if (context) {
+          await this.context.create(context);
+        }
+
+        return restored;
+      },
+    );
+
+    await this.storageService.delete(this.getArchiveKey(slug));
+
+    this.logger.log(`Restored playlist ${slug} from its archive.`);
+    this.notificationsService.refreshPlaylists();
+
+    return playlist;
+  }
+
+  /**
+   * Writes a playlist, its context and approvals to an archive and deletes them.
+   *
+   * The archive holds the full outputs, so the blobs of the offloaded ones are
+   * deleted too.
+   *
+   * @param playlist - The playlist to archive.
+   */
+  private async archivePlaylist(playlist: Playlist): Promise<void> {
+    const context = await this.context.findOne({ id: playlist.id }).lean();
+    const approvals = await this.approval.findAll({
+      where: { playlists_id: playlist.id },
+    });
+
+    const records: ArchiveRecord[] = [
+      { type: 'playlist', data: playlist.toJSON() },
+      ...(context
+        ? [
+            {
+              type: 'context' as const,
+              data: await this.playlistsService.hydrateContext(context),
+            },
+          ]
+        : []),
+      ...approvals.map((approval) => ({
+        type: 'approval' as const,
+        data: approval.toJSON(),
+      })),
+    ];
+
+    const body = records.map((record) => JSON.stringify(record)).join('\n');
+    await this.storageService.put(
+      this.getArchiveKey(playlist.slug),
+      await gzipPromise(`${body}\n`),
+      'application/gzip',
+    );
+
+    /**
+     * Delete the playlist first. If that fails, the playlist keeps its context and is
+     * archived again on the next run.
+     */
+    await playlist.destroy();
+    await this.context.deleteOne({ id: playlist.id });
+    await this.playlistsService.deleteBlobs(context?.sequence || []);
+
+    this.logger.log(`Archived playlist ${playlist.slug}.`);
+  }
+
+  /**
+   * Finds which of the given playlists still have deliveries to make.
+   *
+   * @param playlists - The playlists to check.
+   * @returns The IDs of the playlists with unsettled deliveries.
+   */
+  private async getUndeliveredIds(playlists: Playlist[]): Promise<Set<number>> {
+    const deliveries = await this.delivery.findAll({
+      where: {
+        playlists_id: playlists.map(({ id }) => id),
+        status: unsettledDeliveryStatuses,
+      },
+      attributes: ['playlists_id'],
+    });
+
+    return new Set(deliveries.map(({ playlists_id }) => playlists_id));
+  }
+
+  /**
+   * Finds the most specific policy that applies to a playlist.
+   *
+   * @param policies - The retention policies.
+   * @param playlist - The playlist.
+   * @returns The applicable policy, or undefined if the playlist is kept forever.
+   */
+  private getPolicy(
+    policies: RetentionPolicy[],
+    playlist: Playlist,
+  ): RetentionPolicy | undefined {
+    return policies
+      .filter(
+        ({ strategies_id, status }) =>
+          (!strategies_id || strategies_id === playlist.strategies_id) &&
+          (!status || status === playlist.status),
+      )
+      .sort(
+        (a, b) =>
+          Number(!!b.strategies_id) * 2 +
+          Number(!!b.status) -
+          (Number(!!a.strategies_id) * 2 + Number(!!a.status)),
+      )[0];
+  }
+
+  /**
+   * Builds the key of the archive of a playlist in blob storage.
+   *
+   * @param slug - The slug of the playlist.
+   * @returns The key of the archive.
+   */
+  private getArchiveKey(slug: string): string {
+    return `archives/playlists/${slug}.ndjson.gz`;
+  }
+
+  /**
+   * Deletes the finished simulations older than `SIMULATION_RETENTION_DAYS`, with their
+   * contexts and offloaded outputs. Simulations are never archived.
+   */
+  private async purgeSimulations(): Promise<void> {
+    let purged = 0;
+    for (;;) {
+      const simulations = await this.playlist.findAll({
+        where: {
+          simulation: true,
+          status: finishedStatuses,
+          updated_at: { [Op.lt]: this.daysAgo(simulationRetentionDays) },
+        },
+        attributes: ['id'],
+        limit: archiveBatchSize,
+      });
+
+      if (!simulations.length) {
+        break;
+      }
+
+      const ids = simulations.map(({ id }) => id);
+      await this.playlist.destroy({ where: { id: ids } });
+      await this.playlistsService.deleteContexts(ids);
+      purged += ids.length;
+    }
+
+    if (purged) {
+      this.logger.log(`Deleted ${purged} simulations.`);
+    }
+  }
+
+  /**
+   * Computes the moment a given number of days ago.
+   *
+   * @param days - The number of days.
+   * @returns The date that many days ago.
+   */
+  private daysAgo(days: number): Date {
+    return new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+  }
+}
@@ -0,0 +1,38 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { SchedulesController } from './schedules.controller';
+import { SchedulesService } from './schedules.service';
+
+describe('SchedulesController', () => {
+  let controller: SchedulesController;
+
+  const schedulesService = {
+    getSchedules: jest.fn(),
+    getSchedule: jest.fn(),
+    createSchedule: jest.fn(),
+    updateSchedule: jest.fn(),
+    deleteSchedule: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [SchedulesController],
+      providers: [{ provide: SchedulesService, useValue: schedulesService }],
+    }).compile();
+
+    controller = module.get<SchedulesController>(SchedulesController);
+  });
+
+  it('should be defined', () => {
+    expect(controller).toBeDefined();
+  });
+
+  it('should update schedules by their ID', async () => {
+    const input = { cron_expression: '0 * * * *', enabled: false };
+
+    await controller.updateSchedule(4, input);
+
+    expect(schedulesService.updateSchedule).toHaveBeenCalledWith(4, input);
+  });
+});
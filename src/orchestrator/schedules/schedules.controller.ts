@@ -0,0 +1,85 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Param,
+  ParseIntPipe,
+  Post,
+  Put,
+} from '@nestjs/common';
+import { Logger } from 'src/decorators/logger.decorator';
+import { Schedule } from 'src/models/schedule.model';
+import { JSONLogger } from 'src/utils/logger';
+import { ScheduleInput, SchedulesService } from './schedules.service';
+
+/**
+ * Controller for managing the cron schedules that trigger strategies.
+ */
+@Controller('schedules')
+export class SchedulesController {
+  constructor(private readonly schedulesService: SchedulesService) {}
+
+  /**
+   * Logger instance for logging messages.
+   */
+  @Logger(SchedulesController.name)
+  private readonly logger!: JSONLogger;
+
+  /**
+   * Retrieves the list of schedules.
+   *
+   * @returns {Promise<{ rows: Schedule[]; count: number }>} The schedules and their count.
+   */
+  @Get()
+  getSchedules(): Promise<{ rows: Schedule[]; count: number }> {
+    return this.schedulesService.getSchedules();
+  }
+
+  /**
+   * Retrieves a schedule by its ID.
+   *
+   * @param {number} id - The ID of the schedule.
+   * @returns {Promise<Schedule>} The schedule.
+   */
+  @Get(':id')
+  getSchedule(@Param('id', ParseIntPipe) id: number): Promise<Schedule> {
+    return this.schedulesService.getSchedule(id);
+  }
+
+  /**
+   * Creates a schedule.
+   *
+   * @param {ScheduleInput} input - The strategy slug, cron expression, timezone, metadata and enabled flag.
+   * @returns {Promise<Schedule>} The created schedule.
+   */
+  @Post()
+  createSchedule(@Body() input: ScheduleInput): Promise<Schedule> {
+    return this.schedulesService.createSchedule(input);
+  }
+
+  /**
+   * Updates a schedule.
+   *
+   * @param {number} id - The ID of the schedule.
+   * @param {ScheduleInput} input - The fields to update.
+   * @returns {Promise<Schedule>} The updated schedule.
+   */
+  @Put(':id')
+  updateSchedule(
+    @Param('id', ParseIntPipe) id: number,
+    @Body() input: ScheduleInput,
+  ): Promise<Schedule> {
+    return this.schedulesService.updateSchedule(id, input);
+  }
+
+  /**
+   * Deletes a schedule.
+   *
+   * @param {number} id - The ID of the schedule.
+   */
+  @Delete(':id')
+  deleteSchedule(@Param('id', ParseIntPipe) id: number): Promise<void> {
+    return this.schedulesService.deleteSchedule(id);
+  }
+}
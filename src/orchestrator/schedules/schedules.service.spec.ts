@@ -0,0 +1,139 @@
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { SchedulerRegistry } from '@nestjs/schedule';
+import { getModelToken } from '@nestjs/sequelize';
+import { Test, TestingModule } from '@nestjs/testing';
+import { CronJob } from 'cron';
+import { Schedule } from 'src/models/schedule.model';
+import { PlaylistsService } from '../playlists/playlists.service';
+import { StrategiesService } from '../strategies/strategies.service';
+import { SchedulesService } from './schedules.service';
+
+describe('SchedulesService', () => {
+  let service: SchedulesService;
+
+  const playlistsService = { trigger: jest.fn() };
+  const strategiesService = { getStrategy: jest.fn() };
+  const scheduleModel = {
+    findByPk: jest.fn(),
+    update: jest.fn(),
+    build: jest.fn(),
+  };
+
+  const strategy = { id: 3, slug: 'audit' };
+
+  /**
+   * An hourly job, which is never started.
+   */
+  const job = CronJob.from({
+    cronTime: '0 * * * *',
+    timeZone: 'UTC',
+    onTick: () => undefined,
+  });
+
+  const fire = (id: number): Promise<void> =>
+    (
+      service as unknown as { fire(id: number, job: CronJob): Promise<void> }
+    ).fire(id, job);
+
+  const schedule = (next_run_at: Date | null) => ({
+    id: 1,
+    enabled: true,
+    timezone: 'UTC',
+    metadata: { url: 'https://example.com' },
+    next_run_at,
+    strategy,
+  });
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        SchedulesService,
+        { provide: PlaylistsService, useValue: playlistsService },
+        { provide: StrategiesService, useValue: strategiesService },
+        { provide: SchedulerRegistry, useValue: {} },
+        { provide: getModelToken(Schedule), useValue: scheduleModel },
+      ],
+    }).compile();
+
+    service = module.get<SchedulesService>(SchedulesService);
+
+    playlistsService.trigger.mockResolvedValue({ slug: 'playlist' });
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  it('should claim the due run and trigger a playlist', async () => {
+    const run = new Date(Date.now() - 1000);
+    scheduleModel.findByPk.mockResolvedValue(schedule(run));
+    scheduleModel.update.mockResolvedValue([1]);
+
+    await fire(1);
+
+    const [fields, options] = scheduleModel.update.mock.calls[0];
+    expect(options).toEqual({
+      where: { id: 1, enabled: true, next_run_at: run },
+    });
+    expect(fields.next_run_at.getTime()).toBeGreaterThan(Date.now());
+    expect(playlistsService.trigger).toHaveBeenCalledWith(
+      { slug: 'audit', context: { url: 'https://example.com' }, origin: '' },
+      strategy,
+    );
+  });
+
+  it('should claim a run whose tick fired slightly early', async () => {
+    const run = new Date(Date.now() + 2000);
+    scheduleModel.findByPk.mockResolvedValue(schedule(run));
+    scheduleModel.update.mockResolvedValue([1]);
+
+    await fire(1);
+
+    const [fields, options] = scheduleModel.update.mock.calls[0];
+    expect(options.where.next_run_at).toBe(run);
+    expect(fields.next_run_at.getTime()).toBeGreaterThan(run.getTime());
+    expect(playlistsService.trigger).toHaveBeenCalled();
+  });
+
+  it('should ignore ticks well before the next run', async () => {
+    scheduleModel.findByPk.mockResolvedValue(
+      schedule(new Date(Date.now() + 60000)),
+    );
+
+    await fire(1);
+
+    expect(scheduleModel.update).not.toHaveBeenCalled();
+    expect(playlistsService.trigger).not.toHaveBeenCalled();
+  });
+
+  it('should not trigger runs claimed by another instance', async () => {
+    scheduleModel.findByPk.mockResolvedValue(schedule(new Date()));
+    scheduleModel.update.mockResolvedValue([0]);
+
+    await fire(1);
+
+    expect(playlistsService.trigger).not.toHaveBeenCalled();
+  });
+
+  it('should refuse schedules with an invalid cron expression', async () => {
+    strategiesService.getStrategy.mockResolvedValue(strategy);
+    scheduleModel.build.mockImplementation((fields: object) => ({
+      ...fields,
+      save: jest.fn(),
+    }));
+
+    await expect(
+      service.createSchedule({ strategy: 'audit', cron_expression: 'often' }),
+    ).rejects.toThrow(BadRequestException);
+  });
+
+  it('should answer 404 for unknown schedules', async () => {
+    scheduleModel.findByPk.mockResolvedValue(null);
+
+    await expect(service.getSchedule(7)).rejects.toThrow(
+      new NotFoundException('Schedule 7 not found.'),
+    );
+  });
+});
@@ -0,0 +1,321 @@
+import {
+  BadRequestException,
+  Injectable,
+  NotFoundException,
+  OnApplicationBootstrap,
+} from '@nestjs/common';
+import { SchedulerRegistry } from '@nestjs/schedule';
+import { InjectModel } from '@nestjs/sequelize';
+import { CronJob } from 'cron';
+import { Logger } from 'src/decorators/logger.decorator';
+import { Schedule } from 'src/models/schedule.model';
+import { Strategy } from 'src/models/strategy.model';
+import { JSONLogger } from 'src/utils/logger';
+import { PlaylistsService } from '../playlists/playlists.service';
+import { StrategiesService } from '../strategies/strategies.service';
+
+/**
+ * The fields of a schedule that can be set through the API.
+ */
+export interface ScheduleInput {
+  strategy?: string;
+  cron_expression?: string;
+  timezone?: string;
+  metadata?: Record<string, any>;
+  enabled?: boolean;
+}
+
+/**
+ * How early, in milliseconds, a cron tick may fire before the run it stands for.
+ */
+const tickTolerance = 5000;
+
+/**
+ * Service responsible for triggering strategies on a cron schedule.
+ *
+ * Every enabled schedule is registered as a cron job in the `SchedulerRegistry`, which
+ * triggers a playlist of its strategy with the schedule metadata.
+ */
+@Injectable()
+export class SchedulesService implements OnApplicationBootstrap {
+  /**
+   * Logger instance for logging messages.
+   */
+  @Logger(SchedulesService.name)
+  private readonly logger!: JSONLogger;
+
+  constructor(
+    private readonly playlistsService: PlaylistsService,
+    private readonly strategiesService: StrategiesService,
+    private readonly schedulerRegistry: SchedulerRegistry,
+    @InjectModel(Schedule) private readonly schedule: typeof Schedule,
+  ) {}
+
+  /**
+   * Registers the enabled schedules once the application has started.
+   */
+  async onApplicationBootstrap(): Promise<void> {
+    const schedules = await this.schedule.findAll({ where: { enabled: true } });
+
+    for (const schedule of schedules) {
+      try {
+        await this.register(schedule);
+      } catch (error) {
+        this.logger.error(
+          `Schedule ${schedule.id} could not be registered:`,
+          error,
+        );
+      }
+    }
+  }
+
+  /**
+   * Retrieves the list of schedules along with the total count.
+   *
+   * @returns {Promise<{ rows: Schedule[]; count: number }>} The schedules and their count.
+   */
+  async getSchedules(): Promise<{ rows: Schedule[]; count: number }> {
+    return this.schedule.findAndCountAll({
+      include: [{ model: Strategy, attributes: ['id', 'slug', 'name'] }],
+    });
+  }
+
+  /**
+   * Retrieves a schedule by its ID.
+   *
+   * @param id - The ID of the schedule.
+   * @returns {Promise<Schedule>} The schedule.
+   * @throws {NotFoundException} If the schedule does not exist.
+   */
+  async getSchedule(id: number): Promise<Schedule> {
+    const schedule = await this.schedule.findByPk(id, {
+      include: [{ model: Strategy, attributes: ['id', 'slug', 'name'] }],
+    });
+
+    if (!schedule) {
+      throw new NotFoundException(`Schedule ${id} not found.`);
+    }
+
+    return schedule;
+  }
+
+  /**
+   * Creates a schedule and registers it if it is enabled.
+   *
+   * @param input - The strategy slug, cron expression, timezone, metadata and enabled flag.
+   * @returns {Promise<Schedule>} The created schedule.
+   * @throws {NotFoundException} If the strategy does not exist.
+   * @throws {BadRequestException} If the cron expression is missing or invalid.
+   */
+  async createSchedule(input: ScheduleInput): Promise<Schedule> {
+    const strategy = await this.findStrategy(input.strategy);
+
+    if (!input.cron_expression) {
+      throw new BadRequestException('A cron expression is required.');
+    }
+
+    const schedule = this.schedule.build({
+      strategies_id: strategy.id,
+      cron_expression: input.cron_expression,
+      timezone: input.timezone,
+      metadata: input.metadata,
+      enabled: input.enabled,
+    });
+
+    /**
+     * Make sure the expression and timezone are valid before storing them.
+     */
+    schedule.next_run_at = this.getNextRun(schedule);
+    await schedule.save();
+
+    if (schedule.enabled) {
+      await this.register(schedule);
+    }
+
+    return schedule;
+  }
+
+  /**
+   * Updates a schedule and registers it again with its new settings.
+   *
+   * @param id - The ID of the schedule.
+   * @param input - The fields to update.
+   * @returns {Promise<Schedule>} The updated schedule.
+   * @throws {NotFoundException} If the schedule or strategy does not exist.
+   * @throws {BadRequestException} If the cron expression is invalid.
+   */
+  async updateSchedule(id: number, input: ScheduleInput): Promise<Schedule> {
+    const schedule = await this.getSchedule(id);
+
+    if (input.strategy !== undefined) {
+      schedule.strategies_id = (await this.findStrategy(input.strategy)).id;
+    }
+
+    schedule.set({
+      cron_expression: input.cron_expression ?? schedule.cron_expression,
+      timezone: input.timezone ?? schedule.timezone,
+      metadata: input.metadata ?? schedule.metadata,
+      enabled: input.enabled ?? schedule.enabled,
+    });
+    schedule.next_run_at = this.getNextRun(schedule);
+    await schedule.save();
+
+    this.unregister(schedule.id);
+    if (schedule.enabled) {
+      await this.register(schedule);
+    }
+
+    return schedule;
+  }
+
+  /**
+   * Deletes a schedule and stops its cron job.
+   *
+   * @param id - The ID of the schedule.
+   * @throws {NotFoundException} If the schedule does not exist.
+   */
+  async deleteSchedule(id: number): Promise<void> {
+    const schedule = await this.getSchedule(id);
+
+    this.unregister(schedule.id);
+    await schedule.destroy();
+  }
+
+  /**
+   * Triggers a playlist for a schedule and records when it ran and will run next.
+   *
+   * A tick stands for the run stored in `next_run_at`, which is claimed by moving
+   * `next_run_at` from that run to the following one, so only one instance of the
+   * service triggers it when several are running. Ticks firing slightly before the
+   * run still claim it.
+   *
+   * @param id - The ID of the schedule.
+   * @param job - The cron job of the schedule.
+   */
+  private async fire(id: number, job: CronJob): Promise<void> {
+    const now = new Date();
+
+    try {
+      const schedule = await this.schedule.findByPk(id, {
+        include: [Strategy],
+      });
+      if (!schedule?.enabled) {
+        return;
+      }
+
+      const run = schedule.next_run_at;
+      if (run && run.getTime() - now.getTime() > tickTolerance) {
+        return;
+      }
+
+      const next = job.cronTime
+        .getNextDateFrom(run && run > now ? run : now, schedule.timezone)
+        .toJSDate();
+
+      const [affected] = await this.schedule.update(
+        { last_run_at: now, next_run_at: next },
+        { where: { id, enabled: true, next_run_at: run ?? null } },
+      );
+
+      if (!affected) {
+        return;
+      }
+
+      if (!schedule.strategy) {
+        throw new Error(`Strategy of schedule ${id} not found.`);
+      }
+
+      const { slug } = await this.playlistsService.trigger(
+        {
+          slug: schedule.strategy.slug,
+          context: schedule.metadata,
+          origin: '',
+        },
+        schedule.strategy,
+      );
+
+      this.logger.log(`Schedule ${id} triggered playlist ${slug}.`);
+    } catch (error) {
+      this.logger.error(`Schedule ${id} failed to trigger:`, error);
+    }
+  }
+
+  /**
+   * Registers the cron job of a schedule.
+   *
+   * @param schedule - The schedule to register.
+   */
+  private async register(schedule: Schedule): Promise<void> {
+    const job: CronJob = CronJob.from({
+      cronTime: schedule.cron_expression,
+      timeZone: schedule.timezone,
+      onTick: () => this.fire(schedule.id, job),
+    });
+
+    this.schedulerRegistry.addCronJob(this.getJobName(schedule.id), job);
+    job.start();
+
+    await schedule.update({ next_run_at: job.nextDate().toJSDate() });
+  }
+
+  /**
+   * Stops and removes the cron job of a schedule, if it is registered.
+   *
+   * @param id - The ID of the schedule.
+   */
+  private unregister(id: number): void {
+    const name = this.getJobName(id);
+
+    if (this.schedulerRegistry.doesExist('cron', name)) {
+      this.schedulerRegistry.deleteCronJob(name);
+    }
+  }
+
+  /**
+   * Computes the next run of a schedule, validating its expression and timezone.
+   *
+   * @param schedule - The schedule.
+   * @returns {Date | null} The next run, or null if the schedule is disabled.
+   * @throws {BadRequestException} If the cron expression or timezone is invalid.
+   */
+  private getNextRun(schedule: Schedule): Date | null {
+    try {
+      const job = CronJob.from({
+        cronTime: schedule.cron_expression,
+        timeZone: schedule.timezone || 'UTC',
+        onTick: () => undefined,
+      });
+
+      return schedule.enabled === false ? null : job.nextDate().toJSDate();
+    } catch (error) {
+      throw new BadRequestException(`Invalid schedule: ${error.message}`);
+    }
+  }
+
+  /**
+   * Finds a strategy by its slug.
+   *
+   * @param slug - The slug of the strategy.
+   * @returns {Promise<Strategy>} The strategy.
+   * @throws {NotFoundException} If the strategy does not exist.
+   */
+  private async findStrategy(slug?: string): Promise<Strategy> {
+    const strategy = slug && (await this.strategiesService.getStrategy(slug));
+
+    if (!strategy) {
+      throw new NotFoundException(`Strategy with slug ${slug} not found.`);
+    }
+
+    return strategy;
+  }
+
+  /**
+   * Builds the name of the cron job of a schedule in the `SchedulerRegistry`.
+   *
+   * @param id - The ID of the schedule.
+   * @returns The name of the cron job.
+   */
+  private getJobName(id: number): string {
+    return `schedule-${id}`;
+  }
+}
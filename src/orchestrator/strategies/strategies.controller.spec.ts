@@ -1,12 +1,25 @@
+import { BadRequestException, NotFoundException } from '@nestjs/common';
 import { Test, TestingModule } from '@nestjs/testing';
+import { DeliveryMode } from 'src/models/delivery.model';
+import { PlaylistsService } from '../playlists/playlists.service';
 import { StrategiesController } from './strategies.controller';
+import { StrategiesService } from './strategies.service';
 
 describe('StrategiesController', () => {
   let controller: StrategiesController;
 
+  const strategiesService = { getStrategy: jest.fn() };
+  const playlistsService = { trigger: jest.fn() };
+
   beforeEach(async () => {
+    jest.resetAllMocks();
+
     const module: TestingModule = await Test.createTestingModule({
       controllers: [StrategiesController],
+      providers: [
+        { provide: StrategiesService, useValue: strategiesService },
+        { provide: PlaylistsService, useValue: playlistsService },
+      ],
     }).compile();
 
     controller = module.get<StrategiesController>(StrategiesController);
@@ -15,4 +28,66 @@ describe('StrategiesController', () => {
   it('should be defined', () => {
     expect(controller).toBeDefined();
   });
+
+  describe('trigger', () => {
+    const strategy = { id: 3, slug: 'strategy' };
+
+    it('should trigger the strategy with a webhook delivery', async () => {
+      strategiesService.getStrategy.mockResolvedValue(strategy);
+      playlistsService.trigger.mockResolvedValue({
+        slug: 'playlist',
+        status: 'QUEUED',
+      });
+
+      expect(
+        await controller.trigger('strategy', {
+          metadata: { a: 1 },
+          webhook: 'https://example.com/hook',
+        }),
+      ).toEqual({ slug: 'playlist', status: 'QUEUED' });
+      expect(playlistsService.trigger).toHaveBeenCalledWith(
+        expect.objectContaining({
+          slug: 'strategy',
+          context: { a: 1 },
+          origin: 'https://example.com/hook',
+          delivery_mode: DeliveryMode.WEBHOOK,
+        }),
+        strategy,
+      );
+    });
+
+    it('should answer 404 for an unknown strategy', async () => {
+      strategiesService.getStrategy.mockResolvedValue(null);
+
+      await expect(controller.trigger('missing', {})).rejects.toBeInstanceOf(
+        NotFoundException,
+      );
+      expect(playlistsService.trigger).not.toHaveBeenCalled();
+    });
+
+    it('should answer 400 when both an origin and a webhook are given', async () => {
+      strategiesService.getStrategy.mockResolvedValue(strategy);
+
+      await expect(
+        controller.trigger('strategy', {
+          origin: 'localhost:50051',
+          webhook: 'https://example.com/hook',
+        }),
+      ).rejects.toBeInstanceOf(BadRequestException);
+      expect(playlistsService.trigger).not.toHaveBeenCalled();
+    });
+
+    it('should answer 400 when the trigger is refused', async () => {
+      strategiesService.getStrategy.mockResolvedValue(strategy);
+      playlistsService.trigger.mockRejectedValue(
+        new BadRequestException(
+          'Host 127.0.0.1 resolves to a private or reserved address.',
+        ),
+      );
+
+      await expect(
+        controller.trigger('strategy', { webhook: 'http://127.0.0.1/hook' }),
+      ).rejects.toBeInstanceOf(BadRequestException);
+    });
+  });
 });
@@ -1,12 +1,51 @@
-import { Controller, Get, Param } from '@nestjs/common';
+import {
+  BadRequestException,
+  Body,
+  Controller,
+  Delete,
+  Get,
+  NotFoundException,
+  Param,
+  ParseIntPipe,
+  Post,
+  Put,
+} from '@nestjs/common';
 import { Logger } from 'src/decorators/logger.decorator';
+import { User } from 'src/decorators/user.decorator';
+import { DeliveryMode } from 'src/models/delivery.model';
+import { StrategyVersion } from 'src/models/strategy-version.model';
 import { Strategy } from 'src/models/strategy.model';
 import { JSONLogger } from 'src/utils/logger';
-import { StrategiesService } from './strategies.service';
+import { PlaylistTriggerResponse } from '../orchestrator.controller';
+import { PlaylistsService } from '../playlists/playlists.service';
+import {
+  SlotInput,
+  StrategiesService,
+  StrategyInput,
+} from './strategies.service';
+
+/**
+ * The body of a REST trigger. The playlist is delivered either over gRPC to the
+ * origin or as a webhook to the given URL, if any. Simulations are never delivered,
+ * and stub their plugins with the outputs given per slot name. Without a pinned
+ * version, the latest version of the strategy runs.
+ */
+export interface StrategyTriggerInput {
+  metadata?: Record<string, any>;
+  origin?: string;
+  webhook?: string;
+  idempotency_key?: string;
+  simulation?: boolean;
+  simulated_outputs?: Record<string, any>;
+  version?: number;
+}
 
 @Controller('strategies')
 export class StrategiesController {
-  constructor(private readonly strategiesService: StrategiesService) {}
+  constructor(
+    private readonly strategiesService: StrategiesService,
+    private readonly playlistsService: PlaylistsService,
+  ) {}
 
   /**
    * Logger instance for logging messages.
@@ -34,4 +73,203 @@ export class StrategiesController {
   getStrategy(@Param('slug') slug: string) {
     return this.strategiesService.getStrategy(slug);
   }
+
+  /**
+   * Creates a strategy with its slots.
+   *
+   * @param {StrategyInput} input - The strategy and its slot graph, with slots referred to by name.
+   * @returns {Promise<Strategy>} The created strategy.
+   */
+  @Post()
+  createStrategy(@Body() input: StrategyInput): Promise<Strategy> {
+    return this.strategiesService.createStrategy(input);
+  }
+
+  /**
+   * Replaces a strategy and its slots.
+   *
+   * @param slug - The unique identifier for the strategy.
+   * @param {StrategyInput} input - The strategy and its slot graph, with slots referred to by name.
+   * @returns {Promise<Strategy>} The updated strategy.
+   */
+  @Put(':slug')
+  updateStrategy(
+    @Param('slug') slug: string,
+    @Body() input: StrategyInput,
+  ): Promise<Strategy> {
+    return this.strategiesService.updateStrategy(slug, input);
+  }
+
+  /**
+   * Deletes a strategy.
+   *
+   * @param slug - The unique identifier for the strategy.
+   */
+  @Delete(':slug')
+  deleteStrategy(@Param('slug') slug: string): Promise<void> {
+    return this.strategiesService.deleteStrategy(slug);
+  }
+
+  /**
+   * Adds a slot to a strategy.
+   *
+   * @param slug - The unique identifier for the strategy.
+   * @param {SlotInput} input - The slot, referring to other slots by name.
+   * @returns {Promise<Strategy>} The updated strategy.
+   */
+  @Post(':slug/slots')
+  createSlot(
+    @Param('slug') slug: string,
+    @Body() input: SlotInput,
+  ): Promise<Strategy> {
+    return this.strategiesService.createSlot(slug, input);
+  }
+
+  /**
+   * Replaces a slot of a strategy.
+   *
+   * @param slug - The unique identifier for the strategy.
+   * @param name - The name of the slot.
+   * @param {SlotInput} input - The slot, referring to other slots by name.
+   * @returns {Promise<Strategy>} The updated strategy.
+   */
+  @Put(':slug/slots/:name')
+  updateSlot(
+    @Param('slug') slug: string,
+    @Param('name') name: string,
+    @Body() input: SlotInput,
+  ): Promise<Strategy> {
+    return this.strategiesService.updateSlot(slug, name, input);
+  }
+
+  /**
+   * Removes a slot from a strategy.
+   *
+   * @param slug - The unique identifier for the strategy.
+   * @param name - The name of the slot.
+   * @returns {Promise<Strategy>} The updated strategy.
+   */
+  @Delete(':slug/slots/:name')
+  deleteSlot(
+    @Param('slug') slug: string,
+    @Param('name') name: string,
+  ): Promise<Strategy> {
+    return this.strategiesService.deleteSlot(slug, name);
+  }
+
+  /**
+   * Triggers a playlist of the strategy, like the `Trigger` gRPC method does.
+   *
+   * @param slug - The unique identifier for the strategy.
+   * @param input - The metadata of the playlist and where to deliver it once complete.
+   * @returns {Promise<PlaylistTriggerResponse>} The slug and status of the triggered playlist.
+   * @throws {NotFoundException} If the strategy or the pinned version does not exist.
+   * @throws {BadRequestException} If both an origin and a webhook are given, or the webhook can't be used.
+   */
+  @Post(':slug/trigger')
+  async trigger(
+    @Param('slug') slug: string,
+    @Body()
+    {
+      metadata,
+      origin,
+      webhook,
+      idempotency_key,
+      simulation,
+      simulated_outputs,
+      version,
+    }: StrategyTriggerInput,
+  ): Promise<PlaylistTriggerResponse> {
+    const strategy = await this.findStrategy(slug);
+
+    if (origin && webhook) {
+      throw new BadRequestException(
+        'Either an origin or a webhook is expected.',
+      );
+    }
+
+    return this.playlistsService.trigger(
+      {
+        slug,
+        context: metadata || {},
+        origin: webhook || origin || '',
+        idempotency_key,
+        delivery_mode: webhook ? DeliveryMode.WEBHOOK : DeliveryMode.GRPC,
+        simulation,
+        simulated_outputs,
+        version,
+      },
+      strategy,
+    );
+  }
+
+  /**
+   * Retrieves the published versions of a strategy.
+   *
+   * @param slug - The unique identifier for the strategy.
+   * @returns {Promise<{ rows: StrategyVersion[]; count: number }>} The versions, newest first, and their count.
+   */
+  @Get(':slug/versions')
+  async getVersions(
+    @Param('slug') slug: string,
+  ): Promise<{ rows: StrategyVersion[]; count: number }> {
+    return this.strategiesService.getVersions(await this.findStrategy(slug));
+  }
+
+  /**
+   * Publishes a new version of a strategy from its current slots.
+   *
+   * @param slug - The unique identifier for the strategy.
+   * @param user - The JWT subject of the authenticated user.
+   * @returns {Promise<StrategyVersion>} The published version.
+   */
+  @Post(':slug/versions')
+  async publish(
+    @Param('slug') slug: string,
+    @User() user: string,
+  ): Promise<StrategyVersion> {
+    return this.strategiesService.publish(await this.findStrategy(slug), user);
+  }
+
+  /**
+   * Retrieves a version of a strategy, including its slots.
+   *
+   * @param slug - The unique identifier for the strategy.
+   * @param version - The number of the version.
+   * @returns {Promise<StrategyVersion>} The version.
+   * @throws {NotFoundException} If the strategy or the version does not exist.
+   */
+  @Get(':slug/versions/:version')
+  async getVersion(
+    @Param('slug') slug: string,
+    @Param('version', ParseIntPipe) version: number,
+  ): Promise<StrategyVersion> {
+    const strategy = await this.findStrategy(slug);
+    const found = await this.strategiesService.getVersion(strategy, version);
+
+    if (!found) {
+      throw new NotFoundException(
+        `Version ${version} of strategy ${slug} not found.`,
+      );
+    }
+
+    return found;
+  }
+
+  /**
+   * Finds a strategy by its slug.
+   *
+   * @param slug - The unique identifier for the strategy.
+   * @returns {Promise<Strategy>} The strategy.
+   * @throws {NotFoundException} If the strategy does not exist.
+   */
+  private async findStrategy(slug: string): Promise<Strategy> {
+    const strategy = await this.strategiesService.getStrategy(slug);
+
+    if (!strategy) {
+      throw new NotFoundException(`Strategy with slug ${slug} not found.`);
+    }
+
+    return strategy;
+  }
 }
@@ -1,12 +1,44 @@
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { getModelToken } from '@nestjs/sequelize';
 import { Test, TestingModule } from '@nestjs/testing';
-import { StrategiesService } from './strategies.service';
+import { Playlist } from 'src/models/playlist.model';
+import { Plugin } from 'src/models/plugin.model';
+import { ConditionOperator, Slot, SlotType } from 'src/models/slot.model';
+import { StrategyVersion } from 'src/models/strategy-version.model';
+import { Strategy } from 'src/models/strategy.model';
+import { PlaylistsService } from '../playlists/playlists.service';
+import {
+  StrategiesService,
+  StrategyInput,
+  StrategyValidationError,
+} from './strategies.service';
 
 describe('StrategiesService', () => {
   let service: StrategiesService;
 
+  const strategyModel = {
+    findOne: jest.fn(),
+    findAll: jest.fn(),
+    findByPk: jest.fn(),
+    sequelize: { transaction: jest.fn() },
+  };
+  const versionModel = { findOne: jest.fn(), create: jest.fn() };
+  const slotModel = { findAll: jest.fn() };
+  const pluginModel = { findAll: jest.fn() };
+
   beforeEach(async () => {
+    jest.resetAllMocks();
+
     const module: TestingModule = await Test.createTestingModule({
-      providers: [StrategiesService],
+      providers: [
+        StrategiesService,
+        { provide: getModelToken(Strategy), useValue: strategyModel },
+        { provide: getModelToken(StrategyVersion), useValue: versionModel },
+        { provide: getModelToken(Slot), useValue: slotModel },
+        { provide: getModelToken(Plugin), useValue: pluginModel },
+        { provide: getModelToken(Playlist), useValue: {} },
+        { provide: PlaylistsService, useValue: {} },
+      ],
     }).compile();
 
     service = module.get<StrategiesService>(StrategiesService);
@@ -15,4 +47,311 @@ describe('StrategiesService', () => {
   it('should be defined', () => {
     expect(service).toBeDefined();
   });
+
+  describe('versions', () => {
+    const strategy = { id: 3, slug: 'audit', root_slot: 1 } as Strategy;
+    const transaction = { LOCK: { UPDATE: 'UPDATE' } };
+
+    /**
+     * The slots of the strategy, as stored in their table.
+     */
+    const rows = () => [
+      { id: 1, name: 'start', plugins_id: 10, default_next_slot_id: 2 },
+      { id: 2, name: 'end', plugins_id: null },
+    ];
+    const slots = (data = rows()) =>
+      data.map((row) => ({ toJSON: () => ({ ...row }) }));
+
+    beforeEach(() => {
+      strategyModel.sequelize.transaction.mockImplementation(
+        (callback: (transaction: object) => Promise<unknown>) =>
+          callback(transaction),
+      );
+      slotModel.findAll.mockResolvedValue(slots());
+      versionModel.create.mockImplementation((values: object) =>
+        Promise.resolve(values),
+      );
+    });
+
+    it('should number versions one after the other under a lock', async () => {
+      versionModel.findOne.mockResolvedValue({ version: 2 });
+
+      const published = await service.publish(strategy, 'alice');
+
+      expect(strategyModel.findByPk).toHaveBeenCalledWith(3, {
+        lock: 'UPDATE',
+        transaction,
+      });
+      expect(published).toMatchObject({
+        strategies_id: 3,
+        version: 3,
+        root_slot: 1,
+        published_by: 'alice',
+      });
+    });
+
+    it('should publish the first version as number one', async () => {
+      versionModel.findOne.mockResolvedValue(null);
+
+      expect(await service.publish(strategy)).toMatchObject({
+        version: 1,
+        published_by: null,
+      });
+    });
+
+    it('should snapshot the slots so later edits leave the version alone', async () => {
+      const data = rows();
+      slotModel.findAll.mockResolvedValue(slots(data));
+      versionModel.findOne.mockResolvedValueOnce(null);
+      const first = await service.publish(strategy);
+
+      data[0].name = 'edited';
+      data.pop();
+      slotModel.findAll.mockResolvedValue(slots(data));
+      versionModel.findOne.mockResolvedValueOnce(first);
+      const second = await service.publish(strategy);
+
+      expect(first.slots).toEqual(rows());
+      expect(second.slots).toEqual([{ ...rows()[0], name: 'edited' }]);
+
+      pluginModel.findAll.mockResolvedValue([
+        { id: 10, toJSON: () => ({ id: 10, slug: 'lighthouse' }) },
+      ]);
+      const version = {
+        slots: [{ id: 1, name: 'start', plugins_id: 10 }],
+      } as StrategyVersion;
+
+      const running = await service.getVersionSlots(version);
+
+      expect(running[0].plugin).toEqual({ id: 10, slug: 'lighthouse' });
+      expect(version.slots[0]).not.toHaveProperty('plugin');
+    });
+
+    it('should resolve a pinned version', async () => {
+      const pinned = { id: 30, version: 2 };
+      versionModel.findOne.mockResolvedValue(pinned);
+
+      expect(await service.resolveVersion(strategy, 2)).toBe(pinned);
+      expect(versionModel.findOne).toHaveBeenCalledWith({
+        where: { strategies_id: 3, version: 2 },
+        order: [['version', 'DESC']],
+      });
+    });
+
+    it('should answer 404 for an unknown pinned version', async () => {
+      versionModel.findOne.mockResolvedValue(null);
+
+      await expect(service.resolveVersion(strategy, 7)).rejects.toBeInstanceOf(
+        NotFoundException,
+      );
+      expect(versionModel.create).not.toHaveBeenCalled();
+    });
+
+    it('should publish the first version of a strategy that never was', async () => {
+      versionModel.findOne
+        .mockResolvedValueOnce(null)
+        .mockResolvedValueOnce(null);
+
+      expect(await service.resolveVersion(strategy)).toMatchObject({
+        version: 1,
+      });
+    });
+
+    it('should use the version a concurrent first trigger published', async () => {
+      const latest = { id: 30, version: 1 };
+      versionModel.findOne
+        .mockResolvedValueOnce(null)
+        .mockResolvedValueOnce(latest);
+
+      expect(await service.resolveVersion(strategy)).toBe(latest);
+      expect(versionModel.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('graph validation', () => {
+    const strategy = (fields: Partial<StrategyInput>): StrategyInput => ({
+      team_id: 1,
+      name: 'Audit',
+      slug: 'audit',
+      root_slot: 'start',
+      slots: [],
+      ...fields,
+    });
+
+    /**
+     * Creates the strategy and returns the validation errors it was refused with.
+     */
+    const validate = async (
+      input: StrategyInput,
+    ): Promise<StrategyValidationError[]> => {
+      try {
+        await service.createStrategy(input);
+      } catch (error) {
+        expect(error).toBeInstanceOf(BadRequestException);
+        const response = (error as BadRequestException).getResponse() as {
+          errors: StrategyValidationError[];
+        };
+        return response.errors;
+      }
+
+      throw new Error('The strategy was not refused.');
+    };
+
+    beforeEach(() => {
+      strategyModel.sequelize.transaction.mockImplementation(
+        (callback: (transaction: object) => Promise<unknown>) => callback({}),
+      );
+      strategyModel.findOne.mockResolvedValue(null);
+      strategyModel.findAll.mockResolvedValue([{ slug: 'report' }]);
+      pluginModel.findAll.mockResolvedValue([{ slug: 'lighthouse' }]);
+    });
+
+    it('should refuse references to unknown slots, plugins and strategies', async () => {
+      const errors = await validate(
+        strategy({
+          slots: [
+            {
+              name: 'start',
+              plugin: 'lighthouse',
+              default_next_slot: 'nowhere',
+            },
+            { name: 'audit', plugin: 'unknown' },
+            {
+              name: 'child',
+              type: SlotType.STRATEGY,
+              metadata: { strategy: 'missing' },
+            },
+          ],
+        }),
+      );
+
+      expect(errors).toEqual([
+        {
+          path: 'slots[0].default_next_slot',
+          message: 'Slot nowhere not found in the strategy.',
+        },
+        { path: 'slots[1].plugin', message: 'Plugin unknown not found.' },
+        {
+          path: 'slots[2].metadata.strategy',
+          message: 'Strategy missing not found.',
+        },
+      ]);
+    });
+
+    it('should refuse duplicate slot names and strategies spawning themselves', async () => {
+      const errors = await validate(
+        strategy({
+          slots: [
+            { name: 'start', plugin: 'lighthouse' },
+            { name: 'start', plugin: 'lighthouse' },
+            {
+              name: 'self',
+              type: SlotType.STRATEGY,
+              metadata: { strategy: 'audit' },
+            },
+          ],
+        }),
+      );
+
+      expect(errors).toEqual([
+        {
+          path: 'slots[1].name',
+          message: 'The name start is used by another slot.',
+        },
+        {
+          path: 'slots[2].metadata.strategy',
+          message: 'A strategy can not spawn itself.',
+        },
+      ]);
+    });
+
+    it('should refuse slots that are not reachable from the root', async () => {
+      const errors = await validate(
+        strategy({
+          slots: [
+            { name: 'start', plugin: 'lighthouse' },
+            { name: 'orphan', plugin: 'lighthouse' },
+          ],
+        }),
+      );
+
+      expect(errors).toEqual([
+        {
+          path: 'slots[1]',
+          message: 'Slot orphan is not reachable from the root slot.',
+        },
+      ]);
+    });
+
+    it('should refuse cycles with no condition to leave them', async () => {
+      const errors = await validate(
+        strategy({
+          slots: [
+            { name: 'start', plugin: 'lighthouse', default_next_slot: 'loop' },
+            { name: 'loop', plugin: 'lighthouse', default_next_slot: 'start' },
+          ],
+        }),
+      );
+
+      expect(errors).toEqual([
+        {
+          path: 'slots',
+          message:
+            'Slots start -> loop -> start form a cycle with no condition to leave it.',
+        },
+      ]);
+    });
+
+    it('should refuse join slots waiting for more branches than lead to them', async () => {
+      const errors = await validate(
+        strategy({
+          slots: [
+            { name: 'start', plugin: 'lighthouse', fan_out_slots: ['a', 'b'] },
+            { name: 'a', plugin: 'lighthouse', default_next_slot: 'join' },
+            { name: 'b', plugin: 'lighthouse', default_next_slot: 'join' },
+            { name: 'join', plugin: 'lighthouse', min_outputs: 3 },
+          ],
+        }),
+      );
+
+      expect(errors).toEqual([
+        {
+          path: 'slots[3].min_outputs',
+          message:
+            'Slot join waits for 3 branches but only 2 slots lead to it.',
+        },
+      ]);
+    });
+
+    it('should accept cycles with a condition to leave them', async () => {
+      const errors = await validate(
+        strategy({
+          slug: '',
+          slots: [
+            { name: 'start', plugin: 'lighthouse', default_next_slot: 'check' },
+            {
+              name: 'check',
+              plugin: 'lighthouse',
+              conditions: [
+                {
+                  path: 'output.score',
+                  operator: ConditionOperator.LT,
+                  value: 90,
+                  next_slot: 'start',
+                },
+              ],
+              default_next_slot: null,
+            },
+          ],
+        }),
+      );
+
+      /**
+       * The missing slug is the only problem, so the graph itself is valid.
+       */
+      expect(errors).toEqual([
+        { path: 'slug', message: 'The slug is required.' },
+      ]);
+    });
+  });
 });
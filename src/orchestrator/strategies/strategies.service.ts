@@ -1,21 +1,122 @@
-import { Injectable } from '@nestjs/common';
+import {
+  BadRequestException,
+  forwardRef,
+  Inject,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
 import { InjectModel } from '@nestjs/sequelize';
+import { Op, Transaction, UniqueConstraintError } from 'sequelize';
+import { Logger } from 'src/decorators/logger.decorator';
+import { Playlist, PlaylistStatus } from 'src/models/playlist.model';
 import { Plugin } from 'src/models/plugin.model';
-import { Slot } from 'src/models/slot.model';
+import {
+  ConditionOperator,
+  Slot,
+  SlotCondition,
+  SlotType,
+} from 'src/models/slot.model';
+import { StrategyVersion } from 'src/models/strategy-version.model';
 import { Strategy } from 'src/models/strategy.model';
+import {
+  findUnconditionalCycle,
+  getReachableSlotIds,
+  getUnconditionalTargets,
+} from 'src/utils/graph';
+import { JSONLogger } from 'src/utils/logger';
+import { PlaylistsService } from '../playlists/playlists.service';
+
+/**
+ * A condition of a slot, pointing to the next slot by name.
+ */
+export interface SlotConditionInput {
+  path: string;
+  operator: ConditionOperator;
+  value?: any;
+  next_slot: string | null;
+}
+
+/**
+ * The fields of a slot that can be set through the API. Slots refer to each
+ * other, and to their plugin, by name and slug rather than by ID.
+ */
+export interface SlotInput {
+  name: string;
+  type?: SlotType;
+  plugin?: string | null;
+  metadata?: Record<string, any>;
+  conditions?: SlotConditionInput[];
+  default_next_slot?: string | null;
+  fan_out_slots?: string[] | null;
+  error_slot?: string | null;
+  min_outputs?: number;
+  max_retries?: number;
+  timeout_seconds?: number | null;
+}
+
+/**
+ * The fields of a strategy that can be set through the API, including its whole
+ * slot graph. The root slot is referred to by name.
+ */
+export interface StrategyInput {
+  team_id: number;
+  name: string;
+  slug: string;
+  description?: string;
+  max_concurrency?: number | null;
+  root_slot: string;
+  slots: SlotInput[];
+}
+
+/**
+ * A problem found while validating a strategy, and the field it relates to.
+ */
+export interface StrategyValidationError {
+  path: string;
+  message: string;
+}
+
+/**
+ * The statuses of the playlists that prevent deleting their strategy.
+ */
+const unfinishedStatuses = [
+  PlaylistStatus.QUEUED,
+  PlaylistStatus.CREATED,
+  PlaylistStatus.RUNNING,
+  PlaylistStatus.PAUSED,
+  PlaylistStatus.AWAITING_APPROVAL,
+];
 
 /**
  * Service for handling operations related to strategies.
  */
 @Injectable()
 export class StrategiesService {
+  /**
+   * Logger instance for logging messages.
+   */
+  @Logger(StrategiesService.name)
+  private readonly logger!: JSONLogger;
+
   /**
    * Creates an instance of StrategiesService.
    *
    * @param {typeof Strategy} strategy - The injected Strategy model.
+   * @param {typeof StrategyVersion} strategyVersion - The injected StrategyVersion model.
+   * @param {typeof Slot} slot - The injected Slot model.
+   * @param {typeof Plugin} plugin - The injected Plugin model.
+   * @param {typeof Playlist} playlist - The injected Playlist model.
+   * @param {PlaylistsService} playlistsService - The injected PlaylistsService, to clean up the contexts of deleted playlists.
    */
   constructor(
     @InjectModel(Strategy) private readonly strategy: typeof Strategy,
+    @InjectModel(StrategyVersion)
+    private readonly strategyVersion: typeof StrategyVersion,
+    @InjectModel(Slot) private readonly slot: typeof Slot,
+    @InjectModel(Plugin) private readonly plugin: typeof Plugin,
+    @InjectModel(Playlist) private readonly playlist: typeof Playlist,
+    @Inject(forwardRef(() => PlaylistsService))
+    private readonly playlistsService: PlaylistsService,
   ) {}
 
   /**
@@ -75,4 +176,822 @@ export class StrategiesService {
       ],
     });
   }
+
+  /**
+   * Retrieves the published versions of a strategy, newest first, without their slots.
+   *
+   * @param {Strategy} strategy - The strategy.
+   * @returns {Promise<{ rows: StrategyVersion[]; count: number }>} The versions and their count.
+   */
+  async getVersions(
+    strategy: Strategy,
+  ): Promise<{ rows: StrategyVersion[]; count: number }> {
+    return this.strategyVersion.findAndCountAll({
+      where: { strategies_id: strategy.id },
+      attributes: { exclude: ['slots'] },
+      order: [['version', 'DESC']],
+    });
+  }
+
+  /**
+   * Retrieves a version of a strategy.
+   *
+   * @param {Strategy} strategy - The strategy.
+   * @param {number} version - The number of the version. Defaults to the latest one.
+   * @returns {Promise<StrategyVersion | null>} The version, or null if it doesn't exist.
+   */
+  async getVersion(
+    strategy: Strategy,
+    version?: number,
+  ): Promise<StrategyVersion | null> {
+    return this.strategyVersion.findOne({
+      where: { strategies_id: strategy.id, ...(version ? { version } : {}) },
+      order: [['version', 'DESC']],
+    });
+  }
+
+  /**
+   * Publishes a new version of a strategy with a snapshot of its current slots.
+   *
+   * @param {Strategy} strategy - The strategy to publish.
+   * @param {string} publishedBy - The JWT subject of the user publishing it, if any.
+   * @returns {Promise<StrategyVersion>} The published version.
+   */
+  async publish(
+    strategy: Strategy,
+    publishedBy?: string,
+  ): Promise<StrategyVersion> {
+    return this.publishVersion(strategy, publishedBy, false);
+  }
+
+  /**
+   * Publishes a new version of a strategy while holding a lock on the strategy, so
+   * concurrent publishes number their versions one after the other.
+   *
+   * @param {Strategy} strategy - The strategy to publish.
+   * @param {string} publishedBy - The JWT subject of the user publishing it, if any.
+   * @param {boolean} unlessPublished - Whether to return the latest version instead, if there is one.
+   * @returns {Promise<StrategyVersion>} The published version, or the latest one.
+   */
+  private async publishVersion(
+    strategy: Strategy,
+    publishedBy: string | undefined,
+    unlessPublished: boolean,
+  ): Promise<StrategyVersion> {
+    return this.strategy.sequelize!.transaction(async (transaction) => {
+      await this.strategy.findByPk(strategy.id, {
+        lock: transaction.LOCK.UPDATE,
+        transaction,
+      });
+
+      const latest = await this.strategyVersion.findOne({
+        where: { strategies_id: strategy.id },
+        order: [['version', 'DESC']],
+        transaction,
+      });
+
+      if (latest && unlessPublished) {
+        return latest;
+      }
+
+      const slots = await this.slot.findAll({
+        where: { strategies_id: strategy.id },
+        order: [['id', 'ASC']],
+        transaction,
+      });
+
+      const version = await this.strategyVersion.create(
+        {
+          strategies_id: strategy.id,
+          version: (latest?.version || 0) + 1,
+          root_slot: strategy.root_slot,
+          slots: slots.map((slot) => slot.toJSON()),
+          published_by: publishedBy || null,
+        },
+        { transaction },
+      );
+
+      this.logger.log(
+        `Published version ${version.version} of strategy ${strategy.slug}.`,
+      );
+
+      return version;
+    });
+  }
+
+  /**
+   * Resolves the version a new playlist of a strategy runs.
+   *
+   * Without a pinned version, the latest one is used. A strategy that was never
+   * published gets its first version published on the spot.
+   *
+   * @param {Strategy} strategy - The strategy.
+   * @param {number} pinned - The number of the version to run, if pinned.
+   * @returns {Promise<StrategyVersion>} The version to run.
+   * @throws {NotFoundException} If the pinned version doesn't exist.
+   */
+  async resolveVersion(
+    strategy: Strategy,
+    pinned?: number,
+  ): Promise<StrategyVersion> {
+    const version = await this.getVersion(strategy, pinned);
+
+    if (version) {
+      return version;
+    }
+
+    if (pinned) {
+      throw new NotFoundException(
+        `Version ${pinned} of strategy ${strategy.slug} not found.`,
+      );
+    }
+
+    /**
+     * Concurrent first triggers publish a single version between them.
+     */
+    return this.publishVersion(strategy, undefined, true);
+  }
+
+  /**
+   * Builds the slots of a strategy version, attaching their current plugins.
+   *
+   * Plugins are not part of the snapshot, so a plugin that moved to another host is
+   * still reachable by the playlists of older versions.
+   *
+   * @param {StrategyVersion} version - The strategy version.
+   * @returns {Promise<Slot[]>} The slots of the version with their plugins.
+   */
+  async getVersionSlots(version: StrategyVersion): Promise<Slot[]> {
+    const ids = version.slots
+      .map(({ plugins_id }) => plugins_id)
+      .filter((id): id is number => typeof id === 'number');
+
+    const plugins = await this.plugin.findAll({
+      where: { id: [...new Set(ids)] },
+      attributes: { exclude: ['plugin_key'] },
+    });
+    const byId = new Map(plugins.map((plugin) => [plugin.id, plugin.toJSON()]));
+
+    return version.slots.map(
+      (slot) =>
+        ({
+          ...slot,
+          plugin: slot.plugins_id ? byId.get(slot.plugins_id) : undefined,
+        }) as Slot,
+    );
+  }
+
+  /**
+   * Creates a strategy with its slots.
+   *
+   * @param {StrategyInput} input - The strategy and its slot graph.
+   * @returns {Promise<Strategy>} The created strategy.
+   * @throws {BadRequestException} If the strategy is invalid, with the list of errors.
+   */
+  async createStrategy(input: StrategyInput): Promise<Strategy> {
+    return this.save(null, input);
+  }
+
+  /**
+   * Replaces a strategy and its slots. Slots are matched by name, so the ones
+   * keeping their name keep their ID.
+   *
+   * @param {string} slug - The slug of the strategy.
+   * @param {StrategyInput} input - The strategy and its slot graph.
+   * @returns {Promise<Strategy>} The updated strategy.
+   * @throws {NotFoundException} If the strategy does not exist.
+   * @throws {BadRequestException} If the strategy is invalid, with the list of errors.
+   */
+  async updateStrategy(slug: string, input: StrategyInput): Promise<Strategy> {
+    return this.save(await this.findStrategy(slug), input);
+  }
+
+  /**
+   * Deletes a strategy, its slots and its finished playlists, along with their
+   * contexts and offloaded outputs.
+   *
+   * @param {string} slug - The slug of the strategy.
+   * @throws {NotFoundException} If the strategy does not exist.
+   * @throws {BadRequestException} If it has unfinished playlists or other strategies spawn it.
+   */
+  async deleteStrategy(slug: string): Promise<void> {
+    const strategy = await this.findStrategy(slug);
+    const errors: StrategyValidationError[] = [];
+
+    const unfinished = await this.playlist.count({
+      where: { strategies_id: strategy.id, status: unfinishedStatuses },
+    });
+    if (unfinished) {
+      errors.push({
+        path: 'slug',
+        message: `The strategy has ${unfinished} unfinished playlists.`,
+      });
+    }
+
+    errors.push(...(await this.getSpawnerErrors(strategy)));
+
+    if (errors.length) {
+      throw new BadRequestException({
+        message: `Strategy ${slug} can't be deleted.`,
+        errors,
+      });
+    }
+
+    const playlists = await this.playlist.findAll({
+      where: { strategies_id: strategy.id },
+      attributes: ['id'],
+    });
+
+    await strategy.destroy();
+    await this.playlistsService.deleteContexts(playlists.map(({ id }) => id));
+
+    this.logger.log(`Deleted strategy ${slug}.`);
+  }
+
+  /**
+   * Lists the STRATEGY slots of other strategies that spawn a strategy, as errors
+   * preventing its slug from going away.
+   *
+   * @param {Strategy} strategy - The strategy.
+   * @returns {Promise<StrategyValidationError[]>} One error per spawning slot.
+   */
+  private async getSpawnerErrors(
+    strategy: Strategy,
+  ): Promise<StrategyValidationError[]> {
+    const spawners = await this.slot.findAll({
+      where: {
+        type: SlotType.STRATEGY,
+        strategies_id: { [Op.ne]: strategy.id },
+      },
+      include: [{ model: Strategy, attributes: ['slug'] }],
+    });
+
+    return spawners
+      .filter(({ metadata }) => metadata?.strategy === strategy.slug)
+      .map((spawner) => ({
+        path: 'slug',
+        message: `Slot ${spawner.name} of strategy ${spawner.strategy.slug} spawns this strategy.`,
+      }));
+  }
+
+  /**
+   * Adds a slot to a strategy.
+   *
+   * @param {string} slug - The slug of the strategy.
+   * @param {SlotInput} input - The slot to add.
+   * @returns {Promise<Strategy>} The updated strategy.
+   * @throws {NotFoundException} If the strategy does not exist.
+   * @throws {BadRequestException} If the resulting strategy is invalid, with the list of errors.
+   */
+  async createSlot(slug: string, input: SlotInput): Promise<Strategy> {
+    const strategy = await this.findStrategy(slug);
+    const current = await this.toInput(strategy);
+
+    return this.save(strategy, {
+      ...current,
+      slots: [...current.slots, input],
+    });
+  }
+
+  /**
+   * Replaces a slot of a strategy. Renaming it updates the references of the other slots.
+   *
+   * @param {string} slug - The slug of the strategy.
+   * @param {string} name - The name of the slot.
+   * @param {SlotInput} input - The new slot.
+   * @returns {Promise<Strategy>} The updated strategy.
+   * @throws {NotFoundException} If the strategy or the slot does not exist.
+   * @throws {BadRequestException} If the resulting strategy is invalid, with the list of errors.
+   */
+  async updateSlot(
+    slug: string,
+    name: string,
+    input: SlotInput,
+  ): Promise<Strategy> {
+    const strategy = await this.findStrategy(slug);
+    const current = await this.toInput(strategy);
+
+    if (!current.slots.some((slot) => slot.name === name)) {
+      throw new NotFoundException(
+        `Slot ${name} not found in strategy ${slug}.`,
+      );
+    }
+
+    const rename = (ref?: string | null) =>
+      ref === name && input.name !== undefined ? input.name : ref;
+
+    return this.save(strategy, {
+      ...current,
+      root_slot: rename(current.root_slot)!,
+      slots: current.slots.map((slot) =>
+        slot.name === name
+          ? input
+          : {
+              ...slot,
+              conditions: slot.conditions?.map((condition) => ({
+                ...condition,
+                next_slot: rename(condition.next_slot) ?? null,
+              })),
+              default_next_slot: rename(slot.default_next_slot),
+              fan_out_slots: slot.fan_out_slots?.map((ref) => rename(ref)!),
+              error_slot: rename(slot.error_slot),
+            },
+      ),
+    });
+  }
+
+  /**
+   * Removes a slot from a strategy. The slots referring to it must be updated first.
+   *
+   * @param {string} slug - The slug of the strategy.
+   * @param {string} name - The name of the slot.
+   * @returns {Promise<Strategy>} The updated strategy.
+   * @throws {NotFoundException} If the strategy or the slot does not exist.
+   * @throws {BadRequestException} If the resulting strategy is invalid, with the list of errors.
+   */
+  async deleteSlot(slug: string, name: string): Promise<Strategy> {
+    const strategy = await this.findStrategy(slug);
+    const current = await this.toInput(strategy);
+
+    if (!current.slots.some((slot) => slot.name === name)) {
+      throw new NotFoundException(
+        `Slot ${name} not found in strategy ${slug}.`,
+      );
+    }
+
+    return this.save(strategy, {
+      ...current,
+      slots: current.slots.filter((slot) => slot.name !== name),
+    });
+  }
+
+  /**
+   * Validates a strategy and stores it with its slots in a single transaction.
+   *
+   * Slots are created without their references first, so that the references,
+   * given by name, can then be resolved to the IDs of the stored slots. A slug
+   * taken by a concurrent save is reported like any other validation error.
+   *
+   * @param {Strategy | null} strategy - The strategy to update, or null to create one.
+   * @param {StrategyInput} input - The strategy and its slot graph.
+   * @returns {Promise<Strategy>} The stored strategy, with its slots and plugins.
+   * @throws {BadRequestException} If the strategy is invalid, with the list of errors.
+   */
+  private async save(
+    strategy: Strategy | null,
+    input: StrategyInput,
+  ): Promise<Strategy> {
+    let slug: string;
+    try {
+      slug = await this.strategy.sequelize!.transaction(async (transaction) => {
+        const errors = await this.validate(input, strategy, transaction);
+        if (errors.length) {
+          throw new BadRequestException({
+            message: 'The strategy is invalid.',
+            errors,
+          });
+        }
+
+        const plugins = await this.plugin.findAll({
+          where: {
+            slug: input.slots
+              .map(({ plugin }) => plugin)
+              .filter((plugin): plugin is string => !!plugin),
+          },
+          transaction,
+        });
+        const pluginIds = new Map(plugins.map(({ slug, id }) => [slug, id]));
+
+        const fields = {
+          team_id: input.team_id,
+          name: input.name,
+          slug: input.slug,
+          description: input.description,
+          max_concurrency: input.max_concurrency ?? null,
+        };
+
+        /**
+         * The root slot is set once the slots exist.
+         */
+        const stored = strategy
+          ? await strategy.update(fields, { transaction })
+          : await this.strategy.create(
+              { ...fields, root_slot: 0 } as Strategy,
+              {
+                transaction,
+              },
+            );
+
+        const existing = await this.slot.findAll({
+          where: { strategies_id: stored.id },
+          transaction,
+        });
+        const names = new Set(input.slots.map(({ name }) => name));
+        const removed = existing.filter(({ name }) => !names.has(name));
+
+        if (removed.length) {
+          await this.slot.destroy({
+            where: { id: removed.map(({ id }) => id) },
+            transaction,
+          });
+        }
+
+        const slots = new Map<string, Slot>();
+        for (const slotInput of input.slots) {
+          const fields = {
+            strategies_id: stored.id,
+            name: slotInput.name,
+            type: slotInput.type || SlotType.PLUGIN,
+            plugins_id: slotInput.plugin
+              ? pluginIds.get(slotInput.plugin)
+              : null,
+            metadata: slotInput.metadata || {},
+            min_outputs: slotInput.min_outputs || 0,
+            max_retries: slotInput.max_retries || 0,
+            timeout_seconds: slotInput.timeout_seconds ?? null,
+          };
+
+          const current = existing.find(({ name }) => name === slotInput.name);
+          slots.set(
+            slotInput.name,
+            current
+              ? await current.update(fields, { transaction })
+              : await this.slot.create(fields as Slot, { transaction }),
+          );
+        }
+
+        const resolve = (name?: string | null) =>
+          name ? slots.get(name)!.id : null;
+
+        for (const slotInput of input.slots) {
+          await slots.get(slotInput.name)!.update(
+            {
+              conditions: (slotInput.conditions || []).map(
+                ({ next_slot, ...condition }) => ({
+                  ...condition,
+                  next_slot_id: resolve(next_slot),
+                }),
+              ),
+              default_next_slot_id: resolve(slotInput.default_next_slot),
+              fan_out_slot_ids: slotInput.fan_out_slots?.length
+                ? slotInput.fan_out_slots.map((name) => resolve(name)!)
+                : null,
+              error_slot_id: resolve(slotInput.error_slot),
+            },
+            { transaction },
+          );
+        }
+
+        await stored.update(
+          { root_slot: resolve(input.root_slot)! },
+          { transaction },
+        );
+
+        return stored.slug;
+      });
+    } catch (error) {
+      if (error instanceof UniqueConstraintError) {
+        throw new BadRequestException({
+          message: 'The strategy is invalid.',
+          errors: [
+            {
+              path: 'slug',
+              message: `The slug ${input.slug} is already taken.`,
+            },
+          ],
+        });
+      }
+
+      throw error;
+    }
+
+    this.logger.log(`Saved strategy ${slug}.`);
+
+    return (await this.findBySlug(slug))!;
+  }
+
+  /**
+   * Validates a strategy and its slot graph.
+   *
+   * Besides the fields themselves, it checks that slot names are unique, as `segue`
+   * matches slots by name, that every reference resolves to a slot of the strategy,
+   * a plugin or another strategy, that every slot is reachable from the root slot,
+   * that join slots can receive enough branches, and that there are no cycles made
+   * only of unconditional transitions, which a playlist could never leave.
+   *
+   * @param {StrategyInput} input - The strategy and its slot graph.
+   * @param {Strategy | null} strategy - The strategy being updated, if any.
+   * @param {Transaction} transaction - The transaction the strategy is saved in.
+   * @returns {Promise<StrategyValidationError[]>} The errors found. Empty if the strategy is valid.
+   */
+  private async validate(
+    input: StrategyInput,
+    strategy: Strategy | null,
+    transaction: Transaction,
+  ): Promise<StrategyValidationError[]> {
+    const errors: StrategyValidationError[] = [];
+    const error = (path: string, message: string) =>
+      errors.push({ path, message });
+
+    if (!Number.isInteger(input.team_id)) {
+      error('team_id', 'The team ID must be an integer.');
+    }
+
+    if (!input.name) {
+      error('name', 'The name is required.');
+    }
+
+    if (!input.slug) {
+      error('slug', 'The slug is required.');
+    } else if (strategy && input.slug !== strategy.slug) {
+      /**
+       * Other strategies spawn this one, and pinned versions snapshot them, by slug.
+       */
+      error('slug', 'The slug of a strategy can not be changed.');
+    } else {
+      const taken = await this.strategy.findOne({
+        where: { slug: input.slug },
+        transaction,
+      });
+
+      if (taken && taken.id !== strategy?.id) {
+        error('slug', `The slug ${input.slug} is already taken.`);
+      }
+    }
+
+    if (
+      input.max_concurrency != null &&
+      !(Number.isInteger(input.max_concurrency) && input.max_concurrency > 0)
+    ) {
+      error(
+        'max_concurrency',
+        'The concurrency limit must be a positive integer.',
+      );
+    }
+
+    if (!Array.isArray(input.slots) || !input.slots.length) {
+      error('slots', 'The strategy needs at least one slot.');
+      return errors;
+    }
+
+    /**
+     * Slots are numbered by their position, so the graph helpers can walk them.
+     */
+    const ids = new Map<string, number>();
+    input.slots.forEach(({ name }, index) => {
+      if (!name || typeof name !== 'string') {
+        error(`slots[${index}].name`, 'The name is required.');
+      } else if (ids.has(name)) {
+        error(
+          `slots[${index}].name`,
+          `The name ${name} is used by another slot.`,
+        );
+      } else {
+        ids.set(name, index + 1);
+      }
+    });
+
+    const resolve = (path: string, name?: string | null): number | null => {
+      if (name === undefined || name === null) {
+        return null;
+      }
+
+      if (!ids.has(name)) {
+        error(path, `Slot ${name} not found in the strategy.`);
+        return null;
+      }
+
+      return ids.get(name)!;
+    };
+
+    const rootId = input.root_slot
+      ? resolve('root_slot', input.root_slot)
+      : null;
+    if (!input.root_slot) {
+      error('root_slot', 'The root slot is required.');
+    }
+
+    const pluginSlugs = input.slots
+      .map(({ plugin }) => plugin)
+      .filter((plugin): plugin is string => !!plugin);
+    const plugins = new Set(
+      (
+        await this.plugin.findAll({
+          where: { slug: pluginSlugs },
+          attributes: ['slug'],
+          transaction,
+        })
+      ).map(({ slug }) => slug),
+    );
+
+    const strategySlugs = input.slots
+      .filter(({ type }) => type === SlotType.STRATEGY)
+      .map(({ metadata }) => metadata?.strategy as string)
+      .filter((slug) => !!slug);
+    const strategies = new Set(
+      (
+        await this.strategy.findAll({
+          where: { slug: strategySlugs },
+          attributes: ['slug'],
+          transaction,
+        })
+      ).map(({ slug }) => slug),
+    );
+
+    const graph = input.slots.map((slot, index) => {
+      const path = `slots[${index}]`;
+      const type = slot.type || SlotType.PLUGIN;
+
+      if (!Object.values(SlotType).includes(type)) {
+        error(`${path}.type`, `Unknown slot type ${type}.`);
+      }
+
+      if (type === SlotType.PLUGIN) {
+        if (!slot.plugin) {
+          error(`${path}.plugin`, 'PLUGIN slots need a plugin.');
+        } else if (!plugins.has(slot.plugin)) {
+          error(`${path}.plugin`, `Plugin ${slot.plugin} not found.`);
+        }
+      }
+
+      if (type === SlotType.STRATEGY) {
+        const child = slot.metadata?.strategy;
+        if (!child) {
+          error(`${path}.metadata.strategy`, 'STRATEGY slots need a strategy.');
+        } else if (child === input.slug || child === strategy?.slug) {
+          error(
+            `${path}.metadata.strategy`,
+            'A strategy can not spawn itself.',
+          );
+        } else if (!strategies.has(child)) {
+          error(`${path}.metadata.strategy`, `Strategy ${child} not found.`);
+        }
+      }
+
+      for (const field of ['min_outputs', 'max_retries'] as const) {
+        const value = slot[field];
+        if (value !== undefined && !(Number.isInteger(value) && value >= 0)) {
+          error(`${path}.${field}`, 'It must be a non-negative integer.');
+        }
+      }
+
+      if (
+        slot.timeout_seconds != null &&
+        !(Number.isInteger(slot.timeout_seconds) && slot.timeout_seconds > 0)
+      ) {
+        error(`${path}.timeout_seconds`, 'It must be a positive integer.');
+      }
+
+      const conditions: SlotCondition[] = (slot.conditions || []).map(
+        (condition, position) => {
+          if (!Object.values(ConditionOperator).includes(condition.operator)) {
+            error(
+              `${path}.conditions[${position}].operator`,
+              `Unknown operator ${condition.operator}.`,
+            );
+          }
+
+          if (!condition.path) {
+            error(
+              `${path}.conditions[${position}].path`,
+              'The path is required.',
+            );
+          }
+
+          return {
+            ...condition,
+            next_slot_id: resolve(
+              `${path}.conditions[${position}].next_slot`,
+              condition.next_slot,
+            ),
+          };
+        },
+      );
+
+      return {
+        id: index + 1,
+        name: slot.name,
+        min_outputs: slot.min_outputs || 0,
+        conditions,
+        default_next_slot_id:
+          resolve(`${path}.default_next_slot`, slot.default_next_slot) ??
+          undefined,
+        fan_out_slot_ids: (slot.fan_out_slots || []).map(
+          (name, position) =>
+            resolve(`${path}.fan_out_slots[${position}]`, name) ?? 0,
+        ),
+        error_slot_id: resolve(`${path}.error_slot`, slot.error_slot),
+      } as Slot;
+    });
+
+    /**
+     * The graph checks only make sense once every reference resolves.
+     */
+    if (errors.length || rootId === null) {
+      return errors;
+    }
+
+    const reachable = getReachableSlotIds(graph, rootId);
+    graph.forEach(({ id, name }, index) => {
+      if (!reachable.has(id)) {
+        error(
+          `slots[${index}]`,
+          `Slot ${name} is not reachable from the root slot.`,
+        );
+      }
+    });
+
+    const cycle = findUnconditionalCycle(graph);
+    if (cycle) {
+      const names = cycle.map((id) => graph[id - 1].name);
+      error(
+        'slots',
+        `Slots ${[...names, names[0]].join(' -> ')} form a cycle with no condition to leave it.`,
+      );
+    }
+
+    /**
+     * A join slot must be reachable by at least as many slots as it waits for.
+     */
+    graph.forEach(({ id, name, min_outputs }, index) => {
+      const incoming = graph.filter((slot) =>
+        [
+          ...getUnconditionalTargets(slot),
+          ...slot.conditions.map(({ next_slot_id }) => next_slot_id),
+          slot.default_next_slot_id,
+        ].includes(id),
+      ).length;
+
+      if (min_outputs > incoming) {
+        error(
+          `slots[${index}].min_outputs`,
+          `Slot ${name} waits for ${min_outputs} branches but only ${incoming} slots lead to it.`,
+        );
+      }
+    });
+
+    return errors;
+  }
+
+  /**
+   * Converts a stored strategy to its API representation, with slots referred to by name.
+   *
+   * @param {Strategy} strategy - The strategy.
+   * @returns {Promise<StrategyInput>} The strategy and its slot graph.
+   */
+  private async toInput(strategy: Strategy): Promise<StrategyInput> {
+    const slots = await this.slot.findAll({
+      where: { strategies_id: strategy.id },
+      include: [{ model: Plugin, attributes: ['slug'] }],
+      order: [['id', 'ASC']],
+    });
+
+    const names = new Map(slots.map(({ id, name }) => [id, name]));
+    const name = (id?: number | null) =>
+      id === undefined || id === null ? null : (names.get(id) ?? null);
+
+    return {
+      team_id: strategy.team_id,
+      name: strategy.name,
+      slug: strategy.slug,
+      description: strategy.description,
+      max_concurrency: strategy.max_concurrency,
+      root_slot: name(strategy.root_slot)!,
+      slots: slots.map((slot) => ({
+        name: slot.name,
+        type: slot.type,
+        plugin: slot.plugin?.slug ?? null,
+        metadata: slot.metadata,
+        conditions: (Array.isArray(slot.conditions) ? slot.conditions : []).map(
+          ({ next_slot_id, ...condition }) => ({
+            ...condition,
+            next_slot: name(next_slot_id),
+          }),
+        ),
+        default_next_slot: name(slot.default_next_slot_id),
+        fan_out_slots: slot.fan_out_slot_ids?.map((id) => name(id)!) ?? null,
+        error_slot: name(slot.error_slot_id),
+        min_outputs: slot.min_outputs,
+        max_retries: slot.max_retries,
+        timeout_seconds: slot.timeout_seconds,
+      })),
+    };
+  }
+
+  /**
+   * Finds a strategy by its slug.
+   *
+   * @param {string} slug - The slug of the strategy.
+   * @returns {Promise<Strategy>} The strategy.
+   * @throws {NotFoundException} If the strategy does not exist.
+   */
+  private async findStrategy(slug: string): Promise<Strategy> {
+    const strategy = await this.getStrategy(slug);
+
+    if (!strategy) {
+      throw new NotFoundException(`Strategy with slug ${slug} not found.`);
+    }
+
+    return strategy;
+  }
 }
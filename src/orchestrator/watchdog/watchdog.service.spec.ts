@@ -0,0 +1,88 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/sequelize';
+import { NotificationsService } from 'src/core/notifications/notifications.service';
+import { Playlist } from 'src/models/playlist.model';
+import { SlotStatus } from 'src/models/slot.model';
+import { PlaylistsService } from '../playlists/playlists.service';
+import { WatchdogService } from './watchdog.service';
+
+describe('WatchdogService', () => {
+  let service: WatchdogService;
+
+  const playlistsService = {
+    getContext: jest.fn(),
+    fail: jest.fn(),
+    drain: jest.fn(),
+  };
+  const notificationsService = { playlistStalled: jest.fn() };
+  const playlist = { findAll: jest.fn() };
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        WatchdogService,
+        { provide: PlaylistsService, useValue: playlistsService },
+        { provide: NotificationsService, useValue: notificationsService },
+        { provide: getModelToken(Playlist), useValue: playlist },
+      ],
+    }).compile();
+
+    service = module.get<WatchdogService>(WatchdogService);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  it('should fail running slots past their deadline as retryable timeouts', async () => {
+    const past = new Date(Date.now() - 60000).toISOString();
+    const future = new Date(Date.now() + 60000).toISOString();
+    const context = {
+      sequence: [
+        { id: 'a', name: 'a', status: SlotStatus.RUNNING, deadline: past },
+        { id: 'b', name: 'b', status: SlotStatus.RUNNING, deadline: future },
+        { id: 'c', name: 'c', status: SlotStatus.RUNNING },
+        { id: 'd', name: 'd', status: SlotStatus.COMPLETE, deadline: past },
+      ],
+    };
+
+    playlist.findAll.mockResolvedValue([{ id: 1, slug: 'playlist' }]);
+    playlistsService.getContext.mockResolvedValue(context);
+    playlistsService.fail.mockResolvedValue('retried');
+
+    await service.inspect();
+
+    expect(playlistsService.fail).toHaveBeenCalledTimes(1);
+    expect(playlistsService.fail).toHaveBeenCalledWith(
+      { id: 1, slug: 'playlist' },
+      context,
+      'a',
+      expect.objectContaining({ code: 'TIMEOUT', retryable: true }),
+    );
+    expect(notificationsService.playlistStalled).toHaveBeenCalledWith(
+      'playlist',
+      'a',
+      'retried',
+    );
+  });
+
+  it('should admit the queued playlists after each sweep', async () => {
+    playlist.findAll.mockResolvedValue([]);
+
+    await service.inspect();
+
+    expect(playlistsService.drain).toHaveBeenCalledTimes(1);
+  });
+
+  it('should keep inspecting after a failed sweep', async () => {
+    playlist.findAll.mockRejectedValueOnce(new Error('down'));
+    await service.inspect();
+
+    playlist.findAll.mockResolvedValue([]);
+    await service.inspect();
+
+    expect(playlist.findAll).toHaveBeenCalledTimes(2);
+  });
+});
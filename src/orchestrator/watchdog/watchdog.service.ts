@@ -0,0 +1,107 @@
+import { Injectable } from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { InjectModel } from '@nestjs/sequelize';
+import { NotificationsService } from 'src/core/notifications/notifications.service';
+import { Logger } from 'src/decorators/logger.decorator';
+import { Playlist, PlaylistStatus } from 'src/models/playlist.model';
+import { SlotStatus } from 'src/models/slot.model';
+import { JSONLogger } from 'src/utils/logger';
+import { PlaylistsService } from '../playlists/playlists.service';
+
+/**
+ * Service responsible for detecting playlists whose running slots went past their deadline.
+ */
+@Injectable()
+export class WatchdogService {
+  /**
+   * Logger instance for logging messages.
+   */
+  @Logger(WatchdogService.name)
+  private readonly logger!: JSONLogger;
+
+  /**
+   * Whether an inspection is already in progress.
+   */
+  private inspecting = false;
+
+  constructor(
+    private readonly playlistsService: PlaylistsService,
+    private readonly notificationsService: NotificationsService,
+    @InjectModel(Playlist) private readonly playlist: typeof Playlist,
+  ) {}
+
+  /**
+   * Inspects the running playlists and handles their stalled slots.
+   *
+   * A slot is stalled when its plugin accepted the task but didn't segue before the
+   * slot deadline. The stall is handled as a retryable failure of the slot, so it is
+   * retried, routed to its error slot or crashed.
+   *
+   * Queued playlists are then admitted, in case a place was freed without draining
+   * the queue, e.g. by an instance that went down in between.
+   */
+  @Cron(CronExpression.EVERY_MINUTE)
+  async inspect(): Promise<void> {
+    if (this.inspecting) {
+      return;
+    }
+
+    this.inspecting = true;
+
+    try {
+      const playlists = await this.playlist.findAll({
+        where: {
+          status: [PlaylistStatus.RUNNING, PlaylistStatus.AWAITING_APPROVAL],
+        },
+      });
+
+      for (const playlist of playlists) {
+        await this.inspectPlaylist(playlist);
+      }
+
+      await this.playlistsService.drain();
+    } catch (error) {
+      this.logger.error('Watchdog inspection failed:', error);
+    } finally {
+      this.inspecting = false;
+    }
+  }
+
+  /**
+   * Handles the slots of a single playlist that are past their deadline.
+   *
+   * @param playlist - The running playlist to inspect.
+   */
+  private async inspectPlaylist(playlist: Playlist): Promise<void> {
+    const context = await this.playlistsService.getContext(playlist.id);
+    const now = new Date();
+
+    const stalled = (context?.sequence || []).filter(
+      ({ status, deadline }) =>
+        status === SlotStatus.RUNNING && deadline && new Date(deadline) < now,
+    );
+
+    for (const slot of stalled) {
+      this.logger.warn(
+        `Slot ${slot.name} of playlist ${playlist.slug} went past its deadline.`,
+      );
+
+      const resolution = await this.playlistsService.fail(
+        playlist,
+        context!,
+        slot.id,
+        {
+          code: 'TIMEOUT',
+          message: `The slot did not segue before ${new Date(slot.deadline!).toISOString()}.`,
+          retryable: true,
+        },
+      );
+
+      this.notificationsService.playlistStalled(
+        playlist.slug,
+        slot.name,
+        resolution,
+      );
+    }
+  }
+}
@@ -0,0 +1,39 @@
+import { getBackoffDelay } from './backoff';
+
+describe('backoff', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('getBackoffDelay', () => {
+    it('should double the ceiling with every attempt', () => {
+      jest.spyOn(Math, 'random').mockReturnValue(1);
+
+      expect(getBackoffDelay(0, 100, 10000)).toBe(100);
+      expect(getBackoffDelay(1, 100, 10000)).toBe(200);
+      expect(getBackoffDelay(3, 100, 10000)).toBe(800);
+    });
+
+    it('should never exceed the maximum delay', () => {
+      jest.spyOn(Math, 'random').mockReturnValue(1);
+
+      expect(getBackoffDelay(20, 100, 5000)).toBe(5000);
+    });
+
+    it('should subtract up to half of the ceiling as jitter', () => {
+      jest.spyOn(Math, 'random').mockReturnValue(0);
+
+      expect(getBackoffDelay(2, 100, 10000)).toBe(200);
+    });
+
+    it('should stay within half and all of the ceiling', () => {
+      for (let attempt = 0; attempt < 10; attempt++) {
+        const ceiling = Math.min(60000, 1000 * 2 ** attempt);
+        const delay = getBackoffDelay(attempt);
+
+        expect(delay).toBeGreaterThanOrEqual(ceiling / 2);
+        expect(delay).toBeLessThanOrEqual(ceiling);
+      }
+    });
+  });
+});
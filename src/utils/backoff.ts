@@ -0,0 +1,33 @@
+/**
+ * The base and maximum delays, in milliseconds, used between retries.
+ *
+ * These values are retrieved from the environment variables `RETRY_BASE_DELAY_MS`
+ * and `RETRY_MAX_DELAY_MS`. If they are not set, they default to one second and one minute.
+ *
+ * @constant
+ * @type {number}
+ */
+const retryBaseDelay: number = Number(process.env.RETRY_BASE_DELAY_MS) || 1000;
+const retryMaxDelay: number = Number(process.env.RETRY_MAX_DELAY_MS) || 60000;
+
+/**
+ * Computes the delay before the next retry using exponential backoff with jitter.
+ *
+ * The delay doubles with every attempt up to the maximum, and a random jitter of
+ * up to half of it is subtracted so that concurrent retries don't line up.
+ *
+ * @param attempt - The zero-based number of the retry about to happen.
+ * @param base - The delay for the first retry, in milliseconds.
+ * @param max - The upper bound for the delay, in milliseconds.
+ * @returns The delay in milliseconds.
+ */
+const getBackoffDelay = (
+  attempt: number,
+  base: number = retryBaseDelay,
+  max: number = retryMaxDelay,
+): number => {
+  const ceiling = Math.min(max, base * 2 ** attempt);
+  return Math.round(ceiling / 2 + (Math.random() * ceiling) / 2);
+};
+
+export { getBackoffDelay, retryBaseDelay, retryMaxDelay };
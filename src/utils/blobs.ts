@@ -0,0 +1,13 @@
+/**
+ * The size, in bytes, above which slot outputs are offloaded to blob storage.
+ *
+ * This value is retrieved from the environment variable `OUTPUT_OFFLOAD_BYTES`.
+ * If it is not set, it defaults to 256 KiB.
+ *
+ * @constant
+ * @type {number}
+ */
+const outputOffloadBytes: number =
+  Number(process.env.OUTPUT_OFFLOAD_BYTES) || 256 * 1024;
+
+export { outputOffloadBytes };
@@ -0,0 +1,103 @@
+import { ConditionOperator, Slot, SlotCondition } from 'src/models/slot.model';
+import { evaluateCondition, resolveNextSlotId } from './conditions';
+
+describe('conditions', () => {
+  const scope = {
+    output: { score: 7, tags: ['urgent'], label: 'hello', empty: null },
+    metadata: { tier: 'gold' },
+  };
+
+  const condition = (
+    operator: ConditionOperator,
+    path: string,
+    value?: any,
+  ): SlotCondition => ({ operator, path, value, next_slot_id: 1 });
+
+  describe('evaluateCondition', () => {
+    it.each([
+      [ConditionOperator.EQ, 'metadata.tier', 'gold', true],
+      [ConditionOperator.EQ, 'output.score', '7', false],
+      [ConditionOperator.NEQ, 'output.score', 8, true],
+      [ConditionOperator.GT, 'output.score', 7, false],
+      [ConditionOperator.GTE, 'output.score', 7, true],
+      [ConditionOperator.LT, 'output.score', 10, true],
+      [ConditionOperator.LTE, 'output.score', 6, false],
+      [ConditionOperator.IN, 'metadata.tier', ['gold', 'silver'], true],
+      [ConditionOperator.IN, 'metadata.tier', 'gold', false],
+      [ConditionOperator.NIN, 'metadata.tier', ['bronze'], true],
+      [ConditionOperator.CONTAINS, 'output.tags', 'urgent', true],
+      [ConditionOperator.CONTAINS, 'output.label', 'ell', true],
+      [ConditionOperator.CONTAINS, 'output.score', 7, false],
+      [ConditionOperator.EXISTS, 'output.score', undefined, true],
+      [ConditionOperator.EXISTS, 'output.empty', undefined, false],
+      [ConditionOperator.EXISTS, 'output.missing', false, true],
+      [ConditionOperator.EQ, 'output.tags[0]', 'urgent', true],
+    ])(
+      '%s on %s against %j should be %s',
+      (operator, path, value, expected) => {
+        expect(evaluateCondition(condition(operator, path, value), scope)).toBe(
+          expected,
+        );
+      },
+    );
+
+    it('should throw on an unknown operator', () => {
+      expect(() =>
+        evaluateCondition(
+          condition('between' as ConditionOperator, 'output.score'),
+          scope,
+        ),
+      ).toThrow('Unknown condition operator: between');
+    });
+  });
+
+  describe('resolveNextSlotId', () => {
+    const slot = (fields: Partial<Slot>): Slot =>
+      ({ id: 1, default_next_slot_id: 9, ...fields }) as Slot;
+
+    it('should follow the first condition that holds', () => {
+      const conditions = [
+        {
+          ...condition(ConditionOperator.GT, 'output.score', 10),
+          next_slot_id: 2,
+        },
+        {
+          ...condition(ConditionOperator.GT, 'output.score', 5),
+          next_slot_id: 3,
+        },
+        {
+          ...condition(ConditionOperator.GT, 'output.score', 1),
+          next_slot_id: 4,
+        },
+      ];
+
+      expect(resolveNextSlotId(slot({ conditions }), scope)).toBe(3);
+    });
+
+    it('should fall back to the default next slot', () => {
+      const conditions = [condition(ConditionOperator.LT, 'output.score', 0)];
+
+      expect(resolveNextSlotId(slot({ conditions }), scope)).toBe(9);
+    });
+
+    it('should finish when a matching condition has no next slot', () => {
+      const conditions = [
+        {
+          ...condition(ConditionOperator.EXISTS, 'output'),
+          next_slot_id: null,
+        },
+      ];
+
+      expect(resolveNextSlotId(slot({ conditions }), scope)).toBeNull();
+    });
+
+    it('should treat non-list conditions as none', () => {
+      const conditions = {} as SlotCondition[];
+
+      expect(resolveNextSlotId(slot({ conditions }), scope)).toBe(9);
+      expect(
+        resolveNextSlotId(slot({ default_next_slot_id: undefined }), scope),
+      ).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,92 @@
+import { ConditionOperator, Slot, SlotCondition } from 'src/models/slot.model';
+import { getValueAtPath } from './paths';
+
+/**
+ * The data a slot condition is evaluated against.
+ *
+ * @property {any} output - The output reported by the slot.
+ * @property {Record<string, any>} metadata - The metadata of the playlist.
+ */
+export type ConditionScope = {
+  output: any;
+  metadata: Record<string, any>;
+};
+
+/**
+ * Evaluates a single condition against the provided scope.
+ *
+ * @param condition - The condition to evaluate.
+ * @param scope - The slot output and playlist metadata.
+ * @returns True if the condition holds, false otherwise.
+ */
+const evaluateCondition = (
+  condition: SlotCondition,
+  scope: ConditionScope,
+): boolean => {
+  const actual: any = getValueAtPath(scope, condition.path);
+  const expected = condition.value;
+
+  switch (condition.operator) {
+    case ConditionOperator.EQ:
+      return actual === expected;
+    case ConditionOperator.NEQ:
+      return actual !== expected;
+    case ConditionOperator.GT:
+      return actual > expected;
+    case ConditionOperator.GTE:
+      return actual >= expected;
+    case ConditionOperator.LT:
+      return actual < expected;
+    case ConditionOperator.LTE:
+      return actual <= expected;
+    case ConditionOperator.IN:
+      return Array.isArray(expected) && expected.includes(actual);
+    case ConditionOperator.NIN:
+      return Array.isArray(expected) && !expected.includes(actual);
+    case ConditionOperator.CONTAINS:
+      return (
+        (Array.isArray(actual) || typeof actual === 'string') &&
+        actual.includes(expected)
+      );
+    case ConditionOperator.EXISTS:
+      return (actual !== undefined && actual !== null) === (expected ?? true);
+    default:
+      throw new Error(
+        `Unknown condition operator: ${String(condition.operator)}`,
+      );
+  }
+};
+
+/**
+ * Resolves the next slot for a given slot.
+ *
+ * The conditions of the slot are evaluated in order and the first one that
+ * holds determines the next slot. If none of them holds, the slot's
+ * `default_next_slot_id` is used as the fallback.
+ *
+ * @param slot - The slot that has just reported its output.
+ * @param scope - The slot output and playlist metadata.
+ * @returns The ID of the next slot, or null if the playlist should finish.
+ */
+const resolveNextSlotId = (
+  slot: Slot,
+  scope: ConditionScope,
+): number | null => {
+  /**
+   * Older slots store an empty object here, so anything that is not a list is
+   * treated as having no conditions at all.
+   */
+  const conditions = Array.isArray(slot.conditions) ? slot.conditions : [];
+
+  const match = conditions.find((condition) =>
+    evaluateCondition(condition, scope),
+  );
+
+  if (match) {
+    return match.next_slot_id ?? null;
+  }
+
+  return slot.default_next_slot_id ?? null;
+};
+
+export { evaluateCondition, resolveNextSlotId };
@@ -0,0 +1,138 @@
+import { ConditionOperator, Slot } from 'src/models/slot.model';
+import {
+  findUnconditionalCycle,
+  getDownstreamSlotIds,
+  getReachableSlotIds,
+  getSlotTargets,
+} from './graph';
+
+describe('graph', () => {
+  const slot = (id: number, fields: Partial<Slot> = {}): Slot =>
+    ({ id, conditions: [], ...fields }) as Slot;
+
+  const next = (id: number, default_next_slot_id: number) =>
+    slot(id, { default_next_slot_id });
+
+  describe('getSlotTargets', () => {
+    it('should list every transition once', () => {
+      const target = slot(1, {
+        conditions: [
+          { path: 'output.a', operator: ConditionOperator.EQ, next_slot_id: 2 },
+          {
+            path: 'output.b',
+            operator: ConditionOperator.EQ,
+            next_slot_id: null,
+          },
+        ],
+        default_next_slot_id: 3,
+        fan_out_slot_ids: [3, 4],
+        error_slot_id: 5,
+      });
+
+      expect(getSlotTargets(target)).toEqual([2, 3, 4, 5]);
+    });
+
+    it('should ignore conditions that are not a list', () => {
+      expect(getSlotTargets(slot(1, { conditions: {} as any }))).toEqual([]);
+    });
+  });
+
+  describe('getReachableSlotIds', () => {
+    it('should include the slot itself and stop at cycles', () => {
+      const slots = [next(1, 2), next(2, 3), next(3, 1), next(4, 1)];
+
+      expect([...getReachableSlotIds(slots, 2)].sort()).toEqual([1, 2, 3]);
+    });
+
+    it('should skip unknown slots', () => {
+      expect([...getReachableSlotIds([next(1, 7)], 1)]).toEqual([1]);
+    });
+  });
+
+  describe('getDownstreamSlotIds', () => {
+    it('should clear the slot and everything after it', () => {
+      const slots = [next(1, 2), next(2, 3), next(3, 4), slot(4)];
+
+      expect([...getDownstreamSlotIds(slots, 1, 2)].sort()).toEqual([2, 3, 4]);
+    });
+
+    it('should keep the slots upstream of it in a cycle', () => {
+      const slots = [
+        next(1, 2),
+        next(2, 3),
+        slot(3, {
+          conditions: [
+            {
+              path: 'output.again',
+              operator: ConditionOperator.EQ,
+              value: true,
+              next_slot_id: 1,
+            },
+          ],
+          default_next_slot_id: 4,
+        }),
+        slot(4),
+      ];
+
+      expect([...getDownstreamSlotIds(slots, 1, 2)].sort()).toEqual([2, 3, 4]);
+    });
+
+    it('should keep the other branches feeding a join', () => {
+      const slots = [
+        slot(1, { fan_out_slot_ids: [2, 3] }),
+        next(2, 4),
+        next(3, 4),
+        next(4, 5),
+        slot(5),
+      ];
+
+      expect([...getDownstreamSlotIds(slots, 1, 2)].sort()).toEqual([2, 4, 5]);
+    });
+
+    it('should clear everything when retrying from the root', () => {
+      const slots = [next(1, 2), next(2, 1)];
+
+      expect([...getDownstreamSlotIds(slots, 1, 1)].sort()).toEqual([1, 2]);
+    });
+  });
+
+  describe('findUnconditionalCycle', () => {
+    it('should find cycles of default next slots', () => {
+      const slots = [next(1, 2), next(2, 3), next(3, 2)];
+
+      expect(findUnconditionalCycle(slots)).toEqual([2, 3]);
+    });
+
+    it('should find cycles going through fan-out slots', () => {
+      const slots = [
+        slot(1, { fan_out_slot_ids: [2, 3] }),
+        next(2, 1),
+        slot(3),
+      ];
+
+      expect(findUnconditionalCycle(slots)).toEqual([1, 2]);
+    });
+
+    it('should allow cycles with a condition or an error slot to leave them', () => {
+      const conditional = [
+        next(1, 2),
+        slot(2, {
+          conditions: [
+            {
+              path: 'output.done',
+              operator: ConditionOperator.EQ,
+              value: true,
+              next_slot_id: 3,
+            },
+          ],
+          default_next_slot_id: 1,
+        }),
+        slot(3),
+      ];
+      const erroring = [next(1, 2), slot(2, { error_slot_id: 1 })];
+
+      expect(findUnconditionalCycle(conditional)).toBeNull();
+      expect(findUnconditionalCycle(erroring)).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,180 @@
+import { Slot } from 'src/models/slot.model';
+
+/**
+ * Lists the slots a slot can lead to: its conditions, its default next slot,
+ * its fan-out slots and its error slot.
+ *
+ * @param slot - The slot to inspect.
+ * @returns The IDs of the slots it can lead to, without duplicates.
+ */
+const getSlotTargets = (slot: Slot): number[] => {
+  const conditions = Array.isArray(slot.conditions) ? slot.conditions : [];
+
+  const targets = [
+    ...conditions.map(({ next_slot_id }) => next_slot_id),
+    slot.default_next_slot_id,
+    ...(slot.fan_out_slot_ids || []),
+    slot.error_slot_id,
+  ].filter((id): id is number => typeof id === 'number');
+
+  return [...new Set(targets)];
+};
+
+/**
+ * Walks the slot graph and lists every slot reachable from a given slot,
+ * including the slot itself.
+ *
+ * @param slots - The slots of the strategy.
+ * @param rootId - The ID of the slot to start from.
+ * @returns The IDs of the reachable slots.
+ */
+const getReachableSlotIds = (slots: Slot[], rootId: number): Set<number> => {
+  const byId = new Map(slots.map((slot) => [slot.id, slot]));
+  const reachable = new Set<number>();
+  const pending = [rootId];
+
+  while (pending.length) {
+    const id = pending.pop()!;
+    const slot = byId.get(id);
+
+    if (!slot || reachable.has(id)) {
+      continue;
+    }
+
+    reachable.add(id);
+    pending.push(...getSlotTargets(slot));
+  }
+
+  return reachable;
+};
+
+/**
+ * Lists the slots cleared when a playlist is retried from a given slot: the slot
+ * itself and everything downstream of it.
+ *
+ * In a cyclic graph the slots upstream of the given slot are reachable from it too,
+ * so the slots leading from the root to it, without going through it, are kept.
+ *
+ * @param slots - The slots of the strategy.
+ * @param rootId - The ID of the root slot of the strategy.
+ * @param fromId - The ID of the slot to retry from.
+ * @returns The IDs of the slots to clear.
+ */
+const getDownstreamSlotIds = (
+  slots: Slot[],
+  rootId: number,
+  fromId: number,
+): Set<number> => {
+  const byId = new Map(slots.map((slot) => [slot.id, slot]));
+
+  /**
+   * The slots the root leads to without going through the retried slot.
+   */
+  const beforeFrom = new Set<number>();
+  const pending = rootId === fromId ? [] : [rootId];
+  while (pending.length) {
+    const id = pending.pop()!;
+    const slot = byId.get(id);
+
+    if (!slot || id === fromId || beforeFrom.has(id)) {
+      continue;
+    }
+
+    beforeFrom.add(id);
+    pending.push(...getSlotTargets(slot));
+  }
+
+  /**
+   * Among them, the ones leading to the retried slot are upstream of it.
+   */
+  const upstream = new Set<number>();
+  let frontier = [fromId];
+  while (frontier.length) {
+    const targets = new Set(frontier);
+    frontier = [...beforeFrom].filter(
+      (id) =>
+        !upstream.has(id) &&
+        getSlotTargets(byId.get(id)!).some((target) => targets.has(target)),
+    );
+    frontier.forEach((id) => upstream.add(id));
+  }
+
+  const downstream = getReachableSlotIds(slots, fromId);
+  upstream.forEach((id) => downstream.delete(id));
+
+  return downstream;
+};
+
+/**
+ * Lists the slots a slot always leads to, regardless of its output: its fan-out
+ * slots or, when it has no conditions, its default next slot.
+ *
+ * @param slot - The slot to inspect.
+ * @returns The IDs of the slots it unconditionally leads to.
+ */
+const getUnconditionalTargets = (slot: Slot): number[] => {
+  if (slot.fan_out_slot_ids?.length) {
+    return [...new Set(slot.fan_out_slot_ids)];
+  }
+
+  const conditions = Array.isArray(slot.conditions) ? slot.conditions : [];
+  return !conditions.length && typeof slot.default_next_slot_id === 'number'
+    ? [slot.default_next_slot_id]
+    : [];
+};
+
+/**
+ * Finds a cycle made only of unconditional transitions, which a playlist could
+ * never leave. Cycles going through a condition or an error slot are allowed, as
+ * they have a way out.
+ *
+ * @param slots - The slots of the strategy.
+ * @returns The IDs of the slots forming the cycle, in order, or null if there is none.
+ */
+const findUnconditionalCycle = (slots: Slot[]): number[] | null => {
+  const byId = new Map(slots.map((slot) => [slot.id, slot]));
+  const visited = new Set<number>();
+  const stack: number[] = [];
+
+  const visit = (id: number): number[] | null => {
+    const onStack = stack.indexOf(id);
+    if (onStack !== -1) {
+      return stack.slice(onStack);
+    }
+
+    const slot = byId.get(id);
+    if (!slot || visited.has(id)) {
+      return null;
+    }
+
+    visited.add(id);
+    stack.push(id);
+
+    for (const target of getUnconditionalTargets(slot)) {
+      const cycle = visit(target);
+      if (cycle) {
+        return cycle;
+      }
+    }
+
+    stack.pop();
+    return null;
+  };
+
+  for (const slot of slots) {
+    const cycle = visit(slot.id);
+    if (cycle) {
+      return cycle;
+    }
+  }
+
+  return null;
+};
+
+export {
+  findUnconditionalCycle,
+  getDownstreamSlotIds,
+  getReachableSlotIds,
+  getSlotTargets,
+  getUnconditionalTargets,
+};
@@ -0,0 +1,50 @@
+import { MappingScope, resolveMapping } from './mapping';
+
+describe('resolveMapping', () => {
+  const scope: MappingScope = {
+    metadata: { url: 'https://example.com', tags: ['a', 'b'] },
+    slots: {
+      lighthouse: { output: { score: 98, audits: [{ id: 'fcp' }] } },
+      pending: { status: 'PENDING' },
+    },
+  };
+
+  it('should resolve references into the metadata and slots', () => {
+    expect(resolveMapping('$.metadata.url', scope)).toBe('https://example.com');
+    expect(resolveMapping('$.slots.lighthouse.output.score', scope)).toBe(98);
+    expect(
+      resolveMapping('$.slots.lighthouse.output.audits[0].id', scope),
+    ).toBe('fcp');
+  });
+
+  it('should resolve missing references to undefined', () => {
+    expect(
+      resolveMapping('$.slots.pending.output.score', scope),
+    ).toBeUndefined();
+    expect(resolveMapping('$.slots.unknown', scope)).toBeUndefined();
+  });
+
+  it('should keep literals as they are', () => {
+    expect(resolveMapping('metadata.url', scope)).toBe('metadata.url');
+    expect(resolveMapping(42, scope)).toBe(42);
+    expect(resolveMapping(null, scope)).toBeNull();
+    expect(resolveMapping(false, scope)).toBe(false);
+  });
+
+  it('should resolve objects and arrays recursively', () => {
+    expect(
+      resolveMapping(
+        {
+          target: '$.metadata.url',
+          scores: ['$.slots.lighthouse.output.score', 0],
+          nested: { tags: '$.metadata.tags', mode: 'fast' },
+        },
+        scope,
+      ),
+    ).toEqual({
+      target: 'https://example.com',
+      scores: [98, 0],
+      nested: { tags: ['a', 'b'], mode: 'fast' },
+    });
+  });
+});
@@ -0,0 +1,51 @@
+import { getValueAtPath } from './paths';
+
+/**
+ * The data a mapping expression can reference: the playlist metadata and the
+ * slots of the playlist, keyed by name.
+ */
+export type MappingScope = {
+  metadata: Record<string, any>;
+  slots: Record<string, { output?: any; status?: string | null }>;
+};
+
+/**
+ * The prefix that marks a string as a reference into the mapping scope.
+ */
+const EXPRESSION_PREFIX = '$.';
+
+/**
+ * Resolves a mapping against the given scope.
+ *
+ * Strings starting with `$.` are references into the scope (e.g. `$.metadata.url`
+ * or `$.slots.lighthouse.output.score`). Objects and arrays are resolved recursively,
+ * and any other value is kept as is.
+ *
+ * @param mapping - The mapping to resolve.
+ * @param scope - The metadata and slots the references point to.
+ * @returns The resolved value. References to missing values resolve to undefined.
+ */
+const resolveMapping = (mapping: unknown, scope: MappingScope): unknown => {
+  if (typeof mapping === 'string') {
+    return mapping.startsWith(EXPRESSION_PREFIX)
+      ? getValueAtPath(scope, mapping.slice(EXPRESSION_PREFIX.length))
+      : mapping;
+  }
+
+  if (Array.isArray(mapping)) {
+    return mapping.map((item) => resolveMapping(item, scope));
+  }
+
+  if (mapping && typeof mapping === 'object') {
+    return Object.fromEntries(
+      Object.entries(mapping).map(([key, value]) => [
+        key,
+        resolveMapping(value, scope),
+      ]),
+    );
+  }
+
+  return mapping;
+};
+
+export { resolveMapping };
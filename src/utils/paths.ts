@@ -0,0 +1,37 @@
+/**
+ * Splits a dotted path into its segments.
+ *
+ * Array indexes can be expressed either as segments (`items.0.name`) or with
+ * brackets (`items[0].name`).
+ *
+ * @param path - The path to split.
+ * @returns The list of path segments.
+ */
+const splitPath = (path: string): string[] =>
+  path
+    .replace(/\[(\d+)\]/g, '.$1')
+    .split('.')
+    .filter((segment) => segment.length > 0);
+
+/**
+ * Retrieves the value located at the given dotted path within an object.
+ *
+ * @param source - The object to read from.
+ * @param path - The dotted path to the value (e.g. `output.score`).
+ * @returns The value at the path, or undefined if any segment is missing.
+ */
+const getValueAtPath = (source: any, path: string): unknown => {
+  let value: unknown = source;
+
+  for (const segment of splitPath(path)) {
+    if (value === null || value === undefined) {
+      return undefined;
+    }
+
+    value = (value as Record<string, unknown>)[segment];
+  }
+
+  return value;
+};
+
+export { getValueAtPath, splitPath };
@@ -0,0 +1,108 @@
+import { checkSchema, sampleSchema, validateSchema } from './schemas';
+
+describe('schemas', () => {
+  const schema = {
+    type: 'object',
+    properties: {
+      email: { type: 'string', format: 'email' },
+      count: { type: 'integer', minimum: 1 },
+    },
+    required: ['email'],
+  };
+
+  describe('checkSchema', () => {
+    it('should accept valid schemas, including unknown keywords', () => {
+      expect(checkSchema(schema)).toBeNull();
+      expect(checkSchema({ type: 'string', 'x-label': 'Name' })).toBeNull();
+    });
+
+    it('should describe invalid schemas', () => {
+      expect(checkSchema({ type: 'text' })).toEqual(expect.any(String));
+      expect(checkSchema({ minimum: 'one' })).toEqual(expect.any(String));
+    });
+
+    it('should refuse schemas that are not objects', () => {
+      expect(checkSchema(null as unknown as object)).toBe(
+        'The schema must be an object.',
+      );
+      expect(checkSchema('string' as unknown as object)).toBe(
+        'The schema must be an object.',
+      );
+    });
+  });
+
+  describe('validateSchema', () => {
+    it('should accept anything without a schema', () => {
+      expect(validateSchema(null, 42)).toBeNull();
+      expect(validateSchema(undefined, { any: 'thing' })).toBeNull();
+    });
+
+    it('should accept matching data', () => {
+      expect(
+        validateSchema(schema, { email: 'a@example.com', count: 2 }),
+      ).toBeNull();
+    });
+
+    it('should report every error in the data', () => {
+      const errors = validateSchema(schema, { email: 'nope', count: 0 });
+
+      expect(errors).toContain('data/email must match format "email"');
+      expect(errors).toContain('data/count must be >= 1');
+    });
+
+    it('should report missing properties', () => {
+      expect(validateSchema(schema, {})).toContain(
+        "must have required property 'email'",
+      );
+    });
+  });
+
+  describe('sampleSchema', () => {
+    it('should sample an empty object without a schema', () => {
+      expect(sampleSchema(null)).toEqual({});
+    });
+
+    it('should favour const, default, examples and enum', () => {
+      expect(sampleSchema({ const: 'a', default: 'b' })).toBe('a');
+      expect(sampleSchema({ default: 'b', examples: ['c'] })).toBe('b');
+      expect(sampleSchema({ examples: ['c'], enum: ['d'] })).toBe('c');
+      expect(sampleSchema({ enum: ['d', 'e'] })).toBe('d');
+    });
+
+    it('should build values that satisfy the schema', () => {
+      const output = {
+        type: 'object',
+        properties: {
+          name: { type: 'string', minLength: 3 },
+          score: { type: 'integer', exclusiveMinimum: 0 },
+          passed: { type: 'boolean' },
+          audits: {
+            type: 'array',
+            minItems: 2,
+            items: { type: 'number', minimum: 5 },
+          },
+          kind: { oneOf: [{ type: 'null' }, { type: 'string' }] },
+          extra: {
+            allOf: [
+              { properties: { a: { const: 1 } } },
+              { properties: { b: { const: 2 } } },
+            ],
+          },
+        },
+        required: ['name', 'score', 'passed', 'audits'],
+      };
+
+      const sample = sampleSchema(output);
+
+      expect(sample).toEqual({
+        name: 'xxx',
+        score: 1,
+        passed: false,
+        audits: [5, 5],
+        kind: null,
+        extra: { a: 1, b: 2 },
+      });
+      expect(validateSchema(output, sample)).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,122 @@
+import Ajv from 'ajv';
+import addFormats from 'ajv-formats';
+
+/**
+ * The validator shared by all the schemas. Compiled schemas are cached by Ajv.
+ *
+ * Strict mode is off, so schemas with keywords Ajv doesn't know, such as
+ * annotations, are accepted rather than rejected.
+ */
+const ajv = new Ajv({ allErrors: true, strict: false });
+addFormats(ajv);
+
+/**
+ * Checks whether a JSON Schema is itself valid.
+ *
+ * @param schema - The JSON Schema to check.
+ * @returns The description of the problems found, or null if the schema is valid.
+ */
+const checkSchema = (schema: object): string | null => {
+  if (typeof schema !== 'object' || schema === null) {
+    return 'The schema must be an object.';
+  }
+
+  try {
+    ajv.compile(schema);
+    return null;
+  } catch (error) {
+    return (error as Error).message;
+  }
+};
+
+/**
+ * Validates some data against a JSON Schema.
+ *
+ * @param schema - The JSON Schema to validate against. No schema accepts anything.
+ * @param data - The data to validate.
+ * @returns The description of the validation errors, or null if the data is valid.
+ */
+const validateSchema = (
+  schema: object | null | undefined,
+  data: unknown,
+): string | null => {
+  if (!schema) {
+    return null;
+  }
+
+  return ajv.validate(schema, data) ? null : ajv.errorsText(ajv.errors);
+};
+
+/**
+ * Builds a sample value that satisfies a JSON Schema, for simulated outputs.
+ *
+ * The sample favours the `const`, `default`, `examples` and `enum` keywords of the
+ * schema and falls back to the smallest value of its type. Objects get all their
+ * properties and arrays get as many items as they require.
+ *
+ * @param schema - The JSON Schema to sample.
+ * @returns A value matching the schema, or an empty object if there is no schema.
+ */
+const sampleSchema = (
+  schema: Record<string, any> | null | undefined,
+): unknown => {
+  if (!schema || typeof schema !== 'object') {
+    return {};
+  }
+
+  if (schema.const !== undefined) {
+    return schema.const;
+  }
+
+  if (schema.default !== undefined) {
+    return schema.default;
+  }
+
+  if (Array.isArray(schema.examples) && schema.examples.length) {
+    return schema.examples[0];
+  }
+
+  if (Array.isArray(schema.enum) && schema.enum.length) {
+    return schema.enum[0];
+  }
+
+  const alternatives = schema.oneOf || schema.anyOf;
+  if (Array.isArray(alternatives) && alternatives.length) {
+    return sampleSchema(alternatives[0]);
+  }
+
+  if (Array.isArray(schema.allOf)) {
+    return Object.assign({}, ...schema.allOf.map(sampleSchema));
+  }
+
+  const type = Array.isArray(schema.type) ? schema.type[0] : schema.type;
+  switch (type) {
+    case 'string':
+      return 'x'.repeat(schema.minLength || 0);
+    case 'number':
+    case 'integer':
+      return (
+        schema.minimum ??
+        (schema.exclusiveMinimum !== undefined
+          ? schema.exclusiveMinimum + 1
+          : 0)
+      );
+    case 'boolean':
+      return false;
+    case 'null':
+      return null;
+    case 'array':
+      return Array.from({ length: schema.minItems || 0 }, () =>
+        sampleSchema(schema.items),
+      );
+    default:
+      return Object.fromEntries(
+        Object.entries(schema.properties || {}).map(([key, property]) => [
+          key,
+          sampleSchema(property as Record<string, any>),
+        ]),
+      );
+  }
+};
+
+export { checkSchema, sampleSchema, validateSchema };
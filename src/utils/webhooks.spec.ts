@@ -0,0 +1,150 @@
+import { createHmac } from 'crypto';
+import { promises as dns } from 'dns';
+import { createServer } from 'http';
+import { AddressInfo } from 'net';
+import {
+  checkWebhookTarget,
+  isBlockedAddress,
+  isWebhookOrigin,
+  postWebhook,
+  signWebhook,
+  webhookLookup,
+} from './webhooks';
+
+describe('webhooks', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('isWebhookOrigin', () => {
+    it.each([
+      ['https://hooks.example.com/wiphala', true],
+      ['http://hooks.example.com', true],
+      ['grpc://plugin:50051', false],
+      ['plugin:50051', false],
+      ['not a url', false],
+    ])('%s should be %s', (origin, expected) => {
+      expect(isWebhookOrigin(origin)).toBe(expected);
+    });
+  });
+
+  describe('isBlockedAddress', () => {
+    it.each([
+      '127.0.0.1',
+      '10.1.2.3',
+      '172.20.0.1',
+      '192.168.1.1',
+      '169.254.169.254',
+      '100.64.0.1',
+      '0.0.0.0',
+      '::1',
+      '::',
+      'fd00::1',
+      'fe80::1',
+      '::ffff:127.0.0.1',
+      '::FFFF:169.254.169.254',
+    ])('should block %s', (address) => {
+      expect(isBlockedAddress(address)).toBe(true);
+    });
+
+    it.each(['93.184.216.34', '8.8.8.8', '2606:4700::1111', '::ffff:8.8.8.8'])(
+      'should allow %s',
+      (address) => {
+        expect(isBlockedAddress(address)).toBe(false);
+      },
+    );
+  });
+
+  describe('checkWebhookTarget', () => {
+    it('should refuse origins that are not HTTP(S)', async () => {
+      expect(await checkWebhookTarget('grpc://plugin:50051')).toBe(
+        'Origin grpc://plugin:50051 is not an HTTP(S) URL.',
+      );
+    });
+
+    it('should refuse private and link-local addresses', async () => {
+      expect(
+        await checkWebhookTarget('http://169.254.169.254/latest/meta-data'),
+      ).toBe('Host 169.254.169.254 resolves to a private or reserved address.');
+      expect(await checkWebhookTarget('http://[::1]:8080/hook')).toBe(
+        'Host ::1 resolves to a private or reserved address.',
+      );
+    });
+
+    it('should accept public addresses', async () => {
+      expect(await checkWebhookTarget('https://93.184.216.34/hook')).toBeNull();
+    });
+
+    it('should refuse hosts resolving to any blocked address', async () => {
+      jest.spyOn(dns, 'lookup').mockResolvedValue([
+        { address: '93.184.216.34', family: 4 },
+        { address: '10.0.0.5', family: 4 },
+      ] as any);
+
+      expect(await checkWebhookTarget('https://hooks.example.com')).toBe(
+        'Host hooks.example.com resolves to a private or reserved address.',
+      );
+    });
+
+    it('should refuse hosts that do not resolve', async () => {
+      jest.spyOn(dns, 'lookup').mockRejectedValue(new Error('ENOTFOUND'));
+
+      expect(await checkWebhookTarget('https://nowhere.invalid')).toBe(
+        'Host nowhere.invalid could not be resolved: ENOTFOUND',
+      );
+    });
+  });
+
+  describe('postWebhook', () => {
+    it('should refuse to connect to a host resolving to a blocked address', async () => {
+      const received = jest.fn();
+      const server = createServer((request, response) => {
+        received();
+        response.end();
+      });
+      await new Promise<void>((resolve) =>
+        server.listen(0, '127.0.0.1', resolve),
+      );
+      const { port } = server.address() as AddressInfo;
+
+      try {
+        await expect(
+          postWebhook(`http://localhost:${port}/hook`, {}, '{}'),
+        ).rejects.toThrow(
+          'Host localhost resolves to a private or reserved address.',
+        );
+        expect(received).not.toHaveBeenCalled();
+      } finally {
+        await new Promise((resolve) => server.close(resolve));
+      }
+    });
+
+    it('should check every address when all of them are asked for', async () => {
+      const error = await new Promise<Error | null>((resolve) =>
+        webhookLookup('localhost', { all: true }, resolve),
+      );
+
+      expect(error?.message).toBe(
+        'Host localhost resolves to a private or reserved address.',
+      );
+    });
+  });
+
+  describe('signWebhook', () => {
+    it('should sign the timestamp and the body', () => {
+      const expected = createHmac('sha256', 'secret')
+        .update('1700000000.{"slug":"playlist"}')
+        .digest('hex');
+
+      expect(signWebhook('{"slug":"playlist"}', 1700000000, 'secret')).toBe(
+        `sha256=${expected}`,
+      );
+    });
+
+    it('should change with the timestamp', () => {
+      expect(signWebhook('{}', 1, 'secret')).not.toBe(
+        signWebhook('{}', 2, 'secret'),
+      );
+    });
+  });
+});
@@ -0,0 +1,261 @@
+import { createHmac } from 'crypto';
+import { lookup, promises as dns } from 'dns';
+import { request as httpRequest, IncomingMessage } from 'http';
+import { request as httpsRequest } from 'https';
+import { BlockList, isIP, LookupFunction } from 'net';
+
+/**
+ * The secret used to sign webhook deliveries, and how long, in milliseconds, a
+ * webhook endpoint has to respond.
+ *
+ * These values are retrieved from the environment variables `WEBHOOK_SECRET` and
+ * `WEBHOOK_TIMEOUT_MS`. The timeout defaults to ten seconds.
+ *
+ * @constant
+ */
+const webhookSecret: string | undefined = process.env.WEBHOOK_SECRET;
+const webhookTimeout: number = Number(process.env.WEBHOOK_TIMEOUT_MS) || 10000;
+
+/**
+ * The hosts webhooks may be delivered to, retrieved from the comma-separated
+ * environment variable `WEBHOOK_ALLOWED_HOSTS`. If it is not set, any host with a
+ * public address is allowed.
+ *
+ * @constant
+ */
+const webhookAllowedHosts: string[] = (process.env.WEBHOOK_ALLOWED_HOSTS || '')
+  .split(',')
+  .map((host) => host.trim().toLowerCase())
+  .filter((host) => host.length);
+
+/**
+ * The addresses webhooks are never delivered to: private, loopback, link-local
+ * (which includes cloud metadata endpoints such as 169.254.169.254), shared,
+ * multicast and reserved ranges.
+ */
+const blockedAddresses = new BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['224.0.0.0', 4],
+  ['240.0.0.0', 4],
+] as const) {
+  blockedAddresses.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+  ['::', 128],
+  ['::1', 128],
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['ff00::', 8],
+] as const) {
+  blockedAddresses.addSubnet(network, prefix, 'ipv6');
+}
+
+/**
+ * The headers carrying the signature, timestamp, event type and delivery ID of a webhook.
+ */
+const webhookHeaders = {
+  signature: 'X-Wiphala-Signature',
+  timestamp: 'X-Wiphala-Timestamp',
+  event: 'X-Wiphala-Event',
+  delivery: 'X-Wiphala-Delivery',
+};
+
+/**
+ * Whether an origin can receive webhooks, i.e. it is an HTTP(S) URL.
+ *
+ * @param origin - The origin to check.
+ * @returns True if the origin uses the http or https scheme.
+ */
+const isWebhookOrigin = (origin: string): boolean => {
+  try {
+    return ['http:', 'https:'].includes(new URL(origin).protocol);
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Whether an IP address is one webhooks are never delivered to.
+ *
+ * @param address - The IPv4 or IPv6 address.
+ * @returns True if the address is private, loopback, link-local or reserved.
+ */
+const isBlockedAddress = (address: string): boolean => {
+  /**
+   * IPv4-mapped IPv6 addresses are checked as the IPv4 address they map.
+   */
+  const mapped = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/i.exec(address)?.[1];
+  if (mapped) {
+    return blockedAddresses.check(mapped, 'ipv4');
+  }
+
+  return blockedAddresses.check(address, isIP(address) === 6 ? 'ipv6' : 'ipv4');
+};
+
+/**
+ * Checks that a webhook URL can be called without reaching into the internal network.
+ *
+ * With `WEBHOOK_ALLOWED_HOSTS` set, only the hosts it lists are accepted. Otherwise
+ * the host is resolved, and rejected if any of its addresses is blocked.
+ *
+ * @param origin - The webhook URL.
+ * @returns The reason the URL is rejected, or null if it can be called.
+ */
+const checkWebhookTarget = async (origin: string): Promise<string | null> => {
+  if (!isWebhookOrigin(origin)) {
+    return `Origin ${origin} is not an HTTP(S) URL.`;
+  }
+
+  const hostname = new URL(origin).hostname
+    .replace(/^\[|\]$/g, '')
+    .toLowerCase();
+
+  if (webhookAllowedHosts.length) {
+    return webhookAllowedHosts.includes(hostname)
+      ? null
+      : `Host ${hostname} is not allowed to receive webhooks.`;
+  }
+
+  let addresses: string[];
+  try {
+    addresses = isIP(hostname)
+      ? [hostname]
+      : (await dns.lookup(hostname, { all: true })).map(
+          ({ address }) => address,
+        );
+  } catch (error) {
+    return `Host ${hostname} could not be resolved: ${(error as Error).message}`;
+  }
+
+  return addresses.some(isBlockedAddress)
+    ? `Host ${hostname} resolves to a private or reserved address.`
+    : null;
+};
+
+/**
+ * Resolves the host of a webhook for the connection itself, and fails if any of its
+ * addresses is blocked. The request connects to the addresses checked here, so a
+ * host can't pass `checkWebhookTarget` and then resolve to an internal address.
+ *
+ * Hosts listed in `WEBHOOK_ALLOWED_HOSTS` are trusted and resolved as usual.
+ */
+const webhookLookup: LookupFunction = (hostname, options, callback) => {
+  if (webhookAllowedHosts.length) {
+    lookup(hostname, options, callback);
+    return;
+  }
+
+  lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) {
+      callback(error, '', 0);
+      return;
+    }
+
+    if (
+      !addresses.length ||
+      addresses.some(({ address }) => isBlockedAddress(address))
+    ) {
+      callback(
+        new Error(
+          `Host ${hostname} resolves to a private or reserved address.`,
+        ),
+        '',
+        0,
+      );
+      return;
+    }
+
+    if (options.all) {
+      callback(null, addresses);
+    } else {
+      callback(null, addresses[0].address, addresses[0].family);
+    }
+  });
+};
+
+/**
+ * Posts a body to a webhook, connecting only to the addresses `webhookLookup` allows.
+ * Redirects are not followed.
+ *
+ * @param origin - The webhook URL.
+ * @param headers - The headers of the request.
+ * @param body - The raw body of the request.
+ * @returns The status code and message of the response.
+ * @throws {Error} If the host is blocked, the request fails or it times out.
+ */
+const postWebhook = (
+  origin: string,
+  headers: Record<string, string>,
+  body: string,
+): Promise<{ status: number; statusText: string }> =>
+  new Promise((resolve, reject) => {
+    const url = new URL(origin);
+    const request = (url.protocol === 'https:' ? httpsRequest : httpRequest)(
+      url,
+      {
+        method: 'POST',
+        headers: { ...headers, 'Content-Length': Buffer.byteLength(body) },
+        lookup: webhookLookup,
+        timeout: webhookTimeout,
+      },
+      (response: IncomingMessage) => {
+        response.resume();
+        resolve({
+          status: response.statusCode || 0,
+          statusText: response.statusMessage || '',
+        });
+      },
+    );
+
+    request.on('timeout', () =>
+      request.destroy(
+        new Error(`Webhook did not respond within ${webhookTimeout}ms.`),
+      ),
+    );
+    request.on('error', reject);
+    request.end(body);
+  });
+
+/**
+ * Signs a webhook body with HMAC-SHA256.
+ *
+ * The timestamp is part of the signed content, so receivers can reject replayed
+ * requests by checking it is recent.
+ *
+ * @param body - The raw JSON body of the request.
+ * @param timestamp - The UNIX timestamp, in seconds, sent along the request.
+ * @param secret - The signing secret.
+ * @returns The signature, as `sha256=<hex digest>` of `<timestamp>.<body>`.
+ */
+const signWebhook = (
+  body: string,
+  timestamp: number,
+  secret: string,
+): string => {
+  const digest = createHmac('sha256', secret)
+    .update(`${timestamp}.${body}`)
+    .digest('hex');
+
+  return `sha256=${digest}`;
+};
+
+export {
+  checkWebhookTarget,
+  isBlockedAddress,
+  isWebhookOrigin,
+  postWebhook,
+  signWebhook,
+  webhookHeaders,
+  webhookLookup,
+  webhookSecret,
+  webhookTimeout,
+};